@@ -0,0 +1,140 @@
+import { useMemo } from "react";
+import { BasisSpreadPoint } from "@/lib/multiCurve";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine,
+} from "recharts";
+
+interface BasisSpreadSeries {
+  key: string;   // method id
+  label: string; // method display name
+  points: BasisSpreadPoint[];
+}
+
+interface BasisSpreadChartProps {
+  series: BasisSpreadSeries[];
+  title?: string;
+}
+
+const SERIES_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(142, 76%, 36%)",
+  "hsl(280, 70%, 50%)",
+  "hsl(30, 100%, 50%)",
+  "hsl(350, 80%, 50%)",
+  "hsl(180, 70%, 40%)",
+  "hsl(210, 100%, 50%)",
+  "hsl(60, 70%, 45%)",
+];
+
+export function BasisSpreadChart({ series, title }: BasisSpreadChartProps) {
+  const chartData = useMemo(() => {
+    const allTenors = new Set<number>();
+    series.forEach((s) => s.points.forEach((p) => allTenors.add(Number(p.tenor.toFixed(4)))));
+
+    return Array.from(allTenors)
+      .sort((a, b) => a - b)
+      .map((tenor) => {
+        const row: Record<string, number> = { tenor };
+        series.forEach((s) => {
+          const point = s.points.find((p) => Math.abs(p.tenor - tenor) < 0.0001);
+          if (point) row[s.key] = point.spreadBp;
+        });
+        return row;
+      });
+  }, [series]);
+
+  const chartConfig = useMemo(() => {
+    const config: Record<string, { label: string; color: string }> = {};
+    series.forEach((s, idx) => {
+      config[s.key] = { label: s.label, color: SERIES_COLORS[idx % SERIES_COLORS.length] };
+    });
+    return config;
+  }, [series]);
+
+  if (chartData.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-48 text-muted-foreground">
+        Pas de données disponibles
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {title && <h3 className="text-sm font-medium text-muted-foreground">{title}</h3>}
+      <ChartContainer config={chartConfig} className="h-[300px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.5} />
+            <XAxis
+              dataKey="tenor"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+              tickLine={{ stroke: "hsl(var(--border))" }}
+              axisLine={{ stroke: "hsl(var(--border))" }}
+              tickFormatter={(value) => `${Number(value).toFixed(0)}Y`}
+              label={{
+                value: "Maturité (années)",
+                position: "insideBottom",
+                offset: -10,
+                style: { fill: "hsl(var(--muted-foreground))", fontSize: 12 },
+              }}
+            />
+            <YAxis
+              tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+              tickLine={{ stroke: "hsl(var(--border))" }}
+              axisLine={{ stroke: "hsl(var(--border))" }}
+              tickFormatter={(value) => `${Number(value).toFixed(1)}`}
+              label={{
+                value: "Spread (bp)",
+                angle: -90,
+                position: "insideLeft",
+                style: { fill: "hsl(var(--muted-foreground))", fontSize: 12 },
+              }}
+            />
+            <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, name) => [
+                    `${Number(value).toFixed(2)} bp`,
+                    chartConfig[name as string]?.label || name,
+                  ]}
+                  labelFormatter={(label) => `Tenor: ${Number(label).toFixed(2)}Y`}
+                />
+              }
+            />
+            <Legend
+              wrapperStyle={{ paddingTop: 20 }}
+              formatter={(value) => chartConfig[value]?.label || value}
+            />
+            {series.map((s, idx) => (
+              <Line
+                key={s.key}
+                type="monotone"
+                dataKey={s.key}
+                stroke={SERIES_COLORS[idx % SERIES_COLORS.length]}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </ChartContainer>
+    </div>
+  );
+}
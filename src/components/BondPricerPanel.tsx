@@ -0,0 +1,293 @@
+import { useMemo, useState } from "react";
+import { BootstrapResult } from "@/lib/bootstrapping";
+import { BondYieldData } from "@/lib/api/bonds";
+import { addMonths, parseISODate, toISODate } from "@/lib/dates";
+import { DAY_COUNT_CONVENTIONS, DayCountConvention } from "@/lib/dayCount";
+import {
+  bondFromCleanPrice,
+  bondFromCurve,
+  bondFromYield,
+  bondSettlementDate,
+  BondSpec,
+  getBondConvention,
+} from "@/lib/bondPricer";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface BondPricerPanelProps {
+  currency: string;
+  valuationDate: Date;
+  results: BootstrapResult[];
+  yieldsData: BondYieldData[];
+}
+
+type QuoteMode = "yield" | "price";
+
+const FREQUENCY_OPTIONS = [
+  { value: 1, name: "Annuel" },
+  { value: 2, name: "Semestriel" },
+  { value: 4, name: "Trimestriel" },
+];
+
+const DEFAULT_MATURITY_MONTHS = 120;
+
+export function BondPricerPanel({ currency, valuationDate, results, yieldsData }: BondPricerPanelProps) {
+  const convention = getBondConvention(currency);
+  const [couponInput, setCouponInput] = useState("3");
+  const [frequency, setFrequency] = useState(convention.frequency);
+  const [dayCount, setDayCount] = useState<DayCountConvention>(convention.dayCount);
+  const [maturityInput, setMaturityInput] = useState(toISODate(addMonths(valuationDate, DEFAULT_MATURITY_MONTHS)));
+  const [settlementInput, setSettlementInput] = useState(toISODate(bondSettlementDate(valuationDate, currency)));
+  const [quoteMode, setQuoteMode] = useState<QuoteMode>("yield");
+  const [quoteInput, setQuoteInput] = useState("3");
+  const [curveMethod, setCurveMethod] = useState(results[0]?.method ?? "");
+
+  const curve = results.find((r) => r.method === curveMethod) ?? results[0];
+
+  const bond: BondSpec | null = useMemo(() => {
+    const couponRate = parseFloat(couponInput) / 100;
+    const maturityDate = parseISODate(maturityInput);
+    const settlementDate = parseISODate(settlementInput);
+    if (isNaN(couponRate) || !maturityDate || !settlementDate) return null;
+    return { couponRate, frequency, maturityDate, settlementDate, dayCount };
+  }, [couponInput, frequency, maturityInput, settlementInput, dayCount]);
+
+  const bondAnalytics = useMemo(() => {
+    const quote = parseFloat(quoteInput);
+    if (!bond || isNaN(quote)) return null;
+    return quoteMode === "yield" ? bondFromYield(bond, quote / 100) : bondFromCleanPrice(bond, quote);
+  }, [bond, quoteInput, quoteMode]);
+
+  const curveValuation = useMemo(
+    () => (bond && bondAnalytics && curve ? bondFromCurve(bond, curve, bondAnalytics.yield) : null),
+    [bond, bondAnalytics, curve]
+  );
+
+  // Prefill from a quoted benchmark: maturity, coupon at the yield, market yield
+  const applyBenchmark = (maturity: string) => {
+    const benchmark = yieldsData.find((y) => y.maturity === maturity);
+    if (!benchmark || benchmark.yield === null) return;
+    setMaturityInput(toISODate(addMonths(valuationDate, Math.round(benchmark.maturityYears * 12))));
+    setCouponInput((Math.round(benchmark.yield * 8) / 8).toString());
+    setQuoteMode("yield");
+    setQuoteInput(benchmark.yield.toString());
+  };
+
+  const metric = (label: string, value: string, highlight?: string) => (
+    <div className="p-3 rounded-lg bg-muted/50">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={`font-mono text-sm ${highlight ?? ""}`}>{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Bond */}
+      <div className="space-y-3">
+        {yieldsData.length > 0 && (
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Benchmark</Label>
+            <Select onValueChange={applyBenchmark}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Pré-remplir depuis une maturité cotée" />
+              </SelectTrigger>
+              <SelectContent>
+                {yieldsData
+                  .filter((y) => y.yield !== null && y.maturityYears > 0)
+                  .map((y) => (
+                    <SelectItem key={y.maturity} value={y.maturity}>
+                      {y.maturity} — {(y.yield as number).toFixed(3)}%
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="bond-coupon" className="text-xs text-muted-foreground">Coupon (%)</Label>
+            <Input
+              id="bond-coupon"
+              type="number"
+              step="0.125"
+              value={couponInput}
+              onChange={(e) => setCouponInput(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Fréquence</Label>
+            <Select value={String(frequency)} onValueChange={(value) => setFrequency(Number(value))}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FREQUENCY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="bond-maturity" className="text-xs text-muted-foreground">Maturité</Label>
+            <Input
+              id="bond-maturity"
+              type="date"
+              value={maturityInput}
+              onChange={(e) => setMaturityInput(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bond-settlement" className="text-xs text-muted-foreground">Règlement</Label>
+            <Input
+              id="bond-settlement"
+              type="date"
+              value={settlementInput}
+              onChange={(e) => setSettlementInput(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Base</Label>
+          <Select value={dayCount} onValueChange={(value) => setDayCount(value as DayCountConvention)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAY_COUNT_CONVENTIONS.map((dc) => (
+                <SelectItem key={dc} value={dc}>
+                  {dc}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Cotation</Label>
+            <Select
+              value={quoteMode}
+              onValueChange={(value) => {
+                // Keep the same bond: switch the input to the other side of the quote
+                if (bondAnalytics) {
+                  setQuoteInput(
+                    value === "yield"
+                      ? (bondAnalytics.yield * 100).toFixed(4)
+                      : bondAnalytics.cleanPrice.toFixed(4)
+                  );
+                }
+                setQuoteMode(value as QuoteMode);
+              }}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="yield">Rendement (%)</SelectItem>
+                <SelectItem value="price">Prix clean</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bond-quote" className="text-xs text-muted-foreground">
+              {quoteMode === "yield" ? "Rendement (%)" : "Prix clean"}
+            </Label>
+            <Input
+              id="bond-quote"
+              type="number"
+              step={quoteMode === "yield" ? "0.01" : "0.05"}
+              value={quoteInput}
+              onChange={(e) => setQuoteInput(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+        </div>
+
+        {results.length > 0 && (
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Courbe de référence</Label>
+            <Select value={curve?.method} onValueChange={setCurveMethod}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {results.map((r) => (
+                  <SelectItem key={r.method} value={r.method} className="capitalize">
+                    {r.method.replace(/_/g, " ")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {/* Analytics */}
+      <div className="lg:col-span-2 space-y-4">
+        {!bondAnalytics ? (
+          <div className="text-center py-8 text-muted-foreground">
+            La maturité doit suivre la date de règlement
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {metric("Prix clean", bondAnalytics.cleanPrice.toFixed(4))}
+              {metric("Prix dirty", bondAnalytics.dirtyPrice.toFixed(4))}
+              {metric("Coupon couru", bondAnalytics.accruedInterest.toFixed(4))}
+              {metric("Rendement", `${(bondAnalytics.yield * 100).toFixed(4)}%`)}
+              {metric("Duration Macaulay", bondAnalytics.macaulayDuration.toFixed(4))}
+              {metric("Duration modifiée", bondAnalytics.modifiedDuration.toFixed(4))}
+              {metric("Convexité", bondAnalytics.convexity.toFixed(3))}
+              {metric("DV01 (/100)", bondAnalytics.dv01.toFixed(5))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Coupon précédent {toISODate(bondAnalytics.previousCoupon)}, prochain {toISODate(bondAnalytics.nextCoupon)} —{" "}
+              {bondAnalytics.cashFlows.length} flux restants
+            </p>
+
+            {curveValuation && curve && (
+              <div className="space-y-2 pt-4 border-t">
+                <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                  Valorisation sur la courbe
+                  <Badge variant="outline" className="ml-2 capitalize">{curve.method.replace(/_/g, " ")}</Badge>
+                </h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {metric("Prix clean courbe", curveValuation.cleanPrice.toFixed(4))}
+                  {metric("Rendement courbe", `${(curveValuation.yield * 100).toFixed(4)}%`)}
+                  {metric("Écart de prix", curveValuation.priceDifference.toFixed(4))}
+                  {metric(
+                    "Rich / Cheap",
+                    `${curveValuation.richCheapBp >= 0 ? "+" : ""}${curveValuation.richCheapBp.toFixed(2)} bp`,
+                    curveValuation.richCheapBp >= 0 ? "text-green-600" : "text-red-500"
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {curveValuation.richCheapBp >= 0 ? "Cheap" : "Rich"} : le rendement de marché est{" "}
+                  {curveValuation.richCheapBp >= 0 ? "au-dessus" : "en dessous"} de celui implicite à la courbe
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
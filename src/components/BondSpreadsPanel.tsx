@@ -0,0 +1,165 @@
+import { useMemo } from "react";
+import { BondYieldData } from "@/lib/api/bonds";
+import { BootstrapResult } from "@/lib/bootstrapping";
+import { bondSpreads } from "@/lib/bondSpreads";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine,
+} from "recharts";
+
+interface BondSpreadsPanelProps {
+  currency: string;
+  yieldsData: BondYieldData[];
+  swapCurve: BootstrapResult | null;
+}
+
+const chartConfig = {
+  iSpreadBp: { label: "I-spread", color: "hsl(var(--primary))" },
+  zSpreadBp: { label: "Z-spread", color: "hsl(142, 76%, 36%)" },
+  aswBp: { label: "ASW par-par", color: "hsl(30, 100%, 50%)" },
+};
+
+function formatBp(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+export function BondSpreadsPanel({ currency, yieldsData, swapCurve }: BondSpreadsPanelProps) {
+  const points = useMemo(
+    () => (swapCurve ? bondSpreads(yieldsData, currency, swapCurve) : []),
+    [yieldsData, currency, swapCurve]
+  );
+
+  if (!swapCurve) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Pas de courbe IRS pour {currency}
+      </div>
+    );
+  }
+
+  if (points.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Pas de données disponibles
+      </div>
+    );
+  }
+
+  const chartData = points.map((p) => ({
+    tenor: p.maturityYears,
+    iSpreadBp: Number(p.iSpreadBp.toFixed(2)),
+    zSpreadBp: Number(p.zSpreadBp.toFixed(2)),
+    aswBp: Number(p.aswBp.toFixed(2)),
+  }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2">
+        <ChartContainer config={chartConfig} className="h-[320px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.5} />
+              <XAxis
+                dataKey="tenor"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                tickLine={{ stroke: "hsl(var(--border))" }}
+                axisLine={{ stroke: "hsl(var(--border))" }}
+                tickFormatter={(value) => `${Number(value).toFixed(0)}Y`}
+                label={{
+                  value: "Maturité (années)",
+                  position: "insideBottom",
+                  offset: -10,
+                  style: { fill: "hsl(var(--muted-foreground))", fontSize: 12 },
+                }}
+              />
+              <YAxis
+                tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                tickLine={{ stroke: "hsl(var(--border))" }}
+                axisLine={{ stroke: "hsl(var(--border))" }}
+                tickFormatter={(value) => `${Number(value).toFixed(0)}`}
+                label={{
+                  value: "Spread (bp)",
+                  angle: -90,
+                  position: "insideLeft",
+                  style: { fill: "hsl(var(--muted-foreground))", fontSize: 12 },
+                }}
+              />
+              <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    formatter={(value, name) => [
+                      `${Number(value).toFixed(2)} bp`,
+                      chartConfig[name as keyof typeof chartConfig]?.label || name,
+                    ]}
+                    labelFormatter={(label) => `Maturité: ${Number(label).toFixed(2)}Y`}
+                  />
+                }
+              />
+              <Legend
+                wrapperStyle={{ paddingTop: 20 }}
+                formatter={(value) => chartConfig[value as keyof typeof chartConfig]?.label || value}
+              />
+              {Object.entries(chartConfig).map(([key, config]) => (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  stroke={config.color}
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartContainer>
+        <p className="mt-2 text-xs text-muted-foreground">
+          Benchmarks pris au pair (coupon = rendement). Spread positif : obligation cheap contre swap.
+        </p>
+      </div>
+
+      <div>
+        <ScrollArea className="h-[320px]">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-card z-10">
+              <tr className="border-b border-border">
+                <th className="py-2 px-2 text-left font-medium text-muted-foreground">Maturité</th>
+                <th className="py-2 px-2 text-right font-medium text-muted-foreground">Rdt (%)</th>
+                <th className="py-2 px-2 text-right font-medium text-muted-foreground">Swap (%)</th>
+                <th className="py-2 px-2 text-right font-medium text-muted-foreground">I</th>
+                <th className="py-2 px-2 text-right font-medium text-muted-foreground">Z</th>
+                <th className="py-2 px-2 text-right font-medium text-muted-foreground">ASW</th>
+              </tr>
+            </thead>
+            <tbody>
+              {points.map((p) => (
+                <tr key={p.maturity} className="border-b border-border/50 hover:bg-muted/50">
+                  <td className="py-1.5 px-2 font-medium">{p.maturity}</td>
+                  <td className="py-1.5 px-2 text-right font-mono">{(p.yield * 100).toFixed(3)}</td>
+                  <td className="py-1.5 px-2 text-right font-mono">{(p.swapRate * 100).toFixed(3)}</td>
+                  <td className="py-1.5 px-2 text-right font-mono">{formatBp(p.iSpreadBp)}</td>
+                  <td className="py-1.5 px-2 text-right font-mono">{formatBp(p.zSpreadBp)}</td>
+                  <td className="py-1.5 px-2 text-right font-mono">{formatBp(p.aswBp)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
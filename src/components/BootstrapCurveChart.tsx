@@ -1,5 +1,5 @@
 import { useMemo, useState } from "react";
-import { BootstrapResult, BootstrapPoint } from "@/lib/bootstrapping";
+import { BootstrapResult, BootstrapPoint, TurnEffect, zeroRateAt } from "@/lib/bootstrapping";
 import {
   ChartContainer,
   ChartTooltip,
@@ -14,6 +14,7 @@ import {
   Scatter,
   ComposedChart,
   Legend,
+  ReferenceLine,
 } from "recharts";
 import { Button } from "@/components/ui/button";
 import { Eye, EyeOff } from "lucide-react";
@@ -23,16 +24,20 @@ interface BootstrapCurveChartProps {
   inputPoints: BootstrapPoint[];
   showInputPoints?: boolean;
   title?: string;
+  shockedResults?: BootstrapResult[]; // scenario curves, overlaid dashed on their base method
 }
 
 const METHOD_COLORS: Record<string, string> = {
   linear: "hsl(var(--primary))",
   cubic_spline: "hsl(142, 76%, 36%)",
   nelson_siegel: "hsl(280, 70%, 50%)",
+  svensson: "hsl(320, 70%, 50%)",
+  smith_wilson: "hsl(100, 60%, 40%)",
   bloomberg: "hsl(210, 100%, 50%)",
   quantlib_log_linear: "hsl(30, 100%, 50%)",
   quantlib_log_cubic: "hsl(350, 80%, 50%)",
   quantlib_linear_forward: "hsl(180, 70%, 40%)",
+  quantlib_flat_forward: "hsl(200, 40%, 55%)",
   quantlib_monotonic_convex: "hsl(60, 70%, 45%)",
 };
 
@@ -40,26 +45,52 @@ const METHOD_NAMES: Record<string, string> = {
   linear: "Linéaire",
   cubic_spline: "Cubic Spline",
   nelson_siegel: "Nelson-Siegel",
+  svensson: "Svensson",
+  smith_wilson: "Smith-Wilson",
   bloomberg: "Bloomberg",
   quantlib_log_linear: "QL Log-Linear",
   quantlib_log_cubic: "QL Log-Cubic",
   quantlib_linear_forward: "QL Linear Fwd",
+  quantlib_flat_forward: "QL Flat Fwd",
   quantlib_monotonic_convex: "QL Monotonic",
 };
 
+// Data key suffix of a shocked curve
+const SHOCKED_SUFFIX = "_shocked";
+const NO_SHOCKED_RESULTS: BootstrapResult[] = [];
+
+function seriesName(key: string): string {
+  if (key.endsWith(SHOCKED_SUFFIX)) {
+    const method = key.slice(0, -SHOCKED_SUFFIX.length);
+    return `${METHOD_NAMES[method] || method} (choqué)`;
+  }
+  return METHOD_NAMES[key] || key;
+}
+
 export function BootstrapCurveChart({ 
   results, 
   inputPoints, 
   showInputPoints: initialShowInputPoints = true,
-  title 
+  title,
+  shockedResults = NO_SHOCKED_RESULTS,
 }: BootstrapCurveChartProps) {
   const [showPoints, setShowPoints] = useState(initialShowInputPoints);
+
+  // Turn-of-period spreads of any curve shown, flagged on the tenor axis
+  const turns = useMemo(() => {
+    const byDate = new Map<number, TurnEffect>();
+    results.forEach((r) => r.turns?.forEach((turn) => byDate.set(turn.date.getTime(), turn)));
+    return Array.from(byDate.values()).filter((turn) => turn.startTenor > 0);
+  }, [results]);
+
   const chartData = useMemo(() => {
     if (results.length === 0) return [];
 
     // Get all unique tenors from all results
     const allTenors = new Set<number>();
     results.forEach((r) => r.curvePoints.forEach((p) => allTenors.add(p.tenor)));
+    shockedResults.forEach((r) => r.curvePoints.forEach((p) => allTenors.add(p.tenor)));
+    turns.forEach((turn) => allTenors.add(turn.startTenor));
     if (showPoints) {
       inputPoints.forEach((p) => allTenors.add(p.tenor));
     }
@@ -79,6 +110,14 @@ export function BootstrapCurveChart({
         }
       });
 
+      // Shocked curves read through zeroRateAt, which carries a zero-rate shift
+      shockedResults.forEach((result) => {
+        const lastTenor = result.curvePoints[result.curvePoints.length - 1]?.tenor ?? 0;
+        if (tenor > 0 && tenor <= lastTenor + 0.01) {
+          point[`${result.method}${SHOCKED_SUFFIX}`] = zeroRateAt(result, tenor) * 100;
+        }
+      });
+
       // Add input points - separate swaps and futures
       if (showPoints) {
         const inputPoint = inputPoints.find(
@@ -96,7 +135,7 @@ export function BootstrapCurveChart({
 
       return point;
     });
-  }, [results, inputPoints, showPoints]);
+  }, [results, shockedResults, inputPoints, showPoints, turns]);
 
   const chartConfig = useMemo(() => {
     const config: Record<string, { label: string; color: string }> = {};
@@ -106,6 +145,12 @@ export function BootstrapCurveChart({
         color: METHOD_COLORS[result.method] || "hsl(var(--primary))",
       };
     });
+    shockedResults.forEach((result) => {
+      config[`${result.method}${SHOCKED_SUFFIX}`] = {
+        label: seriesName(`${result.method}${SHOCKED_SUFFIX}`),
+        color: METHOD_COLORS[result.method] || "hsl(var(--primary))",
+      };
+    });
     config.swapInput = {
       label: "Swaps (Calibration)",
       color: "hsl(142, 76%, 36%)",
@@ -115,7 +160,7 @@ export function BootstrapCurveChart({
       color: "hsl(var(--primary))",
     };
     return config;
-  }, [results]);
+  }, [results, shockedResults]);
 
   if (chartData.length === 0) {
     return (
@@ -149,6 +194,12 @@ export function BootstrapCurveChart({
         </Button>
       </div>
       
+      {turns.length > 0 && (
+        <p className="text-xs text-center text-muted-foreground">
+          <span className="text-[hsl(30,100%,50%)]">- - -</span> Effets de fin de période (turns) : {turns.length}
+        </p>
+      )}
+
       {/* Legend for input points */}
       {showPoints && (
         <div className="flex gap-6 justify-center text-sm">
@@ -205,7 +256,7 @@ export function BootstrapCurveChart({
                       ? 'Swap' 
                       : name === 'futuresInput' 
                         ? 'Futures'
-                        : METHOD_NAMES[name as string] || name;
+                        : seriesName(name as string);
                     return [`${Number(value).toFixed(4)}%`, displayName];
                   }}
                   labelFormatter={(label) => `Tenor: ${label}Y`}
@@ -217,10 +268,26 @@ export function BootstrapCurveChart({
               formatter={(value) => {
                 if (value === 'swapInput') return 'Swaps';
                 if (value === 'futuresInput') return 'Futures';
-                return METHOD_NAMES[value] || value;
+                return seriesName(value);
               }}
             />
 
+            {/* Turn-of-period spreads */}
+            {turns.map((turn) => (
+              <ReferenceLine
+                key={turn.date.getTime()}
+                x={turn.startTenor}
+                stroke="hsl(30, 100%, 50%)"
+                strokeDasharray="4 4"
+                label={{
+                  value: `${(turn.spread * 10000).toFixed(0)}bp`,
+                  position: "insideTopRight",
+                  fontSize: 10,
+                  fill: "hsl(30, 100%, 50%)",
+                }}
+              />
+            ))}
+
             {/* Render lines for each method */}
             {results.map((result) => (
               <Line
@@ -234,6 +301,20 @@ export function BootstrapCurveChart({
               />
             ))}
 
+            {/* Shocked curves, dashed in their base method's colour */}
+            {shockedResults.map((result) => (
+              <Line
+                key={`${result.method}${SHOCKED_SUFFIX}`}
+                type="monotone"
+                dataKey={`${result.method}${SHOCKED_SUFFIX}`}
+                stroke={METHOD_COLORS[result.method] || "hsl(var(--primary))"}
+                strokeWidth={2}
+                strokeDasharray="6 3"
+                dot={false}
+                connectNulls
+              />
+            ))}
+
             {/* Scatter for swap input points (squares) */}
             {showPoints && (
               <Scatter
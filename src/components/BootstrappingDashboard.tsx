@@ -1,15 +1,27 @@
 import { useState, useMemo, useCallback } from "react";
 import { useRateData } from "@/hooks/useRateData";
 import { useIRSData } from "@/hooks/useIRSData";
-import { RATE_INDICES } from "@/lib/rateIndices";
-import { IRS_INDICES } from "@/lib/irsIndices";
+import { RATE_INDICES, RateResponse } from "@/lib/rateIndices";
+import { buildSwapPoints, IRS_INDICES } from "@/lib/irsIndices";
 import { CURRENCY_CONFIGS, CurrencyConfig } from "@/lib/currencyDefaults";
 import { getCacheAge, clearAllCache } from "@/lib/dataCache";
+import { addMonths, futuresContractDates, parseISODate, toISODate, today } from "@/lib/dates";
+import { CALENDARS, CalendarId, calendarLabel, listedHolidaysMissing } from "@/lib/calendars";
+import { ConvexitySettings, getDefaultConvexitySettings } from "@/lib/convexity";
+import { getDefaultSmithWilsonSettings, SmithWilsonSettings } from "@/lib/smithWilson";
+import { getCentralBankSchedule, getDefaultMeetingDates } from "@/lib/policyPath";
+import { buildMultiCurve, ForecastCurveInputs, ForecastCurveResult } from "@/lib/multiCurve";
 import {
   bootstrap,
   BootstrapPoint,
   BootstrapMethod,
   BootstrapResult,
+  DEFAULT_NELSON_SIEGEL_SETTINGS,
+  ExtrapolationSettings,
+  FuturesMode,
+  NelsonSiegelSettings,
+  OutputGrid,
+  TurnSpread,
   maturityToYears,
   priceToRate,
   exportToCSV,
@@ -28,10 +40,27 @@ import {
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { DiscountFactorTable } from "./DiscountFactorTable";
 import { BootstrapCurveChart } from "./BootstrapCurveChart";
 import { BootstrappingDocumentation } from "./BootstrappingDocumentation";
-import { Download, Calculator, TrendingUp, Settings2, RefreshCw, Plus, X, Clock, Layers, BookOpen } from "lucide-react";
+import { BasisSpreadChart } from "./BasisSpreadChart";
+import { CurveDiagnosticsPanel } from "./CurveDiagnosticsPanel";
+import { CurveParameters } from "./CurveParameters";
+import { CurveRiskPanel } from "./CurveRiskPanel";
+import { ScenarioPanel } from "./ScenarioPanel";
+import { PricingCurve, SwapPricerPanel } from "./SwapPricerPanel";
+import { ForwardRatesPanel } from "./ForwardRatesPanel";
+import { OptionsPricerPanel } from "./OptionsPricerPanel";
+import { FxForwardPanel } from "./FxForwardPanel";
+import { CarryRollPanel } from "./CarryRollPanel";
+import { NelsonSiegelSettingsFields } from "./NelsonSiegelSettingsFields";
+import { SmithWilsonSettingsFields } from "./SmithWilsonSettingsFields";
+import { ExtrapolationSettingsFields } from "./ExtrapolationSettingsFields";
+import { OutputGridFields } from "./OutputGridFields";
+import { MeetingDatesField } from "./MeetingDatesField";
+import { TurnSpreadsEditor } from "./TurnSpreadsEditor";
+import { Download, Calculator, TrendingUp, Settings2, RefreshCw, Plus, X, Clock, Layers, BookOpen, CalendarDays, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
 
 const BOOTSTRAP_METHODS: { id: BootstrapMethod; name: string; description: string; category: 'standard' | 'bloomberg' | 'quantlib' }[] = [
@@ -39,12 +68,15 @@ const BOOTSTRAP_METHODS: { id: BootstrapMethod; name: string; description: strin
   { id: "linear", name: "Simple/Linéaire", description: "Interpolation linéaire entre les points", category: 'standard' },
   { id: "cubic_spline", name: "Cubic Spline", description: "Interpolation par splines cubiques naturelles", category: 'standard' },
   { id: "nelson_siegel", name: "Nelson-Siegel", description: "Modèle paramétrique à 4 paramètres (β₀, β₁, β₂, λ)", category: 'standard' },
+  { id: "svensson", name: "Svensson", description: "Nelson-Siegel + seconde bosse (β₃, λ₂) - BCE, Bundesbank", category: 'standard' },
+  { id: "smith_wilson", name: "Smith-Wilson", description: "Fit exact + convergence vers l'UFR (EIOPA)", category: 'standard' },
   // Bloomberg Method
   { id: "bloomberg", name: "Bloomberg", description: "Log-DF interpolation + forward smoothing + monotonicity", category: 'bloomberg' },
   // QuantLib Methods
   { id: "quantlib_log_linear", name: "QuantLib Log-Linear", description: "PiecewiseLogLinearDiscount - Interpolation linéaire sur log(DF)", category: 'quantlib' },
   { id: "quantlib_log_cubic", name: "QuantLib Log-Cubic", description: "PiecewiseLogCubicDiscount - Spline cubique sur log(DF)", category: 'quantlib' },
   { id: "quantlib_linear_forward", name: "QuantLib Linear Forward", description: "PiecewiseLinearForward - Interpolation linéaire sur forwards", category: 'quantlib' },
+  { id: "quantlib_flat_forward", name: "QuantLib Flat Forward", description: "PiecewiseFlatForward - Forwards constants entre piliers", category: 'quantlib' },
   { id: "quantlib_monotonic_convex", name: "QuantLib Monotonic Convex", description: "Hagan-West monotonic convex - Préserve la monotonie des forwards", category: 'quantlib' },
 ];
 
@@ -55,6 +87,22 @@ interface CurveConfig {
   irsCurrency: string;
   useFutures: boolean;
   useIRS: boolean;
+  convexity: ConvexitySettings;
+  futuresMode: FuturesMode;
+  meetingDates: Date[]; // central-bank meetings for the step short end
+  turns: TurnSpread[];   // turn-of-year/quarter premiums on the forwards
+  smithWilson: SmithWilsonSettings;
+  extrapolation?: ExtrapolationSettings; // outside the pillars, method's own if unset
+  // Projection curves bootstrapped against this (OIS) discount curve
+  forecastCurves: ForecastCurveConfig[];
+}
+
+interface ForecastCurveConfig {
+  id: string;
+  futuresIndex: string;
+  irsCurrency: string;
+  useFutures: boolean;
+  useIRS: boolean;
 }
 
 function generateCurveId(): string {
@@ -69,9 +117,58 @@ function getDefaultCurveConfig(currencyConfig: CurrencyConfig): CurveConfig {
     irsCurrency: currencyConfig.defaultIRSCurrency,
     useFutures: true,
     useIRS: true,
+    convexity: getDefaultConvexitySettings(currencyConfig.currency),
+    futuresMode: "points",
+    meetingDates: getDefaultMeetingDates(currencyConfig.currency),
+    turns: [],
+    smithWilson: getDefaultSmithWilsonSettings(currencyConfig.currency),
+    forecastCurves: [],
   };
 }
 
+function getDefaultForecastCurveConfig(curve: CurveConfig): ForecastCurveConfig {
+  // Prefer a term-rate (IBOR) futures index of the same currency when there is one
+  const termIndex = RATE_INDICES.find(r => r.currency === curve.currency && r.id.includes("ibor"));
+  return {
+    id: generateCurveId(),
+    futuresIndex: termIndex?.id ?? curve.futuresIndex,
+    irsCurrency: curve.irsCurrency,
+    useFutures: !!termIndex,
+    useIRS: true,
+  };
+}
+
+// Futures points (contract dates, implied rates) from a futures quote response
+function buildFuturesPoints(
+  futuresData: RateResponse | undefined,
+  futuresIndex: string,
+  valuationDate: Date
+): BootstrapPoint[] {
+  const points: BootstrapPoint[] = [];
+  if (!futuresData?.data) return points;
+
+  const contractMonths = RATE_INDICES.find(r => r.id === futuresIndex)?.contractMonths ?? 3;
+  futuresData.data.forEach((item) => {
+    const latestPrice = parseFloat(item.latest.replace(/[^0-9.-]/g, ""));
+    if (!isNaN(latestPrice)) {
+      const tenor = maturityToYears(item.maturity, valuationDate, contractMonths);
+      const rate = priceToRate(latestPrice);
+      const contractDates = futuresContractDates(item.maturity, contractMonths);
+      if (tenor > 0 && rate > 0 && rate < 0.5) {
+        points.push({ 
+          tenor, 
+          rate, 
+          source: "futures",
+          priority: 2,
+          startDate: contractDates?.start,
+          endDate: contractDates?.end,
+        });
+      }
+    }
+  });
+  return points;
+}
+
 // Get available futures indices for a currency
 function getFuturesIndicesForCurrency(currency: string) {
   return RATE_INDICES.filter(r => r.currency === currency);
@@ -92,13 +189,22 @@ export function BootstrappingDashboard() {
 
   // Method selection (shared across curves)
   const [selectedMethods, setSelectedMethods] = useState<BootstrapMethod[]>(["linear", "cubic_spline"]);
+  const [nelsonSiegelSettings, setNelsonSiegelSettings] = useState<NelsonSiegelSettings>(DEFAULT_NELSON_SIEGEL_SETTINGS);
+
+  // Valuation date (shared across curves) - curves are reproducible for a given as-of date
+  const [valuationDateInput, setValuationDateInput] = useState(toISODate(today()));
+  const valuationDate = useMemo(() => parseISODate(valuationDateInput) ?? today(), [valuationDateInput]);
+  const [outputGrid, setOutputGrid] = useState<OutputGrid>({ type: "method" });
+
+  // Extra settlement calendars joined to each currency's own calendar
+  const [extraCalendars, setExtraCalendars] = useState<CalendarId[]>([]);
 
   // Active curve for single-curve view
   const activeCurve = curves[0];
 
   // Fetch data for all unique indices used
-  const uniqueFuturesIndices = [...new Set(curves.map(c => c.futuresIndex))];
-  const uniqueIRSCurrencies = [...new Set(curves.map(c => c.irsCurrency))];
+  const uniqueFuturesIndices = [...new Set(curves.flatMap(c => [c.futuresIndex, ...c.forecastCurves.map(f => f.futuresIndex)]))];
+  const uniqueIRSCurrencies = [...new Set(curves.flatMap(c => [c.irsCurrency, ...c.forecastCurves.map(f => f.irsCurrency)]))];
 
   // Map queries by index for easy lookup
   const futuresQueriesMap = new Map<string, ReturnType<typeof useRateData>>();
@@ -110,6 +216,9 @@ export function BootstrappingDashboard() {
   const futuresQuery2 = useRateData(uniqueFuturesIndices[2] || "");
   const futuresQuery3 = useRateData(uniqueFuturesIndices[3] || "");
   const futuresQuery4 = useRateData(uniqueFuturesIndices[4] || "");
+  const futuresQuery5 = useRateData(uniqueFuturesIndices[5] || "");
+  const futuresQuery6 = useRateData(uniqueFuturesIndices[6] || "");
+  const futuresQuery7 = useRateData(uniqueFuturesIndices[7] || "");
   
   const irsQuery0 = useIRSData(uniqueIRSCurrencies[0] || "");
   const irsQuery1 = useIRSData(uniqueIRSCurrencies[1] || "");
@@ -123,6 +232,9 @@ export function BootstrappingDashboard() {
   if (uniqueFuturesIndices[2]) futuresQueriesMap.set(uniqueFuturesIndices[2], futuresQuery2);
   if (uniqueFuturesIndices[3]) futuresQueriesMap.set(uniqueFuturesIndices[3], futuresQuery3);
   if (uniqueFuturesIndices[4]) futuresQueriesMap.set(uniqueFuturesIndices[4], futuresQuery4);
+  if (uniqueFuturesIndices[5]) futuresQueriesMap.set(uniqueFuturesIndices[5], futuresQuery5);
+  if (uniqueFuturesIndices[6]) futuresQueriesMap.set(uniqueFuturesIndices[6], futuresQuery6);
+  if (uniqueFuturesIndices[7]) futuresQueriesMap.set(uniqueFuturesIndices[7], futuresQuery7);
   
   if (uniqueIRSCurrencies[0]) irsQueriesMap.set(uniqueIRSCurrencies[0], irsQuery0);
   if (uniqueIRSCurrencies[1]) irsQueriesMap.set(uniqueIRSCurrencies[1], irsQuery1);
@@ -143,49 +255,72 @@ export function BootstrappingDashboard() {
       const irsData = irsQuery.data;
       const isLoading = futuresQuery.isLoading || irsQuery.isLoading;
 
-      const swapPoints: BootstrapPoint[] = [];
-      const futuresPoints: BootstrapPoint[] = [];
-
-      // Add futures data
-      if (curve.useFutures && futuresData?.data) {
-        futuresData.data.forEach((item) => {
-          const latestPrice = parseFloat(item.latest.replace(/[^0-9.-]/g, ""));
-          if (!isNaN(latestPrice)) {
-            const tenor = maturityToYears(item.maturity);
-            const rate = priceToRate(latestPrice);
-            if (tenor > 0 && rate > 0 && rate < 0.5) {
-              futuresPoints.push({ 
-                tenor, 
-                rate, 
-                source: "futures",
-                priority: 2,
-              });
-            }
-          }
-        });
-      }
+      const swapPoints = curve.useIRS ? buildSwapPoints(irsData) : [];
+      const futuresPoints = curve.useFutures
+        ? buildFuturesPoints(futuresData, curve.futuresIndex, valuationDate)
+        : [];
 
-      // Add IRS data
-      if (curve.useIRS && irsData?.data) {
-        irsData.data.forEach((item) => {
-          if (item.rateValue > 0 && item.rateValue < 50) {
-            swapPoints.push({
-              tenor: item.tenor,
-              rate: item.rateValue / 100,
-              source: "swap",
-              priority: 1,
-            });
-          }
-        });
-      }
+      const options = {
+        valuationDate,
+        calendars: Array.from(new Set([...getBasisConvention(curve.currency).calendars, ...extraCalendars])),
+        convexity: curve.convexity,
+        futuresMode: curve.futuresMode,
+        meetingDates: curve.meetingDates,
+        turns: curve.turns,
+        smithWilson: curve.smithWilson,
+        nelsonSiegel: nelsonSiegelSettings,
+        extrapolation: curve.extrapolation,
+        outputGrid,
+      };
 
-      const allInputPoints = [...swapPoints, ...futuresPoints].sort((a, b) => a.tenor - b.tenor);
+      // Projection curves (dual-curve): inputs of each forecast curve
+      const forecastInputs: ForecastCurveInputs[] = curve.forecastCurves.map((fc) => {
+        const index = RATE_INDICES.find(r => r.id === fc.futuresIndex);
+        const irsIndex = IRS_INDICES.find(i => i.id === fc.irsCurrency);
+        return {
+          id: fc.id,
+          label: fc.useFutures && index ? index.name : irsIndex?.name ?? fc.irsCurrency.toUpperCase(),
+          indexTenorMonths: fc.useFutures && index
+            ? index.contractMonths ?? 3
+            : Math.round(12 / getBasisConvention(curve.currency).floatFrequency),
+          swapPoints: fc.useIRS ? buildSwapPoints(getIRSQuery(fc.irsCurrency).data) : [],
+          futuresPoints: fc.useFutures
+            ? buildFuturesPoints(getFuturesQuery(fc.futuresIndex).data, fc.futuresIndex, valuationDate)
+            : [],
+        };
+      });
 
-      // Bootstrap
-      const results: BootstrapResult[] = 
-        swapPoints.length === 0 && futuresPoints.length === 0 
-          ? [] 
-          : selectedMethods.map((method) => bootstrap(swapPoints, futuresPoints, method, curve.currency));
+      // Bootstrap: the curve itself, then its projection curves discounted on it
+      const hasData = swapPoints.length > 0 || futuresPoints.length > 0;
+      const multiCurves = hasData && forecastInputs.length > 0
+        ? selectedMethods.map((method) => buildMultiCurve(
+            { swapPoints, futuresPoints },
+            forecastInputs,
+            method,
+            curve.currency,
+            options
+          ))
+        : [];
+
+      const results: BootstrapResult[] = !hasData
+        ? []
+        : multiCurves.length > 0
+          ? multiCurves.map((mc) => mc.discount)
+          : selectedMethods.map((method) => bootstrap(swapPoints, futuresPoints, method, curve.currency, options));
+
+      // Forecast results grouped by projection curve (one result per method)
+      const forecasts = forecastInputs.map((fi) => ({
+        id: fi.id,
+        label: fi.label,
+        indexTenorMonths: fi.indexTenorMonths,
+        curves: multiCurves
+          .map((mc) => mc.forecasts.find((f) => f.id === fi.id))
+          .filter((f): f is ForecastCurveResult => !!f),
+      }));
+
+      // Dated inputs (with their accrual fractions) once bootstrapped
+      const allInputPoints = results[0]?.inputPoints
+        ?? [...swapPoints, ...futuresPoints].sort((a, b) => a.tenor - b.tenor);
 
       return {
         curve,
@@ -193,11 +328,19 @@ export function BootstrappingDashboard() {
         futuresPoints,
         allInputPoints,
         results,
+        forecasts,
+        options,
         isLoading,
         basisConvention: getBasisConvention(curve.currency),
       };
     });
-  }, [curves, futuresQueriesMap, irsQueriesMap, selectedMethods]);
+  }, [curves, futuresQueriesMap, irsQueriesMap, selectedMethods, valuationDate, extraCalendars, nelsonSiegelSettings, outputGrid]);
+
+  const toggleCalendar = (id: CalendarId) => {
+    setExtraCalendars((prev) =>
+      prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]
+    );
+  };
 
   const addCurve = () => {
     // Find a currency not yet used
@@ -221,6 +364,24 @@ export function BootstrappingDashboard() {
     }
   };
 
+  const addForecastCurve = (curve: CurveConfig) => {
+    updateCurve(curve.id, {
+      forecastCurves: [...curve.forecastCurves, getDefaultForecastCurveConfig(curve)],
+    });
+  };
+
+  const updateForecastCurve = (curve: CurveConfig, forecastId: string, updates: Partial<ForecastCurveConfig>) => {
+    updateCurve(curve.id, {
+      forecastCurves: curve.forecastCurves.map(f => (f.id === forecastId ? { ...f, ...updates } : f)),
+    });
+  };
+
+  const removeForecastCurve = (curve: CurveConfig, forecastId: string) => {
+    updateCurve(curve.id, {
+      forecastCurves: curve.forecastCurves.filter(f => f.id !== forecastId),
+    });
+  };
+
   const updateCurve = (id: string, updates: Partial<CurveConfig>) => {
     setCurves(curves.map(c => {
       if (c.id !== id) return c;
@@ -234,6 +395,10 @@ export function BootstrappingDashboard() {
             currency: config.currency,
             futuresIndex: config.defaultFuturesIndex,
             irsCurrency: config.defaultIRSCurrency,
+            convexity: getDefaultConvexitySettings(config.currency),
+            meetingDates: getDefaultMeetingDates(config.currency),
+            smithWilson: getDefaultSmithWilsonSettings(config.currency),
+            forecastCurves: [],
           };
         }
       }
@@ -256,7 +421,7 @@ export function BootstrappingDashboard() {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `discount_factors_${result.method}_${result.currency}.csv`;
+    a.download = `discount_factors_${result.method}_${result.currency}_${toISODate(result.valuationDate)}.csv`;
     a.click();
     URL.revokeObjectURL(url);
     toast.success("Discount factors exportés en CSV");
@@ -273,6 +438,39 @@ export function BootstrappingDashboard() {
   const isLoading = curveResults.some(r => r.isLoading);
   const activeResult = curveResults[0];
 
+  // Calendars whose listed holidays stop before the end of the active curve
+  const missingHolidayCalendars = useMemo(() => {
+    const result = activeResult?.results[0];
+    if (!result) return [];
+    const lastTenor = result.curvePoints[result.curvePoints.length - 1]?.tenor ?? 0;
+    const curveEnd = addMonths(result.valuationDate, Math.ceil(lastTenor * 12));
+    return listedHolidaysMissing(result.basisConvention.calendars, curveEnd);
+  }, [activeResult]);
+
+  // Curves offered to the swap pricer: each discount curve, then each projection curve discounted on it
+  const pricingCurves = useMemo<PricingCurve[]>(() => {
+    return curveResults.flatMap((cr) =>
+      cr.results.flatMap((result, methodIdx) => {
+        const name = `${BOOTSTRAP_METHODS.find((m) => m.id === result.method)?.name ?? result.method} ${result.currency}`;
+        return [
+          { id: `${cr.curve.id}-${result.method}`, label: name, discount: result },
+          ...cr.forecasts.flatMap((f) => {
+            const forecast = f.curves[methodIdx]?.result;
+            return forecast
+              ? [{
+                  id: `${cr.curve.id}-${result.method}-${f.id}`,
+                  label: `${name} — ${f.label}`,
+                  discount: result,
+                  forecast,
+                  indexTenorMonths: f.indexTenorMonths,
+                }]
+              : [];
+          }),
+        ];
+      })
+    );
+  }, [curveResults]);
+
   // Combined results for comparison chart
   const allResultsForComparison = useMemo(() => {
     if (!comparisonMode) return activeResult?.results || [];
@@ -314,6 +512,39 @@ export function BootstrappingDashboard() {
           </div>
         </CardHeader>
         <CardContent>
+          {/* Valuation Date */}
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            <Label htmlFor="valuation-date" className="flex items-center gap-2 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+              <CalendarDays className="w-4 h-4" />
+              Date de valorisation
+            </Label>
+            <Input
+              id="valuation-date"
+              type="date"
+              value={valuationDateInput}
+              onChange={(e) => setValuationDateInput(e.target.value)}
+              className="h-8 w-44 text-sm"
+            />
+            <span className="text-sm text-muted-foreground ml-4">Calendriers joints:</span>
+            {(Object.keys(CALENDARS) as CalendarId[]).map((id) => (
+              <Button
+                key={id}
+                variant={extraCalendars.includes(id) ? "default" : "outline"}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                title={CALENDARS[id].name}
+                onClick={() => toggleCalendar(id)}
+              >
+                {id}
+              </Button>
+            ))}
+          </div>
+
+          {/* Output grid of the discount factors */}
+          <div className="mb-6">
+            <OutputGridFields grid={outputGrid} onChange={setOutputGrid} />
+          </div>
+
           {/* Currency/Curve Selection */}
           <div className="space-y-4 mb-6">
             <div className="flex items-center justify-between">
@@ -414,6 +645,98 @@ export function BootstrappingDashboard() {
                               {futuresCacheAge}
                             </span>
                           )}
+
+                          {/* Futures strip chaining */}
+                          <div className="flex items-center space-x-2 pt-1">
+                            <Checkbox
+                              id={`strip-${curve.id}`}
+                              checked={curve.futuresMode === "strip"}
+                              onCheckedChange={(checked) =>
+                                updateCurve(curve.id, { futuresMode: checked === true ? "strip" : "points" })
+                              }
+                            />
+                            <Label htmlFor={`strip-${curve.id}`} className="text-xs text-muted-foreground">
+                              Strip chaîné (DF composés)
+                            </Label>
+                          </div>
+
+                          {/* Step forwards between central-bank meetings */}
+                          {getCentralBankSchedule(curve.currency) && (
+                            <div className="flex items-center space-x-2 pt-1">
+                              <Checkbox
+                                id={`meetings-mode-${curve.id}`}
+                                checked={curve.futuresMode === "meetings"}
+                                onCheckedChange={(checked) =>
+                                  updateCurve(curve.id, { futuresMode: checked === true ? "meetings" : "points" })
+                                }
+                              />
+                              <Label htmlFor={`meetings-mode-${curve.id}`} className="text-xs text-muted-foreground">
+                                Paliers réunions {getCentralBankSchedule(curve.currency)?.bank}
+                              </Label>
+                            </div>
+                          )}
+                          {curve.futuresMode === "meetings" && (
+                            <MeetingDatesField
+                              key={curve.currency}
+                              id={curve.id}
+                              label={`Réunions ${getCentralBankSchedule(curve.currency)?.bank ?? ""}`}
+                              dates={curve.meetingDates}
+                              defaultDates={getDefaultMeetingDates(curve.currency)}
+                              onChange={(meetingDates) => updateCurve(curve.id, { meetingDates })}
+                            />
+                          )}
+
+                          {/* Convexity adjustment (Hull-White) */}
+                          <div className="flex items-center space-x-2 pt-1">
+                            <Checkbox
+                              id={`convexity-${curve.id}`}
+                              checked={curve.convexity.enabled}
+                              onCheckedChange={(checked) =>
+                                updateCurve(curve.id, { convexity: { ...curve.convexity, enabled: checked === true } })
+                              }
+                            />
+                            <Label htmlFor={`convexity-${curve.id}`} className="text-xs text-muted-foreground">
+                              Convexité Hull-White
+                            </Label>
+                          </div>
+                          {curve.convexity.enabled && (
+                            <div className="grid grid-cols-2 gap-2">
+                              <div className="space-y-1">
+                                <Label htmlFor={`hw-a-${curve.id}`} className="text-xs text-muted-foreground">Retour à la moyenne a</Label>
+                                <Input
+                                  id={`hw-a-${curve.id}`}
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={curve.convexity.meanReversion}
+                                  onChange={(e) => {
+                                    const value = parseFloat(e.target.value);
+                                    if (!isNaN(value) && value >= 0) {
+                                      updateCurve(curve.id, { convexity: { ...curve.convexity, meanReversion: value } });
+                                    }
+                                  }}
+                                  className="h-7 text-xs"
+                                />
+                              </div>
+                              <div className="space-y-1">
+                                <Label htmlFor={`hw-sigma-${curve.id}`} className="text-xs text-muted-foreground">Volatilité σ (bp)</Label>
+                                <Input
+                                  id={`hw-sigma-${curve.id}`}
+                                  type="number"
+                                  step="5"
+                                  min="0"
+                                  value={Math.round(curve.convexity.volatility * 10000 * 100) / 100}
+                                  onChange={(e) => {
+                                    const value = parseFloat(e.target.value);
+                                    if (!isNaN(value) && value >= 0) {
+                                      updateCurve(curve.id, { convexity: { ...curve.convexity, volatility: value / 10000 } });
+                                    }
+                                  }}
+                                  className="h-7 text-xs"
+                                />
+                              </div>
+                            </div>
+                          )}
                         </div>
 
                         {/* IRS Currency Selector */}
@@ -452,6 +775,112 @@ export function BootstrappingDashboard() {
                         </div>
                       </div>
 
+                      {/* Turn-of-period spreads */}
+                      <div className="pt-2 border-t">
+                        <TurnSpreadsEditor
+                          id={curve.id}
+                          currency={curve.currency}
+                          valuationDate={valuationDate}
+                          turns={curve.turns}
+                          onChange={(turns) => updateCurve(curve.id, { turns })}
+                        />
+                      </div>
+
+                      {/* Extrapolation beyond the last pillar */}
+                      <div className="space-y-2 pt-2 border-t">
+                        <ExtrapolationSettingsFields
+                          id={curve.id}
+                          settings={curve.extrapolation}
+                          onChange={(extrapolation) => updateCurve(curve.id, { extrapolation })}
+                        />
+                      </div>
+
+                      {/* Smith-Wilson UFR (method or extrapolation) */}
+                      {(selectedMethods.includes("smith_wilson") || curve.extrapolation?.method === "smith_wilson") && (
+                        <div className="pt-2 border-t">
+                          <SmithWilsonSettingsFields
+                            id={curve.id}
+                            settings={curve.smithWilson}
+                            onChange={(smithWilson) => updateCurve(curve.id, { smithWilson })}
+                          />
+                        </div>
+                      )}
+
+                      {/* Projection curves (dual-curve) */}
+                      <div className="space-y-2 pt-2 border-t">
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs font-medium text-muted-foreground">
+                            {curve.forecastCurves.length > 0 ? "Courbe ci-dessus = actualisation (OIS)" : "Courbes de projection"}
+                          </span>
+                          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => addForecastCurve(curve)}>
+                            <Plus className="w-3 h-3 mr-1" />
+                            Projection
+                          </Button>
+                        </div>
+                        {curve.forecastCurves.map((fc) => (
+                          <div key={fc.id} className="p-2 border rounded-md space-y-2 relative">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="absolute top-1 right-1 h-5 w-5"
+                              onClick={() => removeForecastCurve(curve, fc.id)}
+                            >
+                              <X className="w-3 h-3" />
+                            </Button>
+                            <div className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`fc-futures-${fc.id}`}
+                                checked={fc.useFutures}
+                                onCheckedChange={(checked) =>
+                                  updateForecastCurve(curve, fc.id, { useFutures: checked === true })
+                                }
+                              />
+                              <Label htmlFor={`fc-futures-${fc.id}`} className="text-xs text-muted-foreground">Futures</Label>
+                            </div>
+                            <Select
+                              value={fc.futuresIndex}
+                              onValueChange={(value) => updateForecastCurve(curve, fc.id, { futuresIndex: value })}
+                            >
+                              <SelectTrigger className="h-7 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {RATE_INDICES.map((idx) => (
+                                  <SelectItem key={idx.id} value={idx.id}>
+                                    {idx.name} ({idx.currency})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <div className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`fc-irs-${fc.id}`}
+                                checked={fc.useIRS}
+                                onCheckedChange={(checked) =>
+                                  updateForecastCurve(curve, fc.id, { useIRS: checked === true })
+                                }
+                              />
+                              <Label htmlFor={`fc-irs-${fc.id}`} className="text-xs text-muted-foreground">IRS Swaps</Label>
+                            </div>
+                            <Select
+                              value={fc.irsCurrency}
+                              onValueChange={(value) => updateForecastCurve(curve, fc.id, { irsCurrency: value })}
+                            >
+                              <SelectTrigger className="h-7 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {IRS_INDICES.map((idx) => (
+                                  <SelectItem key={idx.id} value={idx.id}>
+                                    {idx.name} ({idx.currency})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                      </div>
+
                       {/* Summary */}
                       <div className="flex flex-wrap gap-2 pt-2">
                         <Badge variant="default" className="text-xs">
@@ -495,6 +924,13 @@ export function BootstrappingDashboard() {
                     </div>
                   </div>
                 ))}
+                {selectedMethods.includes("nelson_siegel") && (
+                  <NelsonSiegelSettingsFields
+                    id="dashboard"
+                    settings={nelsonSiegelSettings}
+                    onChange={setNelsonSiegelSettings}
+                  />
+                )}
               </div>
 
               {/* Bloomberg Method */}
@@ -548,10 +984,38 @@ export function BootstrappingDashboard() {
             <div className="flex flex-wrap gap-4 mt-6 pt-6 border-t text-sm">
               <div className="flex items-center gap-2">
                 <span className="text-muted-foreground">Convention ({activeCurve.currency}):</span>
-                <Badge variant="outline">{activeResult.basisConvention.dayCount}</Badge>
                 <Badge variant="outline">{activeResult.basisConvention.compounding}</Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">Calendrier:</span>
+                <Badge variant="outline">
+                  {calendarLabel(activeResult.results[0]?.basisConvention.calendars ?? activeResult.basisConvention.calendars)}
+                </Badge>
+              </div>
+              {missingHolidayCalendars.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 text-orange-500" />
+                  <span className="text-muted-foreground">
+                    {missingHolidayCalendars
+                      .map((id) => `${id} : jours fériés non calculables connus jusqu'en ${CALENDARS[id].listedUntil}`)
+                      .join(", ")}
+                  </span>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">Fixe:</span>
+                <Badge variant="outline">{activeResult.basisConvention.fixedDayCount}</Badge>
                 <Badge variant="outline">{activeResult.basisConvention.paymentFrequency}x/an</Badge>
               </div>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">Variable:</span>
+                <Badge variant="outline">{activeResult.basisConvention.floatDayCount}</Badge>
+                <Badge variant="outline">{activeResult.basisConvention.floatFrequency}x/an</Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">Monétaire:</span>
+                <Badge variant="outline">{activeResult.basisConvention.moneyMarketDayCount}</Badge>
+              </div>
             </div>
           )}
         </CardContent>
@@ -580,6 +1044,13 @@ export function BootstrappingDashboard() {
             <TabsTrigger value="chart">Courbes</TabsTrigger>
             {comparisonMode && <TabsTrigger value="comparison">Comparaison</TabsTrigger>}
             <TabsTrigger value="discount_factors">Discount Factors</TabsTrigger>
+            <TabsTrigger value="risk">Risque</TabsTrigger>
+            <TabsTrigger value="scenarios">Scénarios</TabsTrigger>
+            <TabsTrigger value="swap_pricer">Pricer Swap</TabsTrigger>
+            <TabsTrigger value="forwards">Forwards</TabsTrigger>
+            <TabsTrigger value="carry_roll">Carry / Roll</TabsTrigger>
+            <TabsTrigger value="options">Options</TabsTrigger>
+            <TabsTrigger value="fx_forwards">Forwards FX</TabsTrigger>
             <TabsTrigger value="input_data">Données d'entrée</TabsTrigger>
             <TabsTrigger value="documentation">Documentation</TabsTrigger>
           </TabsList>
@@ -598,6 +1069,41 @@ export function BootstrappingDashboard() {
                 />
               </CardContent>
             </Card>
+
+            {/* Dual-curve: projection curves and their basis to the OIS curve */}
+            {activeResult?.forecasts.map((forecast) => (
+              <div key={forecast.id} className="space-y-4 mt-4">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>
+                      Courbe de Projection {forecast.label} ({activeCurve.currency})
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <BootstrapCurveChart
+                      results={forecast.curves.map((f) => f.result)}
+                      inputPoints={forecast.curves[0]?.result.inputPoints || []}
+                    />
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>
+                      Spread de Base {forecast.label} − OIS (forwards {forecast.indexTenorMonths}M)
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <BasisSpreadChart
+                      series={forecast.curves.map((f) => ({
+                        key: f.result.method,
+                        label: BOOTSTRAP_METHODS.find((m) => m.id === f.result.method)?.name || f.result.method,
+                        points: f.basisSpread,
+                      }))}
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+            ))}
           </TabsContent>
 
           {comparisonMode && (
@@ -626,25 +1132,24 @@ export function BootstrappingDashboard() {
           )}
 
           <TabsContent value="discount_factors" className="space-y-4">
-            {(comparisonMode ? curveResults.flatMap(cr => cr.results) : activeResult?.results || []).map((result, idx) => (
+            {(comparisonMode ? curveResults : activeResult ? [activeResult] : [])
+              .flatMap((cr) => [
+                ...cr.results.map((result) => ({ result, label: cr.forecasts.length > 0 ? "OIS" : undefined })),
+                ...cr.forecasts.flatMap((f) => f.curves.map((c) => ({ result: c.result, label: f.label }))),
+              ])
+              .map(({ result, label }, idx) => (
               <Card key={`${result.method}-${result.currency}-${idx}`}>
                 <CardHeader className="flex flex-row items-center justify-between">
                   <div>
                     <CardTitle className="text-base">
                       {BOOTSTRAP_METHODS.find((m) => m.id === result.method)?.name}
                       <Badge variant="outline" className="ml-2">{result.currency}</Badge>
+                      {label && <Badge variant="secondary" className="ml-2">{label}</Badge>}
                       <span className="ml-2 text-sm font-normal text-muted-foreground">
-                        ({result.basisConvention.dayCount}, {result.basisConvention.compounding})
+                        ({result.basisConvention.fixedDayCount}, {result.basisConvention.compounding})
                       </span>
                     </CardTitle>
-                    {result.parameters && (
-                      <p className="text-xs text-muted-foreground mt-1">
-                        β₀={result.parameters.beta0.toFixed(4)}, 
-                        β₁={result.parameters.beta1.toFixed(4)}, 
-                        β₂={result.parameters.beta2.toFixed(4)}, 
-                        λ={result.parameters.lambda.toFixed(4)}
-                      </p>
-                    )}
+                    <CurveParameters result={result} />
                   </div>
                   <Button
                     variant="outline"
@@ -656,12 +1161,132 @@ export function BootstrappingDashboard() {
                   </Button>
                 </CardHeader>
                 <CardContent>
-                  <DiscountFactorTable discountFactors={result.discountFactors} />
+                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <div className="lg:col-span-2">
+                      <DiscountFactorTable discountFactors={result.discountFactors} />
+                    </div>
+                    <CurveDiagnosticsPanel diagnostics={result.diagnostics} />
+                  </div>
                 </CardContent>
               </Card>
             ))}
           </TabsContent>
 
+          <TabsContent value="risk" className="space-y-4">
+            {(comparisonMode ? curveResults : activeResult ? [activeResult] : []).flatMap((cr) =>
+              cr.results.map((result) => (
+                <Card key={`risk-${result.method}-${result.currency}`}>
+                  <CardHeader>
+                    <CardTitle className="text-base">
+                      {BOOTSTRAP_METHODS.find((m) => m.id === result.method)?.name}
+                      <Badge variant="outline" className="ml-2">{result.currency}</Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <CurveRiskPanel
+                      result={result}
+                      rebuild={(inputs) => bootstrap(
+                        inputs.filter((p) => p.source === "swap"),
+                        inputs.filter((p) => p.source === "futures"),
+                        result.method,
+                        result.currency,
+                        cr.options
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="scenarios" className="space-y-4">
+            {(comparisonMode ? curveResults : activeResult ? [activeResult] : []).map((cr) => (
+              <Card key={`scenarios-${cr.curve.id}`}>
+                <CardHeader>
+                  <CardTitle className="text-base">
+                    Scénarios de choc
+                    <Badge variant="outline" className="ml-2">{cr.curve.currency}</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ScenarioPanel
+                    curves={cr.results.map((result) => ({
+                      result,
+                      label: BOOTSTRAP_METHODS.find((m) => m.id === result.method)?.name ?? result.method,
+                    }))}
+                    inputPoints={cr.allInputPoints}
+                    rebuild={(result, inputs) => bootstrap(
+                      inputs.filter((p) => p.source === "swap"),
+                      inputs.filter((p) => p.source === "futures"),
+                      result.method,
+                      result.currency,
+                      cr.options
+                    )}
+                  />
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="swap_pricer">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Pricer de Swap Vanille</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <SwapPricerPanel curves={pricingCurves} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="forwards">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Swaps Forward et FRA</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ForwardRatesPanel curves={pricingCurves} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="carry_roll">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Carry et Roll-Down</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CarryRollPanel curves={pricingCurves} positionLabel="receveur swap" />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="options">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Caps, Floors et Swaptions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <OptionsPricerPanel curves={pricingCurves} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="fx_forwards">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Forwards FX (Parité des Taux Couverte)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FxForwardPanel
+                  curves={pricingCurves
+                    .filter((c) => !c.forecast)
+                    .map((c) => ({ id: c.id, label: c.label, result: c.discount }))}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="input_data">
             {(comparisonMode ? curveResults : [activeResult]).filter(Boolean).map((cr, idx) => (
               <Card key={cr!.curve.id} className={idx > 0 ? "mt-4" : ""}>
@@ -684,6 +1309,9 @@ export function BootstrappingDashboard() {
                         <tr className="border-b border-border">
                           <th className="py-3 px-4 text-left font-medium text-muted-foreground">Tenor (Y)</th>
                           <th className="py-3 px-4 text-right font-medium text-muted-foreground">Taux (%)</th>
+                          <th className="py-3 px-4 text-left font-medium text-muted-foreground">Période</th>
+                          <th className="py-3 px-4 text-right font-medium text-muted-foreground">Fractions d'accrual</th>
+                          <th className="py-3 px-4 text-right font-medium text-muted-foreground">Convexité (bp)</th>
                           <th className="py-3 px-4 text-center font-medium text-muted-foreground">Source</th>
                           <th className="py-3 px-4 text-center font-medium text-muted-foreground">Priorité</th>
                         </tr>
@@ -693,6 +1321,29 @@ export function BootstrappingDashboard() {
                           <tr key={pidx} className="border-b border-border/50 hover:bg-muted/50">
                             <td className="py-2 px-4 font-mono">{point.tenor.toFixed(2)}</td>
                             <td className="py-2 px-4 text-right font-mono">{(point.rate * 100).toFixed(4)}%</td>
+                            <td className="py-2 px-4 font-mono text-xs text-muted-foreground">
+                              {point.startDate && point.endDate
+                                ? `${toISODate(point.startDate)} → ${toISODate(point.endDate)}`
+                                : "—"}
+                            </td>
+                            <td
+                              className="py-2 px-4 text-right font-mono text-xs"
+                              title={point.accruals?.map((a) => a.toFixed(6)).join(" | ")}
+                            >
+                              {point.accruals && point.accruals.length > 0 ? (
+                                <>
+                                  <span className="text-muted-foreground mr-2">{point.dayCount}</span>
+                                  {point.accruals.length === 1
+                                    ? point.accruals[0].toFixed(6)
+                                    : `${point.accruals.length} × (Σ ${point.accruals.reduce((sum, a) => sum + a, 0).toFixed(6)})`}
+                                </>
+                              ) : "—"}
+                            </td>
+                            <td className="py-2 px-4 text-right font-mono text-xs">
+                              {point.convexityAdjustment !== undefined
+                                ? `−${(point.convexityAdjustment * 10000).toFixed(2)}`
+                                : "—"}
+                            </td>
                             <td className="py-2 px-4 text-center">
                               <Badge 
                                 variant={point.source === "swap" ? "default" : "secondary"}
@@ -42,15 +42,42 @@ const METHODS_DOCUMENTATION = [
         description: "Modèle paramétrique à 4 paramètres capturant level, slope, curvature",
         process: [
           "1. Définir la fonction NS: r(t) = β₀ + β₁[(1-e^(-t/λ))/(t/λ)] + β₂[(1-e^(-t/λ))/(t/λ) - e^(-t/λ)]",
-          "2. Optimiser les 4 paramètres (β₀, β₁, β₂, λ) par moindres carrés pondérés",
-          "3. Les swaps reçoivent un poids plus élevé dans l'optimisation",
-          "4. Utiliser la descente de gradient pour minimiser l'erreur",
-          "5. Générer la courbe complète avec les paramètres optimaux",
+          "2. Pour plusieurs λ de départ, résoudre exactement les β (linéaires) puis optimiser (β₀, β₁, β₂, λ) par Levenberg-Marquardt sous bornes",
+          "3. Pondération égale ou par la duration au carré (≈ ajustement en prix); les swaps gardent un poids 3x face aux futures",
+          "4. Option λ fixe: seuls les β sont ajustés (moindres carrés linéaires)",
+          "5. Conserver le meilleur départ; erreurs standard via σ²·(JᵀWJ)⁻¹ et résidus exposés",
         ],
         pros: ["Interprétation économique claire", "Courbe toujours lisse", "Peu de paramètres"],
         cons: ["Flexibilité limitée", "Peut mal fitter les données complexes"],
         formula: "r(τ) = β₀ + β₁(1-e^(-τ/λ))/(τ/λ) + β₂[(1-e^(-τ/λ))/(τ/λ) - e^(-τ/λ)]",
       },
+      {
+        name: "Svensson (NSS)",
+        description: "Extension de Nelson-Siegel avec une seconde bosse, utilisée par la BCE et la Bundesbank",
+        process: [
+          "1. Ajouter au modèle NS un terme β₃ de courbure à décroissance λ₂",
+          "2. Pour chaque couple (λ, λ₂), les β sont linéaires: moindres carrés pondérés exacts",
+          "3. Rechercher (λ, λ₂) sur une grille puis affiner localement",
+          "4. Imposer λ ≥ 1.5 × λ₂ pour que les deux bosses restent identifiables",
+          "5. Générer la courbe complète avec les 6 paramètres",
+        ],
+        pros: ["Capte les courbes à deux bosses", "Paramètres publiés par les banques centrales"],
+        cons: ["Paramètres instables (β₀ et β₃ corrélés)", "Ne reprice pas exactement les instruments"],
+        formula: "r(τ) = NS(τ) + β₃[(1-e^(-λ₂τ))/(λ₂τ) - e^(-λ₂τ)]",
+      },
+      {
+        name: "Smith-Wilson",
+        description: "Méthode EIOPA: fit exact des instruments liquides et convergence vers un UFR",
+        process: [
+          "1. Décrire chaque swap par ses flux fixes au pair (−1 au départ, coupons, +1 à maturité)",
+          "2. Résoudre (C·W·Cᵀ)·ξ = m − C·e^(−ωu) pour les poids, ω = ln(1 + UFR)",
+          "3. Calibrer α: plus petite valeur ≥ 0.05 telle que le forward au point de convergence soit à 1bp de l'UFR",
+          "4. Au-delà du dernier point liquide, les forwards convergent vers l'UFR",
+        ],
+        pros: ["Reprice exactement les swaps", "Extrapolation long terme réglementaire (Solvabilité II)"],
+        cons: ["Dépend fortement de l'UFR choisi", "Forwards peu lisses entre les piliers"],
+        formula: "P(t) = e^(−ωt) + Σⱼ ζⱼ·W(t, uⱼ)",
+      },
     ],
   },
   {
@@ -115,24 +142,36 @@ const METHODS_DOCUMENTATION = [
         name: "QuantLib Linear Forward",
         description: "PiecewiseLinearForward - Interpolation linéaire sur les taux forward",
         process: [
-          "1. Bootstrap des taux forward implicites",
-          "2. Interpoler linéairement les forwards entre piliers",
-          "3. Intégrer les forwards pour reconstruire les DFs",
-          "4. Courbe forward en segments linéaires",
+          "1. Forwards discrets f^d_i = (r_i·τ_i − r_{i−1}·τ_{i−1}) / (τ_i − τ_{i−1}) entre piliers",
+          "2. Forwards nodaux tels que (f_{i−1} + f_i)/2 = f^d_i, avec f_0 = f_1 (premier segment plat)",
+          "3. Intégrer analytiquement les segments linéaires: les taux d'entrée sont reproduits exactement",
+          "4. Au-delà du dernier pilier, forward constant",
         ],
-        pros: ["Forwards prévisibles", "Facile à comprendre"],
-        cons: ["Forwards non-lisses aux nœuds"],
+        pros: ["Forwards continus", "Reproduction exacte des piliers"],
+        cons: ["Forwards en dents de scie si les piliers sont irréguliers"],
         formula: "f(t) interpolé linéairement → DF(t) = exp(-∫₀ᵗ f(s)ds)",
       },
+      {
+        name: "QuantLib Flat Forward",
+        description: "PiecewiseFlatForward - Forward instantané constant entre piliers",
+        process: [
+          "1. Forward constant f^d_i sur chaque segment (τ_{i−1}, τ_i]",
+          "2. DF(t) = DF(τ_{i−1}) × exp(−f^d_i × (t − τ_{i−1}))",
+          "3. Courbe identique à l'interpolation log-linéaire des DFs",
+        ],
+        pros: ["Forwards positifs si les DFs décroissent", "Local et stable"],
+        cons: ["Forwards discontinus aux piliers"],
+        formula: "f(t) = f^d_i pour t ∈ (τ_{i−1}, τ_i]",
+      },
       {
         name: "QuantLib Monotonic Convex",
         description: "Hagan-West Monotonic Convex - Préserve la monotonie des forwards avec convexité",
         process: [
-          "1. Bootstrap initial avec contraintes de monotonie",
-          "2. Appliquer l'algorithme Hagan-West pour préserver la convexité",
-          "3. Ajuster itérativement pour éviter les forwards négatifs",
-          "4. Garantir la cohérence avec tous les instruments de calibration",
-          "5. Produire une courbe forward monotone et convexe",
+          "1. Calculer les forwards discrets f^d_i = (r_i·τ_i − r_{i−1}·τ_{i−1}) / (τ_i − τ_{i−1})",
+          "2. Estimer les forwards instantanés aux nœuds (moyenne pondérée des f^d adjacents)",
+          "3. Amélioration: ajuster ces estimations pour rester dans la région quadratique quand les données le permettent",
+          "4. Positivité: borner chaque forward nodal dans [0, 2·f^d]",
+          "5. Sur chaque intervalle, f(τ) = f^d_i + g(x) avec g choisie parmi 4 régions (∫g = 0): taux d'entrée reproduits exactement",
         ],
         pros: [
           "Forwards toujours monotones",
@@ -141,7 +180,7 @@ const METHODS_DOCUMENTATION = [
           "Standard professionnel",
         ],
         cons: ["Complexe algorithmiquement", "Plus lent"],
-        formula: "Contraintes: f'(t) ≥ 0 (monotonie) + conditions de convexité de Hagan-West",
+        formula: "r(τ)·τ = r_{i−1}·τ_{i−1} + f^d_i·(τ − τ_{i−1}) + (τ_i − τ_{i−1})·∫₀ˣ g",
       },
     ],
   },
@@ -160,6 +199,74 @@ const GENERAL_CONCEPTS = [
     title: "Taux Forward",
     description: "Taux implicite entre deux dates futures. f(t₁,t₂) = [r(t₂)×t₂ - r(t₁)×t₁]/(t₂-t₁)",
   },
+  {
+    title: "Bootstrap par des Swaps",
+    description: "Chaque swap est résolu maturité par maturité : on cherche DF(T) tel que S × Σ αᵢ × DF(tᵢ) = 1 - DF(T). L'interpolation ne sert qu'aux dates de coupon intermédiaires; l'erreur de repricing de chaque swap est reportée.",
+  },
+  {
+    title: "Conventions de Base",
+    description: "Les fractions d'accrual αᵢ suivent la convention de chaque jambe : jambe fixe (ex. 30/360, 30E/360), jambe variable et instruments monétaires (ACT/360 ou ACT/365). ACT/ACT ISDA répartit les jours par année civile, ACT/ACT ICMA les rapporte à la période de coupon. L'axe de temps de la courbe reste en ACT/365F.",
+  },
+  {
+    title: "Calendriers",
+    description: "Date spot, échéances et dates de paiement sont ajustées (modified following) sur le calendrier de la devise : USNY, TARGET (EUTA), GBLO, CHZU, JPTO, CATO, SGSI. Des calendriers joints peuvent être ajoutés : un jour n'est ouvré que s'il l'est dans chacun d'eux. Les fêtes lunaires, islamiques et hindoues de SGSI (Nouvel An chinois, Hari Raya, Vesak, Deepavali) viennent des listes officielles, connues jusqu'en 2026 : au-delà, un avertissement est affiché.",
+  },
+  {
+    title: "Ajustement de Convexité",
+    description: "Les futures étant appelés en marge quotidiennement, leur taux dépasse le forward équivalent. Modèle Hull-White : CA = B(t₁,t₂)/(t₂−t₁) × [B(t₁,t₂)(1−e^(−2a·t₁)) + 2a·B(0,t₁)²] × σ²/(4a), avec B(t,T) = (1−e^(−a(T−t)))/a. Le forward = futures − CA est utilisé avant l'ajustement aux swaps.",
+  },
+  {
+    title: "Strip de Futures",
+    description: "En mode strip, les contrats consécutifs sont chaînés : DF(fin) = DF(début) × exp(−f × τ). Le stub jusqu'au premier contrat est pris au taux du premier contrat, les trous entre contrats à la moyenne des deux forwards, et les chevauchements sont lus sur la chaîne déjà construite.",
+  },
+  {
+    title: "Paliers de Réunions (Banques Centrales)",
+    description: "Pour les indices overnight, le forward est constant entre deux réunions : f(t) = r_k sur [e_k, e_k+1), e_k étant la date d'effet de la décision. Les taux r_k sont résolus par moindres carrés sur les futures (ln(1 + R×α)/τ = moyenne de f sur la période), avec une petite pénalité sur les variations pour départager les réunions que les futures ne séparent pas. Chaque variation implicite est lue comme une probabilité de mouvement de 25bp ; jusqu'à la dernière réunion la courbe reproduit exactement les paliers (forward plat), quelle que soit la méthode, et les nœuds de paliers ne sont pas ajustés aux swaps ; la méthode choisie ne s'applique qu'au-delà.",
+  },
+  {
+    title: "Effets de Fin de Période (Turns)",
+    description: "Une prime de financement s (bp) s'applique au forward overnight sur la fin d'année ou de trimestre : DF(t) = DF_base(t) × exp(−Σ s × |[0, t] ∩ turn|). Les futures qui couvrent le turn sont nets de sa prime moyenne avant le bootstrap, et les piliers swaps sont résolus sur la courbe de base + turns, de sorte que les forwards courts ne présentent plus de coude artificiel.",
+  },
+  {
+    title: "Multi-Courbes (OIS + Projection)",
+    description: "La courbe OIS (ESTR, SOFR, SONIA, SARON, TONA) sert à l'actualisation. Chaque courbe de projection (ex. Euribor 3M) est bootstrappée ensuite : S × Σ αᵢ × P_OIS(tᵢ) = Σ (P_f(tⱼ₋₁)/P_f(tⱼ) − 1) × P_OIS(tⱼ). Le spread de base compare les forwards de la durée de l'index sur les deux courbes.",
+  },
+  {
+    title: "Extrapolation",
+    description: "Au-delà du dernier pilier et avant le premier, chaque courbe peut suivre une politique explicite : zéro plat, forward plat (forward instantané au dernier pilier ; au court terme, forward constant depuis DF(0) = 1, soit le zéro du premier pilier), zéro linéaire (pente des deux derniers piliers, ou des deux premiers prolongée jusqu'à t = 0) ou Smith-Wilson convergeant vers l'UFR. L'horizon (ex. 50Y) prolonge ou coupe la grille ; les lignes extrapolées sont marquées « Extrap. ». Les effets de fin d'année restent appliqués au court terme. En zéro linéaire ou Smith-Wilson, le DF de la date spot suit la politique : les swaps peuvent s'écarter légèrement du pair (voir le rapport de calibration).",
+  },
+  {
+    title: "Sensibilités (Jacobien, DV01, KRD)",
+    description: "Chaque instrument d'entrée est choqué de 1bp et la courbe reconstruite avec la même méthode : le Jacobien donne ∂z(t)/∂input (bp/bp) et le DV01 par instrument du jeu de flux. Le DV01 parallèle choque tous les inputs ensemble ; les key-rate durations appliquent des chocs triangulaires de 1bp sur la courbe zéro, centrés sur chaque tenor clé. DV01 = PV(base) − PV(choqué).",
+  },
+  {
+    title: "Scénarios de Choc",
+    description: "Un choc Δ(t) est appliqué soit aux inputs de marché (au tenor de chaque instrument, puis la courbe est reconstruite avec la même méthode), soit directement aux taux zéro. Parallèle : Δ = s ; pentification/aplatissement : rotation autour d'un pivot, Δ(t) = s × (min(t, 30) − pivot)/30 ; butterfly : ventre et ailes en sens opposés ; personnalisé : chocs par tenor interpolés linéairement. Les six chocs IRRBB de Bâle (parallèle ±, courts ±, pentification, aplatissement) utilisent les tailles standard de la devise et une décroissance e^(−t/4) des taux courts.",
+  },
+  {
+    title: "Pricer de Swap Vanille",
+    description: "Les échéanciers fixe et variable sont générés depuis la maturité (modified following). Les coupons variables sont projetés sur la courbe de projection, Fⱼ = (P(sⱼ)/P(eⱼ) − 1)/αⱼ, et actualisés sur la courbe OIS. Taux par = PV(variable) / (N × Σ αᵢ × DF(tᵢ)) ; PV01 = N × Σ αᵢ × DF(tᵢ) × 1bp. Une période variable déjà en cours paie le fixing saisi ; à défaut, le forward est projeté de la date de valorisation v au paiement sur la fraction restante φ = α(v, eⱼ)/α(sⱼ, eⱼ), F = (P(v)/P(eⱼ) − 1)/(φ × αⱼ), et appliqué à toute la période.",
+  },
+  {
+    title: "Swaps Forward et FRA",
+    description: "Le taux d'un swap m×n est le taux par d'un swap démarrant m mois après le spot, de maturité n ans, aux conventions de la devise. Un FRA m×(m+k) sur l'index k mois vaut F = (P(s)/P(e) − 1)/α, où α suit la base monétaire de la devise (ACT/360 ou ACT/365).",
+  },
+  {
+    title: "Caps, Floors et Swaptions (Black / Bachelier)",
+    description: "Un cap est une somme de caplets N × α × DF(paiement) × C(F, K, σ, T_fixing), F étant le forward de l'index ; une swaption européenne vaut N × A × C(S, K, σ, T_expiry), avec S le taux swap forward et A son annuité. Black-76 décalé : F + s et K + s lognormaux (vol en %). Bachelier : forward normal (vol en bp), valable pour des taux négatifs. La vol implicite inverse une prime de marché en vol plate (Newton sur le vega, bissection en secours).",
+  },
+  {
+    title: "Forwards FX et Basis Cross-Currency",
+    description: "Par parité des taux couverte, F(T) = S × [P_base(T)/P_base(spot)] / [P_cot(T)/P_cot(spot)] ; les points forward valent (F − S) × 10 000 (× 100 contre JPY). Avec des points de marché, la basis implicite b est l'écart continu sur le taux de la devise de base tel que F_marché = F_CIP × e^(−b × τ).",
+  },
+  {
+    title: "Carry et Roll-Down",
+    description: "Pour une position receveuse de maturité T sur un horizon h : carry = F(h, T−h) − S(0, T), la hausse des taux que le différentiel fixe/variable finance ; roll-down = S(0, T) − S(0, T−h), le gain de la position qui glisse sur une courbe inchangée ; total = F(h, T−h) − S(0, T−h). Les obligations utilisent les rendements par de la courbe gouvernementale.",
+  },
+  {
+    title: "Spreads Obligations vs Swap",
+    description: "Chaque benchmark est traité comme une obligation au pair (coupon = rendement) aux conventions du marché. I-spread = y − S(T), S étant le taux swap par de même maturité. Z-spread : écart continu z sur les DF swap tel que Σ CFₖ × DF(tₖ) × e^(−z tₖ) redonne le prix plein de marché. Asset swap par-par : ASW = (P_swap − P_marché) / (100 × A_var), avec A_var l'annuité de la jambe variable jusqu'à maturité.",
+  },
   {
     title: "Priorité Swaps vs Futures",
     description: "Les swaps sont des points de calibration exacts (forcés). Les futures servent de guides entre les swaps et sont ajustés si incohérents.",
@@ -0,0 +1,197 @@
+import { useMemo, useState } from "react";
+import { CARRY_HORIZONS_MONTHS, carryRollDown } from "@/lib/carryRoll";
+import { formatMonths } from "@/lib/forwardRates";
+import { PricingCurve } from "./SwapPricerPanel";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Bar,
+  BarChart,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine,
+} from "recharts";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface CarryRollPanelProps {
+  curves: PricingCurve[];
+  positionLabel: string; // e.g. "receveur swap", "porteur obligation"
+}
+
+const chartConfig = {
+  carryBp: { label: "Carry", color: "hsl(var(--primary))" },
+  rollDownBp: { label: "Roll-down", color: "hsl(142, 76%, 36%)" },
+};
+
+function formatBp(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+export function CarryRollPanel({ curves, positionLabel }: CarryRollPanelProps) {
+  const [curveId, setCurveId] = useState(curves[0]?.id ?? "");
+  const [horizonMonths, setHorizonMonths] = useState(CARRY_HORIZONS_MONTHS[0]);
+  const curve = curves.find((c) => c.id === curveId) ?? curves[0];
+
+  const points = useMemo(
+    () => (curve ? carryRollDown(curve.discount, horizonMonths, undefined, curve.forecast) : []),
+    [curve, horizonMonths]
+  );
+
+  // Best roll-down first
+  const ranked = useMemo(() => [...points].sort((a, b) => b.rollDownBp - a.rollDownBp), [points]);
+
+  if (!curve) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Aucune courbe disponible
+      </div>
+    );
+  }
+
+  const chartData = points.map((p) => ({
+    tenor: `${p.tenor}Y`,
+    carryBp: Number(p.carryBp.toFixed(2)),
+    rollDownBp: Number(p.rollDownBp.toFixed(2)),
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        {curves.length > 1 && (
+          <div className="space-y-1 w-72">
+            <Label className="text-xs text-muted-foreground">Courbe</Label>
+            <Select value={curve.id} onValueChange={setCurveId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {curves.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Horizon</Label>
+          <div className="flex gap-1">
+            {CARRY_HORIZONS_MONTHS.map((months) => (
+              <Button
+                key={months}
+                variant={months === horizonMonths ? "default" : "outline"}
+                size="sm"
+                className="h-8"
+                onClick={() => setHorizonMonths(months)}
+              >
+                {formatMonths(months)}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {points.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          Pas de données disponibles
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <ChartContainer config={chartConfig} className="h-[320px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.5} />
+                  <XAxis
+                    dataKey="tenor"
+                    tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                    tickLine={{ stroke: "hsl(var(--border))" }}
+                    axisLine={{ stroke: "hsl(var(--border))" }}
+                  />
+                  <YAxis
+                    tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                    tickLine={{ stroke: "hsl(var(--border))" }}
+                    axisLine={{ stroke: "hsl(var(--border))" }}
+                    tickFormatter={(value) => `${Number(value).toFixed(0)}`}
+                    label={{
+                      value: "bp",
+                      angle: -90,
+                      position: "insideLeft",
+                      style: { fill: "hsl(var(--muted-foreground))", fontSize: 12 },
+                    }}
+                  />
+                  <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value, name) => [
+                          `${Number(value).toFixed(2)} bp`,
+                          chartConfig[name as keyof typeof chartConfig]?.label || name,
+                        ]}
+                      />
+                    }
+                  />
+                  <Legend formatter={(value) => chartConfig[value as keyof typeof chartConfig]?.label || value} />
+                  <Bar dataKey="carryBp" stackId="total" fill={chartConfig.carryBp.color} />
+                  <Bar dataKey="rollDownBp" stackId="total" fill={chartConfig.rollDownBp.color} />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+            <p className="mt-2 text-xs text-muted-foreground">
+              Position {positionLabel} sur {formatMonths(horizonMonths)} : carry = forward − spot, roll-down = spot −
+              spot du tenor résiduel (courbe inchangée)
+            </p>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+              Classement roll-down
+            </h4>
+            <ScrollArea className="h-[320px]">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-card z-10">
+                  <tr className="border-b border-border">
+                    <th className="py-2 px-2 text-left font-medium text-muted-foreground">#</th>
+                    <th className="py-2 px-2 text-left font-medium text-muted-foreground">Tenor</th>
+                    <th className="py-2 px-2 text-right font-medium text-muted-foreground">Taux (%)</th>
+                    <th className="py-2 px-2 text-right font-medium text-muted-foreground">Carry</th>
+                    <th className="py-2 px-2 text-right font-medium text-muted-foreground">Roll</th>
+                    <th className="py-2 px-2 text-right font-medium text-muted-foreground">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ranked.map((p, idx) => (
+                    <tr key={p.tenor} className="border-b border-border/50 hover:bg-muted/50">
+                      <td className="py-1.5 px-2 text-muted-foreground">{idx + 1}</td>
+                      <td className="py-1.5 px-2 font-medium">{p.tenor}Y</td>
+                      <td className="py-1.5 px-2 text-right font-mono">{(p.rate * 100).toFixed(3)}</td>
+                      <td className="py-1.5 px-2 text-right font-mono">{formatBp(p.carryBp)}</td>
+                      <td className="py-1.5 px-2 text-right font-mono">{formatBp(p.rollDownBp)}</td>
+                      <td className="py-1.5 px-2 text-right font-mono font-semibold">{formatBp(p.totalBp)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { CurveDiagnostics } from "@/lib/bootstrapping";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+
+interface CurveDiagnosticsPanelProps {
+  diagnostics?: CurveDiagnostics;
+}
+
+// Residuals above this are highlighted (bp)
+const RESIDUAL_WARNING_BP = 0.5;
+
+const SOURCE_LABELS: Record<string, string> = {
+  swap: "Swap",
+  futures: "Futures",
+  bond: "Bond",
+};
+
+function formatTenors(tenors: number[]): string {
+  const shown = tenors.slice(0, 5).map((t) => `${t.toFixed(2)}Y`).join(", ");
+  return tenors.length > 5 ? `${shown}…` : shown;
+}
+
+export function CurveDiagnosticsPanel({ diagnostics }: CurveDiagnosticsPanelProps) {
+  if (!diagnostics) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Pas de diagnostic disponible
+      </div>
+    );
+  }
+
+  const { instruments, rmseBp, maxErrorBp, negativeForwardTenors, nonMonotoneDfTenors, unconvergedSwapTenors } = diagnostics;
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+        Qualité de Calibration
+      </h4>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="p-3 rounded-lg bg-muted/50">
+          <p className="text-xs text-muted-foreground">RMSE</p>
+          <p className="font-mono text-lg">{rmseBp.toFixed(3)} bp</p>
+        </div>
+        <div className="p-3 rounded-lg bg-muted/50">
+          <p className="text-xs text-muted-foreground">Erreur max</p>
+          <p className={`font-mono text-lg ${maxErrorBp > RESIDUAL_WARNING_BP ? "text-orange-500" : ""}`}>
+            {maxErrorBp.toFixed(3)} bp
+          </p>
+        </div>
+      </div>
+
+      {/* Shape flags */}
+      <div className="space-y-1 text-xs">
+        <div className="flex items-center gap-2">
+          {negativeForwardTenors.length > 0 ? (
+            <AlertTriangle className="w-4 h-4 text-orange-500" />
+          ) : (
+            <CheckCircle2 className="w-4 h-4 text-green-600" />
+          )}
+          <span className="text-muted-foreground">
+            {negativeForwardTenors.length > 0
+              ? `Forwards négatifs (${negativeForwardTenors.length}) : ${formatTenors(negativeForwardTenors)}`
+              : "Aucun forward négatif"}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {nonMonotoneDfTenors.length > 0 ? (
+            <AlertTriangle className="w-4 h-4 text-orange-500" />
+          ) : (
+            <CheckCircle2 className="w-4 h-4 text-green-600" />
+          )}
+          <span className="text-muted-foreground">
+            {nonMonotoneDfTenors.length > 0
+              ? `DF non monotones (${nonMonotoneDfTenors.length}) : ${formatTenors(nonMonotoneDfTenors)}`
+              : "DF strictement décroissants"}
+          </span>
+        </div>
+        {unconvergedSwapTenors.length > 0 && (
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-orange-500" />
+            <span className="text-muted-foreground">
+              Swaps non calibrés ({unconvergedSwapTenors.length}) : {formatTenors(unconvergedSwapTenors)}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Per-instrument residuals */}
+      <ScrollArea className="h-[280px]">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-card z-10">
+            <tr className="border-b border-border">
+              <th className="py-2 px-2 text-left font-medium text-muted-foreground">Instrument</th>
+              <th className="py-2 px-2 text-right font-medium text-muted-foreground">Marché (%)</th>
+              <th className="py-2 px-2 text-right font-medium text-muted-foreground">Modèle (%)</th>
+              <th className="py-2 px-2 text-right font-medium text-muted-foreground">Résidu (bp)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {instruments.map((fit, idx) => (
+              <tr key={idx} className="border-b border-border/50 hover:bg-muted/50">
+                <td className="py-1.5 px-2">
+                  <Badge variant={fit.source === "swap" ? "default" : "secondary"} className="text-xs mr-1">
+                    {SOURCE_LABELS[fit.source]}
+                  </Badge>
+                  <span className="font-mono">{fit.tenor.toFixed(2)}Y</span>
+                </td>
+                <td className="py-1.5 px-2 text-right font-mono">{(fit.marketRate * 100).toFixed(4)}</td>
+                <td className="py-1.5 px-2 text-right font-mono">{(fit.modelRate * 100).toFixed(4)}</td>
+                <td
+                  className={`py-1.5 px-2 text-right font-mono ${
+                    Math.abs(fit.residualBp) > RESIDUAL_WARNING_BP ? "text-orange-500" : ""
+                  }`}
+                >
+                  {fit.residualBp >= 0 ? "+" : ""}
+                  {fit.residualBp.toFixed(3)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { BootstrapResult } from "@/lib/bootstrapping";
+
+interface CurveParametersProps {
+  result: BootstrapResult;
+}
+
+function formatStandardError(value?: number): string {
+  return value !== undefined && isFinite(value) ? ` ±${value.toFixed(4)}` : "";
+}
+
+/**
+ * Fitted parameters of parametric curves (Nelson-Siegel, Svensson, Smith-Wilson)
+ */
+export function CurveParameters({ result }: CurveParametersProps) {
+  const { parameters, smithWilsonParameters } = result;
+
+  if (smithWilsonParameters) {
+    return (
+      <p className="text-xs text-muted-foreground mt-1">
+        UFR={(smithWilsonParameters.ufr * 100).toFixed(2)}%,{" "}
+        α={smithWilsonParameters.alpha.toFixed(4)},{" "}
+        convergence={smithWilsonParameters.convergenceTenor}Y,{" "}
+        {smithWilsonParameters.nodes.length} flux
+      </p>
+    );
+  }
+
+  if (!parameters) return null;
+
+  const fit = parameters.fit;
+  const errors = fit?.standardErrors;
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      <p className="text-xs text-muted-foreground">
+        β₀={parameters.beta0.toFixed(4)}{formatStandardError(errors?.beta0)},{" "}
+        β₁={parameters.beta1.toFixed(4)}{formatStandardError(errors?.beta1)},{" "}
+        β₂={parameters.beta2.toFixed(4)}{formatStandardError(errors?.beta2)},{" "}
+        {"beta3" in parameters && <>β₃={parameters.beta3.toFixed(4)}, </>}
+        λ={parameters.lambda.toFixed(4)}{fit?.lambdaFixed ? " (fixe)" : formatStandardError(errors?.lambda)}
+        {"lambda2" in parameters && <>, λ₂={parameters.lambda2.toFixed(4)}</>}
+      </p>
+      {fit && (
+        <p className="text-xs text-muted-foreground">
+          Fit {fit.weighting === "duration" ? "pondéré duration" : "équipondéré"}: RMSE {fit.rmseBp.toFixed(2)} bp,{" "}
+          {fit.iterations} itérations{fit.converged ? "" : " (non convergé)"},{" "}
+          {fit.starts.length} départ{fit.starts.length > 1 ? "s" : ""} λ
+        </p>
+      )}
+    </div>
+  );
+}
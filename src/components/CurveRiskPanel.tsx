@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { BootstrapResult } from "@/lib/bootstrapping";
+import { bulletCashFlows, computeCurveRisk, CurveBuilder, CurveRisk, parseCashFlows } from "@/lib/risk";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Calculator } from "lucide-react";
+
+interface CurveRiskPanelProps {
+  result: BootstrapResult;
+  rebuild: CurveBuilder;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  swap: "Swap",
+  futures: "Futures",
+  bond: "Bond",
+};
+
+// Default portfolio: 10Y 3% annual bullet on 100
+const DEFAULT_CASH_FLOWS = bulletCashFlows(10, 0.03)
+  .map((cf) => `${cf.tenor}Y;${cf.amount}`)
+  .join("\n");
+
+function formatTenor(tenor: number): string {
+  return tenor < 1 ? `${Math.round(tenor * 12)}M` : `${tenor.toFixed(tenor % 1 === 0 ? 0 : 2)}Y`;
+}
+
+export function CurveRiskPanel({ result, rebuild }: CurveRiskPanelProps) {
+  const [cashFlowsText, setCashFlowsText] = useState(DEFAULT_CASH_FLOWS);
+  // Risk is kept with the curve it was computed on, so a new curve hides stale figures
+  const [computed, setComputed] = useState<{ curve: BootstrapResult; risk: CurveRisk } | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+
+  const cashFlows = parseCashFlows(cashFlowsText, result.valuationDate);
+  const risk = computed?.curve === result ? computed.risk : null;
+
+  const handleCompute = () => {
+    setIsComputing(true);
+    // Let the button state render before the (blocking) rebuilds
+    setTimeout(() => {
+      setComputed({ curve: result, risk: computeCurveRisk(result, rebuild, cashFlows) });
+      setIsComputing(false);
+    }, 0);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-2">
+        <Label htmlFor={`cash-flows-${result.method}`} className="text-xs text-muted-foreground">
+          Flux ({cashFlows.length})
+        </Label>
+        <Textarea
+          id={`cash-flows-${result.method}`}
+          value={cashFlowsText}
+          onChange={(e) => setCashFlowsText(e.target.value)}
+          placeholder="Date ou tenor;montant, un flux par ligne (ex. 2030-06-15;3 ou 5Y;103)"
+          className="h-48 font-mono text-xs"
+        />
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={cashFlows.length === 0 || result.inputPoints.length === 0 || isComputing}
+          onClick={handleCompute}
+        >
+          <Calculator className="w-4 h-4 mr-2" />
+          {isComputing ? "Calcul…" : "Calculer"}
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Chaque instrument est choqué de 1bp et la courbe reconstruite ({result.inputPoints.length + 1} bootstraps)
+        </p>
+      </div>
+
+      <div className="lg:col-span-2 space-y-4">
+        {!risk ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Lancer le calcul pour obtenir les sensibilités
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">Valeur actuelle</p>
+                <p className="font-mono text-lg">{risk.presentValue.toFixed(4)}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">DV01 parallèle</p>
+                <p className="font-mono text-lg">{risk.parallelDv01.toFixed(5)}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">Duration modifiée</p>
+                <p className="font-mono text-lg">{risk.modifiedDuration.toFixed(3)}</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+                  DV01 par instrument
+                </h4>
+                <ScrollArea className="h-[260px]">
+                  <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-card z-10">
+                      <tr className="border-b border-border">
+                        <th className="py-2 px-2 text-left font-medium text-muted-foreground">Instrument</th>
+                        <th className="py-2 px-2 text-right font-medium text-muted-foreground">Taux (%)</th>
+                        <th className="py-2 px-2 text-right font-medium text-muted-foreground">DV01</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {risk.inputs.map((input) => (
+                        <tr key={input.index} className="border-b border-border/50 hover:bg-muted/50">
+                          <td className="py-1.5 px-2">
+                            {SOURCE_LABELS[input.source] ?? input.source} {formatTenor(input.tenor)}
+                          </td>
+                          <td className="py-1.5 px-2 text-right font-mono">{(input.rate * 100).toFixed(3)}</td>
+                          <td className="py-1.5 px-2 text-right font-mono">{input.dv01.toFixed(5)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </ScrollArea>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+                  Key-rate durations
+                </h4>
+                <ScrollArea className="h-[260px]">
+                  <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-card z-10">
+                      <tr className="border-b border-border">
+                        <th className="py-2 px-2 text-left font-medium text-muted-foreground">Tenor</th>
+                        <th className="py-2 px-2 text-right font-medium text-muted-foreground">DV01</th>
+                        <th className="py-2 px-2 text-right font-medium text-muted-foreground">KRD</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {risk.keyRates.map((kr) => (
+                        <tr key={kr.tenor} className="border-b border-border/50 hover:bg-muted/50">
+                          <td className="py-1.5 px-2">{formatTenor(kr.tenor)}</td>
+                          <td className="py-1.5 px-2 text-right font-mono">{kr.dv01.toFixed(5)}</td>
+                          <td className="py-1.5 px-2 text-right font-mono">{kr.duration.toFixed(3)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </ScrollArea>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+                Jacobien des taux zéro (bp/bp)
+              </h4>
+              <div className="overflow-x-auto">
+                <table className="text-xs">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="py-2 px-2 text-left font-medium text-muted-foreground">Zéro \ Input</th>
+                      {risk.inputs.map((input) => (
+                        <th key={input.index} className="py-2 px-2 text-right font-medium text-muted-foreground whitespace-nowrap">
+                          {formatTenor(input.tenor)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {risk.jacobian.tenors.map((tenor, row) => (
+                      <tr key={tenor} className="border-b border-border/50 hover:bg-muted/50">
+                        <td className="py-1.5 px-2">{formatTenor(tenor)}</td>
+                        {risk.jacobian.zero[row].map((value, col) => (
+                          <td
+                            key={col}
+                            className={`py-1.5 px-2 text-right font-mono ${Math.abs(value) < 0.005 ? "text-muted-foreground" : ""}`}
+                          >
+                            {value.toFixed(2)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
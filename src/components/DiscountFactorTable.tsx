@@ -1,4 +1,5 @@
 import { DiscountFactor } from "@/lib/bootstrapping";
+import { toISODate } from "@/lib/dates";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 
@@ -23,6 +24,9 @@ export function DiscountFactorTable({ discountFactors }: DiscountFactorTableProp
             <th className="py-3 px-4 text-left font-medium text-muted-foreground">
               Tenor (Y)
             </th>
+            <th className="py-3 px-4 text-left font-medium text-muted-foreground">
+              Date
+            </th>
             <th className="py-3 px-4 text-right font-medium text-muted-foreground">
               Discount Factor
             </th>
@@ -46,6 +50,9 @@ export function DiscountFactorTable({ discountFactors }: DiscountFactorTableProp
               <td className="py-2 px-4 font-mono text-foreground">
                 {df.tenor.toFixed(2)}
               </td>
+              <td className="py-2 px-4 font-mono text-muted-foreground">
+                {df.date ? toISODate(df.date) : "—"}
+              </td>
               <td className="py-2 px-4 text-right font-mono text-foreground">
                 {df.df.toFixed(8)}
               </td>
@@ -64,13 +71,15 @@ export function DiscountFactorTable({ discountFactors }: DiscountFactorTableProp
                         ? 'secondary' 
                         : 'outline'
                   }
-                  className="text-xs"
+                  className={`text-xs ${df.source === 'extrapolated' ? 'border-dashed text-muted-foreground' : ''}`}
                 >
                   {df.source === 'swap' 
                     ? 'Swap' 
                     : df.source === 'futures' 
                       ? 'Futures' 
-                      : 'Interp.'}
+                      : df.source === 'extrapolated'
+                        ? 'Extrap.'
+                        : 'Interp.'}
                 </Badge>
               </td>
             </tr>
@@ -0,0 +1,74 @@
+import { ExtrapolationMethod, ExtrapolationSettings } from "@/lib/bootstrapping";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ExtrapolationSettingsFieldsProps {
+  id: string;
+  settings?: ExtrapolationSettings;
+  onChange: (settings: ExtrapolationSettings | undefined) => void;
+}
+
+// "method": no policy, each bootstrap method extends the curve its own way
+const EXTRAPOLATION_OPTIONS: { id: ExtrapolationMethod | "method"; name: string }[] = [
+  { id: "method", name: "Méthode (défaut)" },
+  { id: "flat_zero", name: "Zéro plat" },
+  { id: "flat_forward", name: "Forward plat" },
+  { id: "linear_zero", name: "Zéro linéaire" },
+  { id: "smith_wilson", name: "Smith-Wilson (UFR)" },
+];
+
+export function ExtrapolationSettingsFields({ id, settings, onChange }: ExtrapolationSettingsFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Extrapolation</Label>
+        <Select
+          value={settings?.method ?? "method"}
+          onValueChange={(value) =>
+            onChange(value === "method" ? undefined : { ...settings, method: value as ExtrapolationMethod })
+          }
+        >
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXTRAPOLATION_OPTIONS.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`extrap-horizon-${id}`} className="text-xs text-muted-foreground">Horizon (Y)</Label>
+        <Input
+          id={`extrap-horizon-${id}`}
+          type="number"
+          step="5"
+          min="1"
+          placeholder="Auto"
+          disabled={!settings}
+          value={settings?.horizon ?? ""}
+          onChange={(e) => {
+            if (!settings) return;
+            const value = parseFloat(e.target.value);
+            if (e.target.value === "") {
+              onChange({ ...settings, horizon: undefined });
+            } else if (!isNaN(value) && value > 0) {
+              onChange({ ...settings, horizon: value });
+            }
+          }}
+          className="h-7 text-xs"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useMemo, useState } from "react";
+import { toISODate } from "@/lib/dates";
+import { formatMonths, forwardSwapMatrix, fraStrip } from "@/lib/forwardRates";
+import { PricingCurve } from "./SwapPricerPanel";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ForwardRatesPanelProps {
+  curves: PricingCurve[];
+}
+
+export function ForwardRatesPanel({ curves }: ForwardRatesPanelProps) {
+  const [curveId, setCurveId] = useState(curves[0]?.id ?? "");
+  const curve = curves.find((c) => c.id === curveId) ?? curves[0];
+
+  const matrix = useMemo(
+    () => (curve ? forwardSwapMatrix(curve.discount, curve.forecast) : null),
+    [curve]
+  );
+
+  const indexTenorMonths = curve
+    ? curve.indexTenorMonths ?? Math.round(12 / curve.discount.basisConvention.floatFrequency)
+    : 3;
+  const fras = useMemo(
+    () => (curve ? fraStrip(curve.discount, indexTenorMonths, curve.forecast) : []),
+    [curve, indexTenorMonths]
+  );
+
+  if (!curve || !matrix) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Aucune courbe disponible
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="max-w-sm space-y-1">
+        <Label className="text-xs text-muted-foreground">Courbe</Label>
+        <Select value={curve.id} onValueChange={setCurveId}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {curves.map((c) => (
+              <SelectItem key={c.id} value={c.id}>
+                {c.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+            Swaps forward (%) — départ × maturité
+          </h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="py-2 px-2 text-left font-medium text-muted-foreground">Départ \ Tenor</th>
+                  {matrix.tenorYears.map((years) => (
+                    <th key={years} className="py-2 px-2 text-right font-medium text-muted-foreground">
+                      {years}Y
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.startMonths.map((months, row) => (
+                  <tr key={months} className="border-b border-border/50 hover:bg-muted/50">
+                    <td className="py-1.5 px-2 font-medium">{months === 0 ? "Spot" : formatMonths(months)}</td>
+                    {matrix.rates[row].map((rate, col) => (
+                      <td
+                        key={col}
+                        className="py-1.5 px-2 text-right font-mono"
+                        title={`${formatMonths(months)}×${matrix.tenorYears[col]}Y`}
+                      >
+                        {isNaN(rate) ? "—" : (rate * 100).toFixed(3)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Taux par de swaps démarrant après le spot, conventions {curve.discount.basisConvention.fixedDayCount} /{" "}
+            {curve.discount.basisConvention.paymentFrequency}× par an
+          </p>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+            FRA {indexTenorMonths}M ({curve.discount.basisConvention.moneyMarketDayCount})
+          </h4>
+          <ScrollArea className="h-[400px]">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-card z-10">
+                <tr className="border-b border-border">
+                  <th className="py-2 px-2 text-left font-medium text-muted-foreground">FRA</th>
+                  <th className="py-2 px-2 text-left font-medium text-muted-foreground">Début</th>
+                  <th className="py-2 px-2 text-left font-medium text-muted-foreground">Fin</th>
+                  <th className="py-2 px-2 text-right font-medium text-muted-foreground">Taux (%)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fras.map((fra) => (
+                  <tr key={fra.startMonths} className="border-b border-border/50 hover:bg-muted/50">
+                    <td className="py-1.5 px-2 font-medium">
+                      {fra.startMonths}×{fra.endMonths}
+                    </td>
+                    <td className="py-1.5 px-2 font-mono">{toISODate(fra.startDate)}</td>
+                    <td className="py-1.5 px-2 font-mono">{toISODate(fra.endDate)}</td>
+                    <td className="py-1.5 px-2 text-right font-mono">{(fra.rate * 100).toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </ScrollArea>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useMemo, useState } from "react";
+import { BootstrapResult } from "@/lib/bootstrapping";
+import { toISODate } from "@/lib/dates";
+import { fxForwardCurve } from "@/lib/fxForwards";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface FxForwardPanelProps {
+  curves: { id: string; label: string; result: BootstrapResult }[];
+}
+
+export function FxForwardPanel({ curves }: FxForwardPanelProps) {
+  const [baseId, setBaseId] = useState("");
+  const [quoteId, setQuoteId] = useState("");
+  const [spotInput, setSpotInput] = useState("");
+  const [marketInputs, setMarketInputs] = useState<Record<string, string>>({});
+
+  // Defaults: first curve against the first curve in another currency
+  const base = curves.find((c) => c.id === baseId) ?? curves[0];
+  const quote = curves.find((c) => c.id === quoteId)
+    ?? curves.find((c) => c.result.currency !== base?.result.currency);
+  const spot = parseFloat(spotInput);
+
+  const forwardCurve = useMemo(() => {
+    if (!base || !quote || isNaN(spot) || spot <= 0) return null;
+    const marketPoints: Record<string, number> = {};
+    Object.entries(marketInputs).forEach(([label, value]) => {
+      const points = parseFloat(value);
+      if (!isNaN(points)) marketPoints[label] = points;
+    });
+    return fxForwardCurve(spot, base.result, quote.result, marketPoints);
+  }, [base, quote, spot, marketInputs]);
+
+  if (new Set(curves.map((c) => c.result.currency)).size < 2) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Ajouter une courbe dans une seconde devise (mode comparaison) pour calculer les forwards FX
+      </div>
+    );
+  }
+
+  const curveSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue placeholder="Choisir une courbe..." />
+        </SelectTrigger>
+        <SelectContent>
+          {curves.map((c) => (
+            <SelectItem key={c.id} value={c.id}>
+              {c.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const pair = base && quote ? `${base.result.currency}${quote.result.currency}` : "";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 max-w-3xl">
+        {curveSelect("Devise de base", base?.id ?? "", setBaseId)}
+        {curveSelect("Devise de cotation", quote?.id ?? "", setQuoteId)}
+        <div className="space-y-1">
+          <Label htmlFor="fx-spot" className="text-xs text-muted-foreground">
+            Spot {pair && `(${quote?.result.currency} pour 1 ${base?.result.currency})`}
+          </Label>
+          <Input
+            id="fx-spot"
+            type="number"
+            step="0.0001"
+            value={spotInput}
+            onChange={(e) => setSpotInput(e.target.value)}
+            placeholder="ex. 1.1700"
+            className="h-8 text-xs"
+          />
+        </div>
+      </div>
+
+      {base && quote && base.result.currency === quote.result.currency ? (
+        <div className="text-center py-8 text-muted-foreground">
+          Choisir deux devises différentes
+        </div>
+      ) : !forwardCurve ? (
+        <div className="text-center py-8 text-muted-foreground">
+          Saisir le spot {pair} pour obtenir les forwards
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="py-2 px-2 text-left font-medium text-muted-foreground">Tenor</th>
+                  <th className="py-2 px-2 text-left font-medium text-muted-foreground">Date de valeur</th>
+                  <th className="py-2 px-2 text-right font-medium text-muted-foreground">Outright</th>
+                  <th className="py-2 px-2 text-right font-medium text-muted-foreground">Points</th>
+                  <th className="py-2 px-2 text-right font-medium text-muted-foreground">Points marché</th>
+                  <th className="py-2 px-2 text-right font-medium text-muted-foreground">Outright marché</th>
+                  <th className="py-2 px-2 text-right font-medium text-muted-foreground">
+                    Basis {base?.result.currency} (bp)
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {forwardCurve.points.map((point) => (
+                  <tr key={point.label} className="border-b border-border/50 hover:bg-muted/50">
+                    <td className="py-1.5 px-2 font-medium">{point.label}</td>
+                    <td className="py-1.5 px-2 font-mono">{toISODate(point.valueDate)}</td>
+                    <td className="py-1.5 px-2 text-right font-mono">{point.forward.toFixed(5)}</td>
+                    <td className="py-1.5 px-2 text-right font-mono">{point.points.toFixed(2)}</td>
+                    <td className="py-1 px-2 text-right">
+                      <Input
+                        type="number"
+                        step="0.1"
+                        value={marketInputs[point.label] ?? ""}
+                        onChange={(e) => setMarketInputs((prev) => ({ ...prev, [point.label]: e.target.value }))}
+                        className="h-7 w-24 text-xs ml-auto text-right"
+                      />
+                    </td>
+                    <td className="py-1.5 px-2 text-right font-mono">
+                      {point.marketForward !== undefined ? point.marketForward.toFixed(5) : "—"}
+                    </td>
+                    <td className="py-1.5 px-2 text-right font-mono">
+                      {point.impliedBasisBp !== undefined
+                        ? `${point.impliedBasisBp >= 0 ? "+" : ""}${point.impliedBasisBp.toFixed(2)}`
+                        : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Parité des taux couverte depuis le spot du {toISODate(forwardCurve.spotDate)} ; points × {forwardCurve.pipFactor}.
+            La basis est l'écart (continu) sur le taux {base?.result.currency} qui reproduit les points de marché.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
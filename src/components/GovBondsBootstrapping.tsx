@@ -1,14 +1,23 @@
 import { useState, useMemo, useEffect } from "react";
 import { useCountriesBonds, useCountryYields } from "@/hooks/useBondsData";
+import { useIRSData } from "@/hooks/useIRSData";
 import { CountryBondData, BondYieldData } from "@/lib/api/bonds";
+import { parseISODate, toISODate, today } from "@/lib/dates";
+import { getDefaultSmithWilsonSettings, SmithWilsonSettings } from "@/lib/smithWilson";
 import {
+  bootstrap,
   bootstrapBonds,
   BootstrapPoint,
   BootstrapMethod,
   BootstrapResult,
+  DEFAULT_NELSON_SIEGEL_SETTINGS,
+  ExtrapolationSettings,
+  NelsonSiegelSettings,
+  OutputGrid,
   getBasisConvention,
   exportToCSV,
 } from "@/lib/bootstrapping";
+import { buildSwapPoints, IRS_INDICES } from "@/lib/irsIndices";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -22,9 +31,19 @@ import {
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { DiscountFactorTable } from "./DiscountFactorTable";
+import { CurveDiagnosticsPanel } from "./CurveDiagnosticsPanel";
+import { CurveParameters } from "./CurveParameters";
+import { NelsonSiegelSettingsFields } from "./NelsonSiegelSettingsFields";
+import { SmithWilsonSettingsFields } from "./SmithWilsonSettingsFields";
+import { ExtrapolationSettingsFields } from "./ExtrapolationSettingsFields";
+import { OutputGridFields } from "./OutputGridFields";
 import { BootstrapCurveChart } from "./BootstrapCurveChart";
+import { BondPricerPanel } from "./BondPricerPanel";
+import { CarryRollPanel } from "./CarryRollPanel";
+import { BondSpreadsPanel } from "./BondSpreadsPanel";
 import { Download, Calculator, TrendingUp, RefreshCw, Landmark, LayoutGrid, FileText, Info } from "lucide-react";
 import { toast } from "sonner";
 
@@ -32,9 +51,13 @@ const BOOTSTRAP_METHODS: { id: BootstrapMethod; name: string; description: strin
   { id: "linear", name: "Simple/Linéaire", description: "Interpolation linéaire" },
   { id: "cubic_spline", name: "Cubic Spline", description: "Splines cubiques naturelles" },
   { id: "nelson_siegel", name: "Nelson-Siegel", description: "Modèle paramétrique" },
+  { id: "svensson", name: "Svensson", description: "NS + seconde bosse" },
+  { id: "smith_wilson", name: "Smith-Wilson", description: "Convergence vers l'UFR" },
   { id: "bloomberg", name: "Bloomberg", description: "Log-DF interpolation" },
   { id: "quantlib_log_linear", name: "QL Log-Linear", description: "Log(DF) linéaire" },
   { id: "quantlib_log_cubic", name: "QL Log-Cubic", description: "Log(DF) cubique" },
+  { id: "quantlib_linear_forward", name: "QL Linear Fwd", description: "Forwards linéaires" },
+  { id: "quantlib_flat_forward", name: "QL Flat Fwd", description: "Forwards constants" },
 ];
 
 // Main currencies that have dedicated IRS/Futures bootstrapping
@@ -52,6 +75,13 @@ export function GovBondsBootstrapping() {
   const [selectedCurrency, setSelectedCurrency] = useState<string>("");
   const [selectedCountry, setSelectedCountry] = useState<string>("");
   const [selectedMethods, setSelectedMethods] = useState<BootstrapMethod[]>(["linear", "cubic_spline"]);
+  const [nelsonSiegelSettings, setNelsonSiegelSettings] = useState<NelsonSiegelSettings>(DEFAULT_NELSON_SIEGEL_SETTINGS);
+  const [extrapolation, setExtrapolation] = useState<ExtrapolationSettings | undefined>(undefined);
+  const [valuationDateInput, setValuationDateInput] = useState(toISODate(today()));
+  const valuationDate = useMemo(() => parseISODate(valuationDateInput) ?? today(), [valuationDateInput]);
+  const [outputGrid, setOutputGrid] = useState<OutputGrid>({ type: "method" });
+  // Smith-Wilson UFR/convergence overrides, per currency
+  const [smithWilsonOverrides, setSmithWilsonOverrides] = useState<Record<string, SmithWilsonSettings>>({});
   
   const countriesQuery = useCountriesBonds();
   const yieldsQuery = useCountryYields(selectedCountry);
@@ -110,6 +140,11 @@ export function GovBondsBootstrapping() {
   const currency = selectedCountryData?.currency || selectedCurrency || "USD";
   const yieldsData = yieldsQuery.data?.data || [];
   
+  const smithWilson = useMemo(
+    () => smithWilsonOverrides[currency] ?? getDefaultSmithWilsonSettings(currency),
+    [smithWilsonOverrides, currency]
+  );
+
   // Check if this is a major currency
   const isMajorCurrency = MAJOR_CURRENCIES.includes(currency);
   
@@ -132,9 +167,24 @@ export function GovBondsBootstrapping() {
     if (bondPoints.length < 2) return [];
     
     return selectedMethods.map(method => 
-      bootstrapBonds(bondPoints, method, currency)
+      bootstrapBonds(bondPoints, method, currency, {
+        valuationDate,
+        smithWilson,
+        nelsonSiegel: nelsonSiegelSettings,
+        extrapolation,
+        outputGrid,
+      })
     );
-  }, [bondPoints, selectedMethods, currency]);
+  }, [bondPoints, selectedMethods, currency, valuationDate, smithWilson, nelsonSiegelSettings, extrapolation, outputGrid]);
+
+  // Swap curve of the same currency, reference for the bond spreads
+  const irsIndex = IRS_INDICES.find(i => i.currency === currency);
+  const irsQuery = useIRSData(irsIndex?.id ?? "");
+  const swapCurve: BootstrapResult | null = useMemo(() => {
+    const swapPoints = buildSwapPoints(irsIndex ? irsQuery.data : undefined);
+    if (swapPoints.length < 2) return null;
+    return bootstrap(swapPoints, [], "quantlib_log_linear", currency, { valuationDate });
+  }, [irsIndex, irsQuery.data, currency, valuationDate]);
   
   const basisConvention = getBasisConvention(currency);
   
@@ -398,6 +448,22 @@ export function GovBondsBootstrapping() {
             </div>
           )}
           
+          {/* Valuation Date */}
+          <div className="flex flex-wrap items-center gap-3">
+            <Label htmlFor="bond-valuation-date" className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+              Date de valorisation
+            </Label>
+            <Input
+              id="bond-valuation-date"
+              type="date"
+              value={valuationDateInput}
+              onChange={(e) => setValuationDateInput(e.target.value)}
+              className="h-8 w-44 text-sm"
+            />
+          </div>
+
+          <OutputGridFields grid={outputGrid} onChange={setOutputGrid} />
+
           {/* Methods */}
           <div className="space-y-3">
             <Label className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
@@ -420,6 +486,27 @@ export function GovBondsBootstrapping() {
                 </div>
               ))}
             </div>
+            {selectedMethods.includes("nelson_siegel") && (
+              <div className="max-w-md">
+                <NelsonSiegelSettingsFields
+                  id="bonds"
+                  settings={nelsonSiegelSettings}
+                  onChange={setNelsonSiegelSettings}
+                />
+              </div>
+            )}
+            <div className="max-w-md">
+              <ExtrapolationSettingsFields id="bonds" settings={extrapolation} onChange={setExtrapolation} />
+            </div>
+            {(selectedMethods.includes("smith_wilson") || extrapolation?.method === "smith_wilson") && (
+              <div className="max-w-md">
+                <SmithWilsonSettingsFields
+                  id="bonds"
+                  settings={smithWilson}
+                  onChange={(settings) => setSmithWilsonOverrides((prev) => ({ ...prev, [currency]: settings }))}
+                />
+              </div>
+            )}
           </div>
           
           {/* Summary */}
@@ -431,8 +518,8 @@ export function GovBondsBootstrapping() {
               </div>
               <div className="flex items-center gap-2">
                 <span className="text-muted-foreground">Convention ({currency}):</span>
-                <Badge variant="outline">{basisConvention.dayCount}</Badge>
                 <Badge variant="outline">{basisConvention.compounding}</Badge>
+                <Badge variant="outline">{basisConvention.paymentFrequency}x/an</Badge>
               </div>
             </div>
           )}
@@ -470,6 +557,9 @@ export function GovBondsBootstrapping() {
           <TabsList>
             <TabsTrigger value="chart">Courbe de Rendement</TabsTrigger>
             <TabsTrigger value="discount_factors">Discount Factors</TabsTrigger>
+            <TabsTrigger value="bond_pricer">Pricer Obligation</TabsTrigger>
+            <TabsTrigger value="carry_roll">Carry / Roll</TabsTrigger>
+            <TabsTrigger value="swap_spreads">Spreads vs Swap</TabsTrigger>
             <TabsTrigger value="input_data">Données Brutes</TabsTrigger>
           </TabsList>
           
@@ -494,9 +584,12 @@ export function GovBondsBootstrapping() {
               {results.map((result) => (
                 <Card key={result.method}>
                   <CardHeader className="flex flex-row items-center justify-between">
-                    <CardTitle className="text-lg capitalize">
-                      {result.method.replace(/_/g, ' ')}
-                    </CardTitle>
+                    <div>
+                      <CardTitle className="text-lg capitalize">
+                        {result.method.replace(/_/g, ' ')}
+                      </CardTitle>
+                      <CurveParameters result={result} />
+                    </div>
                     <Button
                       variant="outline"
                       size="sm"
@@ -507,13 +600,65 @@ export function GovBondsBootstrapping() {
                     </Button>
                   </CardHeader>
                   <CardContent>
-                    <DiscountFactorTable discountFactors={result.discountFactors} />
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                      <div className="lg:col-span-2">
+                        <DiscountFactorTable discountFactors={result.discountFactors} />
+                      </div>
+                      <CurveDiagnosticsPanel diagnostics={result.diagnostics} />
+                    </div>
                   </CardContent>
                 </Card>
               ))}
             </div>
           </TabsContent>
           
+          <TabsContent value="bond_pricer">
+            <Card>
+              <CardHeader>
+                <CardTitle>Pricer Obligation - {selectedCountryData?.country} ({currency})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {/* Remounted on a new market so the conventions and settlement follow */}
+                <BondPricerPanel
+                  key={`${currency}-${valuationDateInput}`}
+                  currency={currency}
+                  valuationDate={valuationDate}
+                  results={results}
+                  yieldsData={yieldsData}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
+          <TabsContent value="carry_roll">
+            <Card>
+              <CardHeader>
+                <CardTitle>Carry et Roll-Down - {selectedCountryData?.country} ({currency})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CarryRollPanel
+                  curves={results.map((result) => ({
+                    id: result.method,
+                    label: BOOTSTRAP_METHODS.find((m) => m.id === result.method)?.name ?? result.method,
+                    discount: result,
+                  }))}
+                  positionLabel="porteur obligation"
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
+          <TabsContent value="swap_spreads">
+            <Card>
+              <CardHeader>
+                <CardTitle>Spreads vs Swap - {selectedCountryData?.country} ({currency})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BondSpreadsPanel currency={currency} yieldsData={yieldsData} swapCurve={swapCurve} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
           <TabsContent value="input_data">
             <Card>
               <CardHeader>
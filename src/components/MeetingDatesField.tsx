@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { parseDateList, toISODate } from "@/lib/dates";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface MeetingDatesFieldProps {
+  id: string;
+  label: string; // e.g. "Réunions FOMC"
+  dates: Date[];
+  defaultDates: Date[];
+  onChange: (dates: Date[]) => void;
+}
+
+function formatDates(dates: Date[]): string {
+  return dates.map(toISODate).join("\n");
+}
+
+export function MeetingDatesField({ id, label, dates, defaultDates, onChange }: MeetingDatesFieldProps) {
+  const [text, setText] = useState(() => formatDates(dates));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`meetings-${id}`} className="text-xs text-muted-foreground">
+          {label} ({dates.length})
+        </Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => {
+            setText(formatDates(defaultDates));
+            onChange(defaultDates);
+          }}
+        >
+          Calendrier par défaut
+        </Button>
+      </div>
+      <Textarea
+        id={`meetings-${id}`}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange(parseDateList(e.target.value));
+        }}
+        placeholder="YYYY-MM-DD, une date par ligne"
+        className="h-24 font-mono text-xs"
+      />
+    </div>
+  );
+}
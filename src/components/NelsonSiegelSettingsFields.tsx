@@ -0,0 +1,71 @@
+import { NelsonSiegelSettings, NelsonSiegelWeighting } from "@/lib/bootstrapping";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface NelsonSiegelSettingsFieldsProps {
+  id: string;
+  settings: NelsonSiegelSettings;
+  onChange: (settings: NelsonSiegelSettings) => void;
+}
+
+const DEFAULT_FIXED_LAMBDA = 0.6;
+
+export function NelsonSiegelSettingsFields({ id, settings, onChange }: NelsonSiegelSettingsFieldsProps) {
+  const lambdaFixed = settings.fixedLambda !== undefined;
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Pondération Nelson-Siegel</Label>
+        <Select
+          value={settings.weighting}
+          onValueChange={(value) => onChange({ ...settings, weighting: value as NelsonSiegelWeighting })}
+        >
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="equal">Égale</SelectItem>
+            <SelectItem value="duration">Duration²</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id={`ns-fixed-${id}`}
+            checked={lambdaFixed}
+            onCheckedChange={(checked) =>
+              onChange({ ...settings, fixedLambda: checked === true ? DEFAULT_FIXED_LAMBDA : undefined })
+            }
+          />
+          <Label htmlFor={`ns-fixed-${id}`} className="text-xs text-muted-foreground">λ fixe</Label>
+        </div>
+        {lambdaFixed && (
+          <Input
+            type="number"
+            step="0.05"
+            min="0.05"
+            max="3"
+            value={settings.fixedLambda}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (!isNaN(value) && value > 0) {
+                onChange({ ...settings, fixedLambda: value });
+              }
+            }}
+            className="h-7 text-xs"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
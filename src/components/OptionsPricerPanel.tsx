@@ -0,0 +1,341 @@
+import { useMemo, useState } from "react";
+import { toISODate } from "@/lib/dates";
+import {
+  CapFloorValuation,
+  impliedVol,
+  priceCapFloor,
+  priceSwaption,
+  SwaptionValuation,
+  VolatilitySpec,
+  VolModel,
+  VolQuote,
+} from "@/lib/options";
+import { PricingCurve } from "./SwapPricerPanel";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface OptionsPricerPanelProps {
+  curves: PricingCurve[];
+}
+
+type OptionProduct = "cap" | "floor" | "payer" | "receiver";
+
+const PRODUCT_OPTIONS: { id: OptionProduct; name: string }[] = [
+  { id: "cap", name: "Cap" },
+  { id: "floor", name: "Floor" },
+  { id: "payer", name: "Swaption payeuse" },
+  { id: "receiver", name: "Swaption receveuse" },
+];
+
+// Vol inputs: % for Black, bp for Bachelier
+const VOL_INPUT_SCALE: Record<VolModel, number> = { black: 100, bachelier: 10000 };
+const DEFAULT_VOL_INPUT: Record<VolModel, string> = { black: "30", bachelier: "80" };
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("fr-FR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Smile lines "strike %; vol" (vol in the model's input unit)
+ */
+function parseSmile(text: string, model: VolModel): VolQuote[] {
+  const quotes: VolQuote[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const [strike, vol] = line.split(/[;,\t]/).map((field) => parseFloat(field));
+    if (!isNaN(strike) && !isNaN(vol) && vol > 0) {
+      quotes.push({ strike: strike / 100, vol: vol / VOL_INPUT_SCALE[model] });
+    }
+  }
+  return quotes;
+}
+
+export function OptionsPricerPanel({ curves }: OptionsPricerPanelProps) {
+  const [curveId, setCurveId] = useState(curves[0]?.id ?? "");
+  const curve = curves.find((c) => c.id === curveId) ?? curves[0];
+
+  const [product, setProduct] = useState<OptionProduct>("cap");
+  const [model, setModel] = useState<VolModel>("bachelier");
+  const [shiftBp, setShiftBp] = useState("100");
+  const [notional, setNotional] = useState("10000000");
+  const [strikeInput, setStrikeInput] = useState("3");
+  const [startMonths, setStartMonths] = useState("0");
+  const [maturityYears, setMaturityYears] = useState("5");
+  const [expiryYears, setExpiryYears] = useState("1");
+  const [tenorYears, setTenorYears] = useState("5");
+  const [volInput, setVolInput] = useState(DEFAULT_VOL_INPUT.bachelier);
+  const [smileText, setSmileText] = useState("");
+  const [targetPremium, setTargetPremium] = useState("");
+
+  const isCapFloor = product === "cap" || product === "floor";
+  const indexTenorMonths = curve
+    ? curve.indexTenorMonths ?? Math.round(12 / curve.discount.basisConvention.floatFrequency)
+    : 3;
+
+  const vols: VolatilitySpec = useMemo(() => ({
+    model,
+    shift: model === "black" ? (parseFloat(shiftBp) || 0) / 10000 : 0,
+    flatVol: (parseFloat(volInput) || 0) / VOL_INPUT_SCALE[model],
+    smile: parseSmile(smileText, model),
+  }), [model, shiftBp, volInput, smileText]);
+
+  // Premium at given vols, null when inputs are incomplete
+  const priceAt = useMemo(() => {
+    if (!curve) return null;
+    const amount = parseFloat(notional);
+    const strike = parseFloat(strikeInput) / 100;
+    if (isNaN(amount) || isNaN(strike)) return null;
+
+    if (product === "cap" || product === "floor") {
+      const start = parseInt(startMonths, 10);
+      const maturity = Math.round(parseFloat(maturityYears) * 12);
+      if (isNaN(start) || isNaN(maturity)) return null;
+      return (spec: VolatilitySpec): CapFloorValuation | SwaptionValuation | null => priceCapFloor(
+        { type: product, notional: amount, strike, startMonths: start, maturityMonths: maturity, frequency: 12 / indexTenorMonths },
+        spec,
+        curve.discount,
+        curve.forecast
+      );
+    }
+
+    const expiry = Math.round(parseFloat(expiryYears) * 12);
+    const tenor = parseFloat(tenorYears);
+    if (isNaN(expiry) || isNaN(tenor)) return null;
+    return (spec: VolatilitySpec): CapFloorValuation | SwaptionValuation | null => priceSwaption(
+      { type: product, notional: amount, strike, expiryMonths: expiry, tenorYears: tenor },
+      spec,
+      curve.discount,
+      curve.forecast
+    );
+  }, [curve, product, notional, strikeInput, startMonths, maturityYears, expiryYears, tenorYears, indexTenorMonths]);
+
+  const valuation = useMemo(() => (priceAt ? priceAt(vols) : null), [priceAt, vols]);
+
+  const implied = useMemo(() => {
+    const premium = parseFloat(targetPremium);
+    if (!priceAt || isNaN(premium)) return null;
+    // Flat vol: the smile is ignored when inverting
+    return impliedVol(premium, (vol) => priceAt({ ...vols, flatVol: vol, smile: [] }), model);
+  }, [priceAt, targetPremium, vols, model]);
+
+  if (!curve) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Aucune courbe disponible
+      </div>
+    );
+  }
+
+  const volUnitLabel = model === "black" ? "%" : "bp";
+  const amount = parseFloat(notional);
+
+  const numberField = (id: string, label: string, value: string, onChange: (value: string) => void, step = "1") => (
+    <div className="space-y-1">
+      <Label htmlFor={`opt-${id}`} className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        id={`opt-${id}`}
+        type="number"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-8 text-xs"
+      />
+    </div>
+  );
+
+  const metric = (label: string, value: string) => (
+    <div className="p-3 rounded-lg bg-muted/50">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="font-mono text-sm">{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Trade and vols */}
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Courbe</Label>
+          <Select value={curve.id} onValueChange={setCurveId}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {curves.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Produit</Label>
+            <Select value={product} onValueChange={(value) => setProduct(value as OptionProduct)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRODUCT_OPTIONS.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Modèle</Label>
+            <Select
+              value={model}
+              onValueChange={(value) => {
+                setModel(value as VolModel);
+                setVolInput(DEFAULT_VOL_INPUT[value as VolModel]);
+                setSmileText("");
+              }}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="black">Black-76 (shifted)</SelectItem>
+                <SelectItem value="bachelier">Bachelier (normal)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {numberField("notional", "Nominal", notional, setNotional, "1000000")}
+          {numberField("strike", "Strike (%)", strikeInput, setStrikeInput, "0.05")}
+        </div>
+
+        {isCapFloor ? (
+          <div className="grid grid-cols-2 gap-2">
+            {numberField("start", "Départ (mois)", startMonths, setStartMonths)}
+            {numberField("maturity", "Maturité (Y)", maturityYears, setMaturityYears)}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {numberField("expiry", "Expiry (Y)", expiryYears, setExpiryYears, "0.25")}
+            {numberField("tenor", "Tenor swap (Y)", tenorYears, setTenorYears)}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          {numberField("vol", `Vol plate (${volUnitLabel})`, volInput, setVolInput, model === "black" ? "0.5" : "1")}
+          {model === "black"
+            ? numberField("shift", "Shift (bp)", shiftBp, setShiftBp, "10")
+            : <div />}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="opt-smile" className="text-xs text-muted-foreground">
+            Smile (optionnel, remplace la vol plate)
+          </Label>
+          <Textarea
+            id="opt-smile"
+            value={smileText}
+            onChange={(e) => setSmileText(e.target.value)}
+            placeholder={`Strike %;vol ${volUnitLabel}, une ligne par strike`}
+            className="h-20 font-mono text-xs"
+          />
+        </div>
+      </div>
+
+      {/* Valuation */}
+      <div className="lg:col-span-2 space-y-4">
+        {!valuation ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Paramètres incomplets
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {metric("Prime", formatAmount(valuation.premium))}
+              {metric("Prime (bp du nominal)", ((valuation.premium / amount) * 10000).toFixed(2))}
+              {"forward" in valuation
+                ? metric("Taux swap forward", `${(valuation.forward * 100).toFixed(4)}%`)
+                : metric("Taux ATM", `${(valuation.atmRate * 100).toFixed(4)}%`)}
+              {"annuity" in valuation
+                ? metric("Annuité", valuation.annuity.toFixed(4))
+                : metric("Caplets", String(valuation.caplets.length))}
+              {metric("Delta (/bp)", formatAmount(valuation.delta))}
+              {metric("Gamma (/bp²)", valuation.gamma.toFixed(4))}
+              {metric(`Vega (/1${volUnitLabel})`, formatAmount(valuation.vega))}
+              {metric("Theta (1j)", formatAmount(valuation.theta))}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3 pt-4 border-t">
+              <div className="space-y-1">
+                <Label htmlFor="opt-target-premium" className="text-xs text-muted-foreground">
+                  Prime de marché
+                </Label>
+                <Input
+                  id="opt-target-premium"
+                  type="number"
+                  value={targetPremium}
+                  onChange={(e) => setTargetPremium(e.target.value)}
+                  className="h-8 w-44 text-xs"
+                />
+              </div>
+              <p className="text-sm">
+                Vol implicite :{" "}
+                <span className="font-mono">
+                  {targetPremium === ""
+                    ? "—"
+                    : implied === null
+                      ? "hors bornes"
+                      : `${(implied * VOL_INPUT_SCALE[model]).toFixed(model === "black" ? 3 : 2)} ${volUnitLabel}`}
+                </span>
+              </p>
+            </div>
+
+            {"caplets" in valuation && (
+              <ScrollArea className="h-[320px]">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-card z-10">
+                    <tr className="border-b border-border">
+                      <th className="py-2 px-2 text-left font-medium text-muted-foreground">Fixing</th>
+                      <th className="py-2 px-2 text-left font-medium text-muted-foreground">Paiement</th>
+                      <th className="py-2 px-2 text-right font-medium text-muted-foreground">Forward (%)</th>
+                      <th className="py-2 px-2 text-right font-medium text-muted-foreground">Vol ({volUnitLabel})</th>
+                      <th className="py-2 px-2 text-right font-medium text-muted-foreground">DF</th>
+                      <th className="py-2 px-2 text-right font-medium text-muted-foreground">Prime</th>
+                      <th className="py-2 px-2 text-right font-medium text-muted-foreground">Vega</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {valuation.caplets.map((caplet) => (
+                      <tr key={caplet.fixingDate.getTime()} className="border-b border-border/50 hover:bg-muted/50">
+                        <td className="py-1.5 px-2 font-mono">{toISODate(caplet.fixingDate)}</td>
+                        <td className="py-1.5 px-2 font-mono">{toISODate(caplet.paymentDate)}</td>
+                        <td className="py-1.5 px-2 text-right font-mono">{(caplet.forward * 100).toFixed(4)}</td>
+                        <td className="py-1.5 px-2 text-right font-mono">
+                          {(caplet.vol * VOL_INPUT_SCALE[model]).toFixed(2)}
+                        </td>
+                        <td className="py-1.5 px-2 text-right font-mono">{caplet.discountFactor.toFixed(6)}</td>
+                        <td className="py-1.5 px-2 text-right font-mono">{formatAmount(caplet.premium)}</td>
+                        <td className="py-1.5 px-2 text-right font-mono">{formatAmount(caplet.vega)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </ScrollArea>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
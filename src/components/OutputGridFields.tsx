@@ -0,0 +1,96 @@
+import { useRef, useState } from "react";
+import { OutputGrid, OutputGridType } from "@/lib/bootstrapping";
+import { parseDateList } from "@/lib/dates";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Upload } from "lucide-react";
+
+interface OutputGridFieldsProps {
+  grid: OutputGrid;
+  onChange: (grid: OutputGrid) => void;
+}
+
+const GRID_OPTIONS: { id: OutputGridType; name: string }[] = [
+  { id: "method", name: "Grille de la méthode" },
+  { id: "standard", name: "Ténors standards (1W, 1M, 3M…)" },
+  { id: "monthly", name: "Mensuelle" },
+  { id: "weekly", name: "Hebdomadaire" },
+  { id: "dates", name: "Dates personnalisées" },
+];
+
+export function OutputGridFields({ grid, onChange }: OutputGridFieldsProps) {
+  const [datesText, setDatesText] = useState("");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const updateDates = (text: string) => {
+    setDatesText(text);
+    onChange({ type: "dates", dates: parseDateList(text) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <Label className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Grille de sortie
+        </Label>
+        <Select
+          value={grid.type}
+          onValueChange={(value) =>
+            value === "dates"
+              ? onChange({ type: "dates", dates: parseDateList(datesText) })
+              : onChange({ type: value as OutputGridType })
+          }
+        >
+          <SelectTrigger className="h-8 w-64 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GRID_OPTIONS.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {grid.type === "dates" && (
+          <>
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => fileInput.current?.click()}>
+              <Upload className="w-3 h-3 mr-1" />
+              Importer CSV
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.txt"
+              className="hidden"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (file) updateDates(await file.text());
+                e.target.value = "";
+              }}
+            />
+            <span className="text-xs text-muted-foreground">
+              {grid.dates?.length ?? 0} date(s)
+            </span>
+          </>
+        )}
+      </div>
+      {grid.type === "dates" && (
+        <Textarea
+          value={datesText}
+          onChange={(e) => updateDates(e.target.value)}
+          placeholder="Coller des dates (YYYY-MM-DD ou DD/MM/YYYY), une par ligne"
+          className="h-24 max-w-xl font-mono text-xs"
+        />
+      )}
+    </div>
+  );
+}
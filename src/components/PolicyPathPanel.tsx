@@ -0,0 +1,187 @@
+import { useMemo, useState } from "react";
+import { FuturesData, RateIndex } from "@/lib/rateIndices";
+import { futuresRateToContinuous, getBasisConvention, priceToRate } from "@/lib/bootstrapping";
+import { futuresContractDates, toISODate, today } from "@/lib/dates";
+import { fitPolicyPath, getCentralBankSchedule, getDefaultMeetingDates, PolicyFuture } from "@/lib/policyPath";
+import { MeetingDatesField } from "./MeetingDatesField";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+} from "recharts";
+
+interface PolicyPathPanelProps {
+  data: FuturesData[];
+  rateIndex: RateIndex;
+}
+
+const DIRECTION_LABELS = {
+  hike: "Hausse",
+  cut: "Baisse",
+  hold: "Statu quo",
+};
+
+export function PolicyPathPanel({ data, rateIndex }: PolicyPathPanelProps) {
+  const schedule = getCentralBankSchedule(rateIndex.currency);
+  const defaultDates = useMemo(() => getDefaultMeetingDates(rateIndex.currency), [rateIndex.currency]);
+  const [meetingDates, setMeetingDates] = useState<Date[]>(defaultDates);
+
+  const path = useMemo(() => {
+    const basis = getBasisConvention(rateIndex.currency);
+    const contractMonths = rateIndex.contractMonths ?? 3;
+    const futures: PolicyFuture[] = [];
+    data.forEach((item) => {
+      const price = parseFloat(item.latest.replace(/[^0-9.-]/g, ""));
+      const dates = futuresContractDates(item.maturity, contractMonths);
+      if (isNaN(price) || !dates) return;
+      futures.push({
+        label: item.maturity,
+        startDate: dates.start,
+        endDate: dates.end,
+        rate: futuresRateToContinuous(priceToRate(price), basis, dates.start, dates.end),
+      });
+    });
+
+    return fitPolicyPath(futures, meetingDates, today(), {
+      effectiveLagDays: schedule?.effectiveLagDays,
+      dayBasis: basis.moneyMarketDayCount === "ACT/360" ? 360 : 365,
+    });
+  }, [data, rateIndex, meetingDates, schedule]);
+
+  const chartData = useMemo(() => {
+    if (!path) return [];
+    return [
+      { date: "Actuel", rate: path.currentRate * 100 },
+      ...path.meetings.map((m) => ({ date: toISODate(m.date), rate: m.rateAfter * 100 })),
+    ];
+  }, [path]);
+
+  if (!schedule) return null;
+
+  const chartConfig = {
+    rate: {
+      label: "Taux implicite (%)",
+      color: "hsl(var(--primary))",
+    },
+  };
+
+  return (
+    <section className="mt-6 bg-card rounded-lg border border-border overflow-hidden shadow-lg">
+      <div className="p-4 border-b border-border bg-secondary/20">
+        <h2 className="text-lg font-semibold text-foreground">
+          Trajectoire implicite {schedule.bank}
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Taux directeur implicite après chaque réunion, résolu sur les futures (forwards constants entre réunions)
+        </p>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          {!path || path.meetings.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Pas de réunion couverte par les futures
+            </div>
+          ) : (
+            <>
+              <ChartContainer config={chartConfig} className="h-[260px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 40 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.5} />
+                    <XAxis
+                      dataKey="date"
+                      tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+                      angle={-45}
+                      textAnchor="end"
+                      height={50}
+                    />
+                    <YAxis
+                      domain={["auto", "auto"]}
+                      tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                      tickFormatter={(value) => `${Number(value).toFixed(2)}%`}
+                    />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent formatter={(value) => [`${Number(value).toFixed(3)}%`, "Taux implicite"]} />
+                      }
+                    />
+                    <Line
+                      type="stepAfter"
+                      dataKey="rate"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                      dot={{ r: 3, fill: "hsl(var(--primary))" }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </ChartContainer>
+
+              <ScrollArea className="h-[280px]">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-card z-10">
+                    <tr className="border-b border-border">
+                      <th className="py-2 px-2 text-left font-medium text-muted-foreground">Réunion</th>
+                      <th className="py-2 px-2 text-right font-medium text-muted-foreground">Taux (%)</th>
+                      <th className="py-2 px-2 text-right font-medium text-muted-foreground">Δ (bp)</th>
+                      <th className="py-2 px-2 text-right font-medium text-muted-foreground">Cumul (bp)</th>
+                      <th className="py-2 px-2 text-right font-medium text-muted-foreground">Proba 25bp</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="border-b border-border/50">
+                      <td className="py-1.5 px-2 text-muted-foreground">Actuel</td>
+                      <td className="py-1.5 px-2 text-right font-mono">{(path.currentRate * 100).toFixed(3)}</td>
+                      <td colSpan={3} />
+                    </tr>
+                    {path.meetings.map((m) => (
+                      <tr key={m.date.getTime()} className="border-b border-border/50 hover:bg-muted/50">
+                        <td className="py-1.5 px-2 font-mono">{toISODate(m.date)}</td>
+                        <td className="py-1.5 px-2 text-right font-mono">{(m.rateAfter * 100).toFixed(3)}</td>
+                        <td className="py-1.5 px-2 text-right font-mono">
+                          {m.changeBp >= 0 ? "+" : ""}
+                          {m.changeBp.toFixed(1)}
+                        </td>
+                        <td className="py-1.5 px-2 text-right font-mono">
+                          {m.cumulativeBp >= 0 ? "+" : ""}
+                          {m.cumulativeBp.toFixed(1)}
+                        </td>
+                        <td className="py-1.5 px-2 text-right">
+                          <Badge
+                            variant={m.direction === "hike" ? "default" : m.direction === "cut" ? "secondary" : "outline"}
+                            className="text-xs"
+                          >
+                            {m.direction === "hold"
+                              ? DIRECTION_LABELS.hold
+                              : `${(m.moveProbability * 100).toFixed(0)}% ${DIRECTION_LABELS[m.direction]}`}
+                          </Badge>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </ScrollArea>
+            </>
+          )}
+        </div>
+
+        <MeetingDatesField
+          id={rateIndex.id}
+          label={`Réunions ${schedule.bank}`}
+          dates={meetingDates}
+          defaultDates={defaultDates}
+          onChange={setMeetingDates}
+        />
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,257 @@
+import { useMemo, useState } from "react";
+import { BootstrapPoint, BootstrapResult } from "@/lib/bootstrapping";
+import {
+  applyShock,
+  CurveShock,
+  getIrrbbShockSizes,
+  IRRBB_SCENARIOS,
+  IrrbbScenario,
+  parseShockBumps,
+  scenarioChanges,
+  shockAt,
+  ShockTarget,
+} from "@/lib/scenarios";
+import { DEFAULT_KEY_RATE_TENORS } from "@/lib/risk";
+import { BootstrapCurveChart } from "./BootstrapCurveChart";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ScenarioPanelProps {
+  curves: { result: BootstrapResult; label: string }[];
+  inputPoints: BootstrapPoint[];
+  rebuild: (result: BootstrapResult, inputs: BootstrapPoint[]) => BootstrapResult;
+}
+
+type ShockKind = CurveShock["kind"];
+
+const SHOCK_KINDS: { id: ShockKind; name: string }[] = [
+  { id: "parallel", name: "Parallèle" },
+  { id: "twist", name: "Pentification / aplatissement" },
+  { id: "butterfly", name: "Butterfly" },
+  { id: "custom", name: "Personnalisé" },
+  { id: "irrbb", name: "IRRBB (Bâle)" },
+];
+
+const SHOCK_TARGETS: { id: ShockTarget; name: string }[] = [
+  { id: "inputs", name: "Inputs de marché" },
+  { id: "zero", name: "Taux zéro" },
+];
+
+const DEFAULT_CUSTOM_BUMPS = "2Y;10\n5Y;0\n10Y;-10\n30Y;-10";
+
+function formatTenor(tenor: number): string {
+  return tenor < 1 ? `${Math.round(tenor * 12)}M` : `${tenor.toFixed(tenor % 1 === 0 ? 0 : 2)}Y`;
+}
+
+function formatBp(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+export function ScenarioPanel({ curves, inputPoints, rebuild }: ScenarioPanelProps) {
+  const [kind, setKind] = useState<ShockKind>("parallel");
+  const [target, setTarget] = useState<ShockTarget>("inputs");
+  const [sizeInput, setSizeInput] = useState("100");
+  const [pivotInput, setPivotInput] = useState("5");
+  const [bumpsText, setBumpsText] = useState(DEFAULT_CUSTOM_BUMPS);
+  const [irrbbScenario, setIrrbbScenario] = useState<IrrbbScenario>("parallel_up");
+
+  const currency = curves[0]?.result.currency ?? "";
+  const irrbbSizes = getIrrbbShockSizes(currency);
+
+  const shock: CurveShock | null = useMemo(() => {
+    const sizeBp = parseFloat(sizeInput);
+    const pivot = parseFloat(pivotInput);
+    switch (kind) {
+      case "parallel":
+        return isNaN(sizeBp) ? null : { kind, sizeBp };
+      case "twist":
+        return isNaN(sizeBp) || isNaN(pivot) ? null : { kind, sizeBp, pivot };
+      case "butterfly":
+        return isNaN(sizeBp) || isNaN(pivot) || pivot <= 0 ? null : { kind, sizeBp, belly: pivot };
+      case "custom": {
+        const bumps = parseShockBumps(bumpsText);
+        return bumps.length === 0 ? null : { kind, bumps };
+      }
+      case "irrbb":
+        return { kind, scenario: irrbbScenario };
+    }
+  }, [kind, sizeInput, pivotInput, bumpsText, irrbbScenario]);
+
+  const shocked = useMemo(
+    () => (shock
+      ? curves.map(({ result }) => applyShock(result, shock, target, (inputs) => rebuild(result, inputs)))
+      : []),
+    [curves, shock, target, rebuild]
+  );
+
+  const changes = useMemo(
+    () => shocked.map((curve, i) => scenarioChanges(curves[i].result, curve)),
+    [curves, shocked]
+  );
+
+  if (curves.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Aucune courbe disponible
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1 w-64">
+          <Label className="text-xs text-muted-foreground">Scénario</Label>
+          <Select value={kind} onValueChange={(value) => setKind(value as ShockKind)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SHOCK_KINDS.map((k) => (
+                <SelectItem key={k.id} value={k.id}>
+                  {k.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {(kind === "parallel" || kind === "twist" || kind === "butterfly") && (
+          <div className="space-y-1 w-28">
+            <Label className="text-xs text-muted-foreground">
+              {kind === "twist" ? "Pente 0-30Y (bp)" : "Choc (bp)"}
+            </Label>
+            <Input
+              type="number"
+              step="5"
+              value={sizeInput}
+              onChange={(e) => setSizeInput(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+        )}
+
+        {(kind === "twist" || kind === "butterfly") && (
+          <div className="space-y-1 w-28">
+            <Label className="text-xs text-muted-foreground">
+              {kind === "twist" ? "Pivot (années)" : "Ventre (années)"}
+            </Label>
+            <Input
+              type="number"
+              step="1"
+              min="0"
+              value={pivotInput}
+              onChange={(e) => setPivotInput(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+        )}
+
+        {kind === "irrbb" && (
+          <div className="space-y-1 w-56">
+            <Label className="text-xs text-muted-foreground">Choc standard</Label>
+            <Select value={irrbbScenario} onValueChange={(value) => setIrrbbScenario(value as IrrbbScenario)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IRRBB_SCENARIOS.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Appliqué aux</Label>
+          <div className="flex gap-1">
+            {SHOCK_TARGETS.map((t) => (
+              <Button
+                key={t.id}
+                variant={t.id === target ? "default" : "outline"}
+                size="sm"
+                className="h-8"
+                onClick={() => setTarget(t.id)}
+              >
+                {t.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {kind === "custom" && (
+        <div className="space-y-1 max-w-xs">
+          <Label className="text-xs text-muted-foreground">Chocs par tenor</Label>
+          <Textarea
+            value={bumpsText}
+            onChange={(e) => setBumpsText(e.target.value)}
+            placeholder="Tenor;bp, un choc par ligne (ex. 2Y;10 ou 6M;-5)"
+            className="h-28 font-mono text-xs"
+          />
+        </div>
+      )}
+
+      {kind === "irrbb" && (
+        <p className="text-xs text-muted-foreground">
+          Chocs {currency} : parallèle {irrbbSizes.parallel}bp, court {irrbbSizes.short}bp, long {irrbbSizes.long}bp
+        </p>
+      )}
+
+      <BootstrapCurveChart
+        results={curves.map((c) => c.result)}
+        inputPoints={inputPoints}
+        shockedResults={shocked}
+        showInputPoints={false}
+      />
+
+      {shock && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="py-2 px-2 text-left font-medium text-muted-foreground">Tenor</th>
+                <th className="py-2 px-2 text-right font-medium text-muted-foreground">Choc (bp)</th>
+                {curves.map((c) => (
+                  <th key={c.result.method} className="py-2 px-2 text-right font-medium text-muted-foreground">
+                    Δ zéro {c.label} (bp)
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {DEFAULT_KEY_RATE_TENORS.map((tenor, row) => (
+                <tr key={tenor} className="border-b border-border/50 hover:bg-muted/50">
+                  <td className="py-1.5 px-2 font-medium">{formatTenor(tenor)}</td>
+                  <td className="py-1.5 px-2 text-right font-mono">{formatBp(shockAt(shock, tenor, currency))}</td>
+                  {changes.map((curveChanges, i) => (
+                    <td key={curves[i].result.method} className="py-1.5 px-2 text-right font-mono">
+                      {formatBp(curveChanges[row].changeBp)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-muted-foreground">
+            {target === "inputs"
+              ? "Inputs choqués au tenor de chaque instrument, courbe reconstruite avec la même méthode"
+              : "Choc ajouté directement aux taux zéro (continus) de la courbe"}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
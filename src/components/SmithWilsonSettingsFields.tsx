@@ -0,0 +1,49 @@
+import { SmithWilsonSettings } from "@/lib/smithWilson";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface SmithWilsonSettingsFieldsProps {
+  id: string;
+  settings: SmithWilsonSettings;
+  onChange: (settings: SmithWilsonSettings) => void;
+}
+
+export function SmithWilsonSettingsFields({ id, settings, onChange }: SmithWilsonSettingsFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-1">
+        <Label htmlFor={`sw-ufr-${id}`} className="text-xs text-muted-foreground">UFR Smith-Wilson (%)</Label>
+        <Input
+          id={`sw-ufr-${id}`}
+          type="number"
+          step="0.05"
+          value={Math.round(settings.ufr * 100 * 10000) / 10000}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value);
+            if (!isNaN(value) && value > -100) {
+              onChange({ ...settings, ufr: value / 100 });
+            }
+          }}
+          className="h-7 text-xs"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`sw-cp-${id}`} className="text-xs text-muted-foreground">Point de convergence (Y)</Label>
+        <Input
+          id={`sw-cp-${id}`}
+          type="number"
+          step="5"
+          min="1"
+          value={settings.convergenceTenor}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value);
+            if (!isNaN(value) && value > 0) {
+              onChange({ ...settings, convergenceTenor: value });
+            }
+          }}
+          className="h-7 text-xs"
+        />
+      </div>
+    </div>
+  );
+}
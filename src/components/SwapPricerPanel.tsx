@@ -0,0 +1,349 @@
+import { useMemo, useState } from "react";
+import { BootstrapResult } from "@/lib/bootstrapping";
+import { businessDayPredicate } from "@/lib/calendars";
+import { addMonths, parseISODate, spotDate, toISODate } from "@/lib/dates";
+import { DAY_COUNT_CONVENTIONS, DayCountConvention } from "@/lib/dayCount";
+import { defaultSwapTrade, priceSwap, SwapDirection, SwapTrade } from "@/lib/swapPricer";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export interface PricingCurve {
+  id: string;
+  label: string;                // e.g. "Linéaire EUR — Euribor 3M"
+  discount: BootstrapResult;
+  forecast?: BootstrapResult;   // projection curve (dual-curve), discount curve if omitted
+  indexTenorMonths?: number;    // tenor of the projected index
+}
+
+interface SwapPricerPanelProps {
+  curves: PricingCurve[];
+}
+
+const FREQUENCY_OPTIONS = [
+  { value: 1, name: "Annuelle" },
+  { value: 2, name: "Semestrielle" },
+  { value: 4, name: "Trimestrielle" },
+  { value: 12, name: "Mensuelle" },
+];
+
+const DEFAULT_MATURITY_MONTHS = 120;
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("fr-FR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function initialTrade(curve: PricingCurve): SwapTrade {
+  const result = curve.discount;
+  const start = spotDate(
+    result.valuationDate,
+    result.basisConvention.spotLag,
+    businessDayPredicate(result.basisConvention.calendars)
+  );
+  return defaultSwapTrade(result, start, addMonths(start, DEFAULT_MATURITY_MONTHS));
+}
+
+export function SwapPricerPanel({ curves }: SwapPricerPanelProps) {
+  const [curveId, setCurveId] = useState(curves[0]?.id ?? "");
+  const curve = curves.find((c) => c.id === curveId) ?? curves[0];
+  // Untouched trade: spot-starting 10Y on the selected curve
+  const [editedTrade, setTrade] = useState<SwapTrade | null>(null);
+  const trade = editedTrade ?? (curve ? initialTrade(curve) : null);
+
+  const updateTrade = (updates: Partial<SwapTrade>) => {
+    if (trade) setTrade({ ...trade, ...updates });
+  };
+
+  const valuation = useMemo(
+    () => (curve && trade ? priceSwap(trade, curve.discount, curve.forecast) : null),
+    [curve, trade]
+  );
+  const accruingFlow = valuation?.cashFlows.find((cf) => cf.accruing);
+
+  if (!curve || !trade) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Aucune courbe disponible
+      </div>
+    );
+  }
+
+  const dateField = (label: string, field: "startDate" | "maturityDate") => (
+    <div className="space-y-1">
+      <Label htmlFor={`swap-${field}`} className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        id={`swap-${field}`}
+        type="date"
+        value={toISODate(trade[field])}
+        onChange={(e) => {
+          const date = parseISODate(e.target.value);
+          if (date) updateTrade({ [field]: date });
+        }}
+        className="h-8 text-xs"
+      />
+    </div>
+  );
+
+  const legFields = (
+    label: string,
+    frequency: "fixedFrequency" | "floatFrequency",
+    dayCount: "fixedDayCount" | "floatDayCount"
+  ) => (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Fréquence {label}</Label>
+        <Select
+          value={String(trade[frequency])}
+          onValueChange={(value) => updateTrade({ [frequency]: Number(value) })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FREQUENCY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={String(option.value)}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Base {label}</Label>
+        <Select
+          value={trade[dayCount]}
+          onValueChange={(value) => updateTrade({ [dayCount]: value as DayCountConvention })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DAY_COUNT_CONVENTIONS.map((convention) => (
+              <SelectItem key={convention} value={convention}>
+                {convention}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Trade */}
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Courbe</Label>
+          <Select
+            value={curve.id}
+            onValueChange={(id) => {
+              const next = curves.find((c) => c.id === id);
+              setCurveId(id);
+              // Conventions follow the curve's currency; the economics are kept
+              if (next) {
+                const defaults = initialTrade(next);
+                updateTrade({
+                  fixedFrequency: defaults.fixedFrequency,
+                  floatFrequency: defaults.floatFrequency,
+                  fixedDayCount: defaults.fixedDayCount,
+                  floatDayCount: defaults.floatDayCount,
+                });
+              }
+            }}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {curves.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="swap-notional" className="text-xs text-muted-foreground">Nominal</Label>
+            <Input
+              id="swap-notional"
+              type="number"
+              step="1000000"
+              min="0"
+              value={trade.notional}
+              onChange={(e) => {
+                const notional = parseFloat(e.target.value);
+                if (!isNaN(notional) && notional > 0) updateTrade({ notional });
+              }}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Sens</Label>
+            <Select
+              value={trade.direction}
+              onValueChange={(value) => updateTrade({ direction: value as SwapDirection })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="payer">Payeur (paie le fixe)</SelectItem>
+                <SelectItem value="receiver">Receveur (reçoit le fixe)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {dateField("Départ", "startDate")}
+          {dateField("Maturité", "maturityDate")}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="swap-fixed-rate" className="text-xs text-muted-foreground">Taux fixe (%)</Label>
+            <Input
+              id="swap-fixed-rate"
+              type="number"
+              step="0.01"
+              value={+(trade.fixedRate * 100).toFixed(6)}
+              onChange={(e) => {
+                const rate = parseFloat(e.target.value);
+                if (!isNaN(rate)) updateTrade({ fixedRate: rate / 100 });
+              }}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="swap-spread" className="text-xs text-muted-foreground">Spread variable (bp)</Label>
+            <Input
+              id="swap-spread"
+              type="number"
+              step="1"
+              value={+((trade.floatSpread ?? 0) * 10000).toFixed(4)}
+              onChange={(e) => {
+                const spread = parseFloat(e.target.value);
+                if (!isNaN(spread)) updateTrade({ floatSpread: spread / 10000 });
+              }}
+              className="h-8 text-xs"
+            />
+          </div>
+        </div>
+
+        {accruingFlow && (
+          <div className="space-y-1">
+            <Label htmlFor="swap-fixing" className="text-xs text-muted-foreground">
+              Fixing de la période en cours (%)
+            </Label>
+            <Input
+              id="swap-fixing"
+              type="number"
+              step="0.01"
+              placeholder="Projeté sur la courbe"
+              value={trade.currentFixing === undefined ? "" : +(trade.currentFixing * 100).toFixed(6)}
+              onChange={(e) => {
+                const fixing = parseFloat(e.target.value);
+                updateTrade({ currentFixing: isNaN(fixing) ? undefined : fixing / 100 });
+              }}
+              className="h-8 text-xs"
+            />
+          </div>
+        )}
+
+        {legFields("fixe", "fixedFrequency", "fixedDayCount")}
+        {legFields("variable", "floatFrequency", "floatDayCount")}
+      </div>
+
+      {/* Valuation */}
+      <div className="lg:col-span-2 space-y-4">
+        {!valuation ? (
+          <div className="text-center py-8 text-muted-foreground">
+            La maturité doit suivre la date de départ
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">NPV</p>
+                <p className={`font-mono text-sm ${valuation.npv < 0 ? "text-destructive" : ""}`}>
+                  {formatAmount(valuation.npv)}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">Jambe fixe</p>
+                <p className="font-mono text-sm">{formatAmount(valuation.fixedLegPv)}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">Jambe variable</p>
+                <p className="font-mono text-sm">{formatAmount(valuation.floatLegPv)}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">Taux par</p>
+                <p className="font-mono text-sm">{(valuation.parRate * 100).toFixed(4)}%</p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">PV01</p>
+                <p className="font-mono text-sm">{formatAmount(valuation.pv01)}</p>
+              </div>
+            </div>
+
+            <ScrollArea className="h-[400px]">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-card z-10">
+                  <tr className="border-b border-border">
+                    <th className="py-2 px-2 text-left font-medium text-muted-foreground">Jambe</th>
+                    <th className="py-2 px-2 text-left font-medium text-muted-foreground">Début</th>
+                    <th className="py-2 px-2 text-left font-medium text-muted-foreground">Paiement</th>
+                    <th className="py-2 px-2 text-right font-medium text-muted-foreground">Accrual</th>
+                    <th className="py-2 px-2 text-right font-medium text-muted-foreground">Taux (%)</th>
+                    <th className="py-2 px-2 text-right font-medium text-muted-foreground">Montant</th>
+                    <th className="py-2 px-2 text-right font-medium text-muted-foreground">DF</th>
+                    <th className="py-2 px-2 text-right font-medium text-muted-foreground">PV</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {valuation.cashFlows.map((cf, idx) => (
+                    <tr key={`${cf.leg}-${idx}`} className="border-b border-border/50 hover:bg-muted/50">
+                      <td className="py-1.5 px-2">
+                        <Badge variant={cf.leg === "fixed" ? "default" : "secondary"} className="text-xs">
+                          {cf.leg === "fixed" ? "Fixe" : "Variable"}
+                        </Badge>
+                      </td>
+                      <td className="py-1.5 px-2 font-mono">{toISODate(cf.startDate)}</td>
+                      <td className="py-1.5 px-2 font-mono">{toISODate(cf.endDate)}</td>
+                      <td className="py-1.5 px-2 text-right font-mono">{cf.accrual.toFixed(5)}</td>
+                      <td className="py-1.5 px-2 text-right font-mono">{(cf.rate * 100).toFixed(4)}</td>
+                      <td className="py-1.5 px-2 text-right font-mono">{formatAmount(cf.amount)}</td>
+                      <td className="py-1.5 px-2 text-right font-mono">{cf.discountFactor.toFixed(6)}</td>
+                      <td className="py-1.5 px-2 text-right font-mono">{formatAmount(cf.presentValue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+            {accruingFlow && (
+              <p className="text-xs text-muted-foreground">
+                Période variable en cours ({toISODate(accruingFlow.startDate)} → {toISODate(accruingFlow.endDate)}) :
+                {trade.currentFixing !== undefined
+                  ? " coupon au fixing saisi."
+                  : " sans fixing saisi, forward projeté de la date de valorisation au paiement sur la fraction restante de la période et appliqué à toute la période (partie courue au même taux)."}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
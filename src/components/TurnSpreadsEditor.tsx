@@ -0,0 +1,116 @@
+import { generateTurnSpreads, getBasisConvention, TurnSpread } from "@/lib/bootstrapping";
+import { parseISODate, toISODate } from "@/lib/dates";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarRange, Plus, Trash2 } from "lucide-react";
+
+interface TurnSpreadsEditorProps {
+  id: string;
+  currency: string;
+  valuationDate: Date;
+  turns: TurnSpread[];
+  onChange: (turns: TurnSpread[]) => void;
+}
+
+// Prefill: premiums on the next two years of period ends
+const DEFAULT_YEAR_END_BP = 25;
+const DEFAULT_QUARTER_END_BP = 5;
+const DEFAULT_TURN_YEARS = 2;
+
+export function TurnSpreadsEditor({ id, currency, valuationDate, turns, onChange }: TurnSpreadsEditorProps) {
+  const updateTurn = (index: number, updates: Partial<TurnSpread>) => {
+    onChange(turns.map((turn, i) => (i === index ? { ...turn, ...updates } : turn)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground">Effets de fin de période</Label>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            title="Fins d'année et de trimestre des deux prochaines années"
+            onClick={() =>
+              onChange(
+                generateTurnSpreads(
+                  valuationDate,
+                  getBasisConvention(currency),
+                  DEFAULT_TURN_YEARS,
+                  DEFAULT_YEAR_END_BP,
+                  DEFAULT_QUARTER_END_BP
+                )
+              )
+            }
+          >
+            <CalendarRange className="w-3 h-3 mr-1" />
+            Fins de période
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => onChange([...turns, { date: valuationDate, days: 1, spreadBp: DEFAULT_YEAR_END_BP }])}
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Turn
+          </Button>
+        </div>
+      </div>
+      {turns.length > 0 && (
+        <div className="space-y-1">
+          <div className="grid grid-cols-[1fr_3.5rem_4.5rem_1.5rem] gap-1 text-xs text-muted-foreground">
+            <span>Date</span>
+            <span>Jours</span>
+            <span>Spread (bp)</span>
+            <span />
+          </div>
+          {turns.map((turn, index) => (
+            <div key={`${id}-${index}`} className="grid grid-cols-[1fr_3.5rem_4.5rem_1.5rem] gap-1 items-center">
+              <Input
+                type="date"
+                value={toISODate(turn.date)}
+                onChange={(e) => {
+                  const date = parseISODate(e.target.value);
+                  if (date) updateTurn(index, { date });
+                }}
+                className="h-7 text-xs"
+              />
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                value={turn.days ?? 1}
+                onChange={(e) => {
+                  const days = parseInt(e.target.value, 10);
+                  if (!isNaN(days) && days > 0) updateTurn(index, { days });
+                }}
+                className="h-7 text-xs"
+              />
+              <Input
+                type="number"
+                step="1"
+                value={turn.spreadBp}
+                onChange={(e) => {
+                  const spreadBp = parseFloat(e.target.value);
+                  if (!isNaN(spreadBp)) updateTurn(index, { spreadBp });
+                }}
+                className="h-7 text-xs"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => onChange(turns.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
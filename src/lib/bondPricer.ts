@@ -0,0 +1,233 @@
+/**
+ * Fixed-coupon government bond pricer
+ *
+ * Street convention (ISMA/ICMA) on 100 nominal:
+ * - Coupon dates rolled back from maturity (unadjusted), coupon c/f
+ * - Accrued = c/f × accrual fraction of the current period (bond day count;
+ *   ACT/ACT ICMA over the coupon period)
+ * - Dirty = Σ CFₖ / (1 + y/f)^(w + k), w = fraction of the current period
+ *   left to the next coupon (actual days)
+ * - Macaulay = Σ tₖ × PVₖ / Dirty, modified = Macaulay / (1 + y/f),
+ *   convexity = Σ CFₖ (w+k)(w+k+1) / f² / (1 + y/f)^(w+k+2) / Dirty,
+ *   DV01 = modified × Dirty × 1bp
+ *
+ * Curve price: cash flows discounted on a bootstrapped curve and carried to
+ * settlement, Dirty = Σ CFₖ × DF(tₖ) / DF(t_settle). Rich/cheap is the market
+ * yield minus the yield of the curve price (positive: cheap to the curve).
+ */
+
+import { BootstrapResult, discountFactorAt } from './bootstrapping';
+import { businessDayPredicate, CalendarId } from './calendars';
+import { addBusinessDays, addMonths, daysBetween, yearsBetween } from './dates';
+import { DayCountConvention, yearFraction } from './dayCount';
+
+// ============ Types ============
+
+export interface BondSpec {
+  couponRate: number;        // annual coupon, decimal
+  frequency: number;         // coupons per year
+  maturityDate: Date;
+  settlementDate: Date;
+  dayCount: DayCountConvention;
+  redemption?: number;       // per 100 nominal, defaults to 100
+}
+
+export interface BondCashFlow {
+  date: Date;
+  periods: number;           // w + k, coupon periods from settlement
+  amount: number;
+}
+
+export interface BondConvention {
+  frequency: number;
+  dayCount: DayCountConvention;
+  settlementLag: number;     // business days
+  calendars: CalendarId[];
+}
+
+export interface BondAnalytics {
+  cleanPrice: number;
+  dirtyPrice: number;
+  accruedInterest: number;
+  yield: number;             // compounded at the coupon frequency
+  macaulayDuration: number;  // years
+  modifiedDuration: number;
+  convexity: number;
+  dv01: number;              // per 100 nominal
+  previousCoupon: Date;
+  nextCoupon: Date;
+  cashFlows: BondCashFlow[];
+}
+
+export interface CurveBondValuation {
+  cleanPrice: number;
+  dirtyPrice: number;
+  yield: number;             // yield of the curve price
+  richCheapBp: number;       // market − curve yield (positive: cheap)
+  priceDifference: number;   // market − curve clean price
+}
+
+const ONE_BP = 0.0001;
+const YIELD_SOLVER_TOLERANCE = 1e-12;
+const YIELD_SOLVER_MAX_ITERATIONS = 100;
+
+// Government bond market conventions
+const BOND_CONVENTIONS: Record<string, BondConvention> = {
+  USD: { frequency: 2, dayCount: 'ACT/ACT ICMA', settlementLag: 1, calendars: ['USNY'] },
+  EUR: { frequency: 1, dayCount: 'ACT/ACT ICMA', settlementLag: 2, calendars: ['EUTA'] },
+  GBP: { frequency: 2, dayCount: 'ACT/ACT ICMA', settlementLag: 1, calendars: ['GBLO'] },
+  CHF: { frequency: 1, dayCount: '30E/360', settlementLag: 2, calendars: ['CHZU'] },
+  JPY: { frequency: 2, dayCount: 'ACT/365', settlementLag: 2, calendars: ['JPTO'] },
+  CAD: { frequency: 2, dayCount: 'ACT/365', settlementLag: 1, calendars: ['CATO'] },
+  SGD: { frequency: 2, dayCount: 'ACT/ACT ICMA', settlementLag: 1, calendars: ['SGSI'] },
+};
+
+export function getBondConvention(currency: string): BondConvention {
+  return BOND_CONVENTIONS[currency] ?? { frequency: 1, dayCount: 'ACT/ACT ICMA', settlementLag: 2, calendars: [] };
+}
+
+/**
+ * Settlement date of a trade on the valuation date
+ */
+export function bondSettlementDate(valuationDate: Date, currency: string): Date {
+  const convention = getBondConvention(currency);
+  return addBusinessDays(valuationDate, convention.settlementLag, businessDayPredicate(convention.calendars));
+}
+
+// ============ Schedule ============
+
+/**
+ * Current coupon period and the remaining cash flows after settlement
+ */
+export function bondSchedule(bond: BondSpec) {
+  const months = Math.max(1, Math.round(12 / bond.frequency));
+  const coupon = (100 * bond.couponRate) / bond.frequency;
+
+  const dates: Date[] = [];
+  let k = 0;
+  let date = bond.maturityDate;
+  while (date > bond.settlementDate) {
+    dates.unshift(date);
+    k++;
+    date = addMonths(bond.maturityDate, -k * months);
+  }
+  const previousCoupon = date;
+  const nextCoupon = dates[0];
+
+  // Fraction of the current period left to the next coupon (actual days)
+  const w = daysBetween(bond.settlementDate, nextCoupon) / daysBetween(previousCoupon, nextCoupon);
+
+  const cashFlows: BondCashFlow[] = dates.map((d, i) => ({
+    date: d,
+    periods: w + i,
+    amount: coupon + (i === dates.length - 1 ? bond.redemption ?? 100 : 0),
+  }));
+
+  const accruedInterest = coupon * yearFraction(bond.dayCount, previousCoupon, bond.settlementDate, {
+    start: previousCoupon,
+    end: nextCoupon,
+    frequency: bond.frequency,
+  }) * bond.frequency;
+
+  return { previousCoupon, nextCoupon, cashFlows, accruedInterest };
+}
+
+function dirtyPriceFromYield(cashFlows: BondCashFlow[], y: number, frequency: number): number {
+  const base = 1 + y / frequency;
+  return cashFlows.reduce((sum, cf) => sum + cf.amount / Math.pow(base, cf.periods), 0);
+}
+
+/**
+ * Yield (compounded at the coupon frequency) matching a dirty price, Newton
+ */
+function yieldFromDirtyPrice(cashFlows: BondCashFlow[], dirtyPrice: number, frequency: number, guess: number): number {
+  let y = guess;
+  for (let i = 0; i < YIELD_SOLVER_MAX_ITERATIONS; i++) {
+    const base = 1 + y / frequency;
+    let price = 0;
+    let derivative = 0;
+    for (const cf of cashFlows) {
+      const pv = cf.amount / Math.pow(base, cf.periods);
+      price += pv;
+      derivative -= (cf.periods * pv) / (base * frequency);
+    }
+    const step = (price - dirtyPrice) / derivative;
+    y -= step;
+    if (Math.abs(step) < YIELD_SOLVER_TOLERANCE) break;
+  }
+  return y;
+}
+
+// ============ Analytics ============
+
+function analytics(bond: BondSpec, y: number): BondAnalytics | null {
+  if (bond.maturityDate <= bond.settlementDate) return null;
+
+  const { previousCoupon, nextCoupon, cashFlows, accruedInterest } = bondSchedule(bond);
+  const f = bond.frequency;
+  const base = 1 + y / f;
+  const dirtyPrice = dirtyPriceFromYield(cashFlows, y, f);
+
+  let weightedTime = 0;
+  let convexitySum = 0;
+  for (const cf of cashFlows) {
+    const pv = cf.amount / Math.pow(base, cf.periods);
+    weightedTime += (cf.periods / f) * pv;
+    convexitySum += (cf.amount * cf.periods * (cf.periods + 1)) / (f * f * Math.pow(base, cf.periods + 2));
+  }
+
+  const macaulayDuration = weightedTime / dirtyPrice;
+  const modifiedDuration = macaulayDuration / base;
+
+  return {
+    cleanPrice: dirtyPrice - accruedInterest,
+    dirtyPrice,
+    accruedInterest,
+    yield: y,
+    macaulayDuration,
+    modifiedDuration,
+    convexity: convexitySum / dirtyPrice,
+    dv01: modifiedDuration * dirtyPrice * ONE_BP,
+    previousCoupon,
+    nextCoupon,
+    cashFlows,
+  };
+}
+
+export function bondFromYield(bond: BondSpec, y: number): BondAnalytics | null {
+  return analytics(bond, y);
+}
+
+export function bondFromCleanPrice(bond: BondSpec, cleanPrice: number): BondAnalytics | null {
+  if (bond.maturityDate <= bond.settlementDate || cleanPrice <= 0) return null;
+  const { cashFlows, accruedInterest } = bondSchedule(bond);
+  const y = yieldFromDirtyPrice(cashFlows, cleanPrice + accruedInterest, bond.frequency, bond.couponRate);
+  return analytics(bond, y);
+}
+
+/**
+ * Price the bond off a bootstrapped curve and compare with the market yield
+ */
+export function bondFromCurve(bond: BondSpec, curve: BootstrapResult, marketYield: number): CurveBondValuation | null {
+  if (bond.maturityDate <= bond.settlementDate) return null;
+
+  const { cashFlows, accruedInterest } = bondSchedule(bond);
+  const tenorOf = (date: Date) => yearsBetween(curve.valuationDate, date);
+  const settlementDf = discountFactorAt(curve, Math.max(0, tenorOf(bond.settlementDate)));
+
+  const dirtyPrice = cashFlows.reduce(
+    (sum, cf) => sum + cf.amount * discountFactorAt(curve, tenorOf(cf.date)),
+    0
+  ) / settlementDf;
+  const cleanPrice = dirtyPrice - accruedInterest;
+  const curveYield = yieldFromDirtyPrice(cashFlows, dirtyPrice, bond.frequency, marketYield);
+  const market = dirtyPriceFromYield(cashFlows, marketYield, bond.frequency) - accruedInterest;
+
+  return {
+    cleanPrice,
+    dirtyPrice,
+    yield: curveYield,
+    richCheapBp: (marketYield - curveYield) / ONE_BP,
+    priceDifference: market - cleanPrice,
+  };
+}
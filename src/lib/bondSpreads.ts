@@ -0,0 +1,145 @@
+/**
+ * Government bond spreads to the swap curve
+ *
+ * Each quoted benchmark (BondYieldData) is taken as a par bond: coupon equal
+ * to its yield, on the government market's conventions (see bondPricer.ts),
+ * maturing maturityYears after settlement.
+ *
+ * - I-spread   = y − S(T), S the spot par swap rate of the bond's maturity
+ * - Z-spread   = z such that Σ CFₖ × DF(tₖ) e^(−z tₖ) / [DF(t_s) e^(−z t_s)]
+ *                is the market dirty price (continuous, on the swap DFs)
+ * - Par-par asset swap: buy the bond at par, pay its coupons and receive
+ *   floating + ASW on 100 nominal,
+ *   ASW = (P_swap − P_mkt) / (100 × A_float)
+ *   with P_swap the dirty price on the swap curve and A_float the annuity of
+ *   the swap floating leg from settlement to maturity
+ *
+ * Positive spreads: bond cheap to swaps (yield above the swap curve).
+ */
+
+import { BondYieldData } from './api/bonds';
+import { BootstrapResult, discountFactorAt } from './bootstrapping';
+import { bondFromYield, bondSchedule, bondSettlementDate, BondSpec, getBondConvention } from './bondPricer';
+import { businessDayPredicate } from './calendars';
+import { addMonths, generateSchedule, yearsBetween } from './dates';
+import { yearFraction } from './dayCount';
+import { forwardParSwapRate } from './forwardRates';
+
+// ============ Types ============
+
+export interface BondSpreadPoint {
+  maturity: string;          // benchmark label, e.g. "10Y"
+  maturityYears: number;
+  maturityDate: Date;
+  yield: number;             // market yield, decimal
+  dirtyPrice: number;        // market dirty price per 100
+  swapRate: number;          // S(T)
+  iSpreadBp: number;
+  zSpreadBp: number;
+  aswBp: number;
+}
+
+const ONE_BP = 0.0001;
+const Z_SPREAD_TOLERANCE = 1e-12;
+const Z_SPREAD_MAX_ITERATIONS = 100;
+
+// ============ Spreads ============
+
+/**
+ * Z-spread matching a dirty price, Newton
+ */
+function zSpread(
+  cashFlows: { t: number; amount: number }[],
+  curve: BootstrapResult,
+  settlementTenor: number,
+  dirtyPrice: number
+): number {
+  const dfs = cashFlows.map((cf) => discountFactorAt(curve, cf.t));
+  const settlementDf = discountFactorAt(curve, settlementTenor);
+
+  let z = 0;
+  for (let i = 0; i < Z_SPREAD_MAX_ITERATIONS; i++) {
+    let price = 0;
+    let derivative = 0;
+    cashFlows.forEach((cf, k) => {
+      const tau = cf.t - settlementTenor;
+      const pv = (cf.amount * dfs[k] * Math.exp(-z * tau)) / settlementDf;
+      price += pv;
+      derivative -= tau * pv;
+    });
+    const step = (price - dirtyPrice) / derivative;
+    z -= step;
+    if (Math.abs(step) < Z_SPREAD_TOLERANCE) break;
+  }
+  return z;
+}
+
+/**
+ * Annuity of the swap floating leg over [start, end], per unit notional,
+ * discounted to start
+ */
+function floatAnnuity(curve: BootstrapResult, start: Date, end: Date): number {
+  const { floatFrequency, floatDayCount, calendars } = curve.basisConvention;
+  const tenorOf = (date: Date) => yearsBetween(curve.valuationDate, date);
+  const startDf = discountFactorAt(curve, Math.max(0, tenorOf(start)));
+
+  return generateSchedule(start, end, floatFrequency, 'modified_following', businessDayPredicate(calendars))
+    .reduce(
+      (sum, period) => sum + yearFraction(floatDayCount, period.start, period.end) * discountFactorAt(curve, tenorOf(period.end)),
+      0
+    ) / startDf;
+}
+
+export function bondSpreads(
+  yieldsData: BondYieldData[],
+  currency: string,
+  swapCurve: BootstrapResult
+): BondSpreadPoint[] {
+  const convention = getBondConvention(currency);
+  const settlementDate = bondSettlementDate(swapCurve.valuationDate, currency);
+  const settlementTenor = Math.max(0, yearsBetween(swapCurve.valuationDate, settlementDate));
+
+  return yieldsData
+    .filter((y) => y.yield !== null && y.maturityYears > 0)
+    .map((benchmark): BondSpreadPoint | null => {
+      const y = (benchmark.yield as number) / 100;
+      const months = Math.round(benchmark.maturityYears * 12);
+      const bond: BondSpec = {
+        couponRate: y,
+        frequency: convention.frequency,
+        maturityDate: addMonths(settlementDate, months),
+        settlementDate,
+        dayCount: convention.dayCount,
+      };
+      const market = bondFromYield(bond, y);
+      if (!market) return null;
+
+      const cashFlows = bondSchedule(bond).cashFlows.map((cf) => ({
+        t: yearsBetween(swapCurve.valuationDate, cf.date),
+        amount: cf.amount,
+      }));
+      const settlementDf = discountFactorAt(swapCurve, settlementTenor);
+      const swapDirtyPrice = cashFlows.reduce(
+        (sum, cf) => sum + cf.amount * discountFactorAt(swapCurve, cf.t),
+        0
+      ) / settlementDf;
+
+      const swapRate = forwardParSwapRate(swapCurve, 0, months);
+      const z = zSpread(cashFlows, swapCurve, settlementTenor, market.dirtyPrice);
+      const annuity = floatAnnuity(swapCurve, settlementDate, bond.maturityDate);
+
+      return {
+        maturity: benchmark.maturity,
+        maturityYears: benchmark.maturityYears,
+        maturityDate: bond.maturityDate,
+        yield: y,
+        dirtyPrice: market.dirtyPrice,
+        swapRate,
+        iSpreadBp: (y - swapRate) / ONE_BP,
+        zSpreadBp: z / ONE_BP,
+        aswBp: (swapDirtyPrice - market.dirtyPrice) / (100 * annuity) / ONE_BP,
+      };
+    })
+    .filter((point): point is BondSpreadPoint => point !== null && !isNaN(point.zSpreadBp + point.aswBp + point.iSpreadBp))
+    .sort((a, b) => a.maturityYears - b.maturityYears);
+}
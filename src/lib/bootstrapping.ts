@@ -2,25 +2,60 @@
  * Rate Curve Bootstrapping Library
  * 
  * Implements professional bootstrapping methodology:
- * - Swaps are EXACT calibration points (always forced)
+ * - Swaps are EXACT calibration points (par-bootstrapped, always forced)
  * - Futures are GUIDES between swaps (adjusted to avoid arbitrage)
  * - Interest rate basis conventions per currency
  * 
  * Methods:
  * - Simple/Linear interpolation
  * - Cubic Spline interpolation
- * - Nelson-Siegel parametric model
+ * - Nelson-Siegel and Svensson parametric models
+ * - Smith-Wilson (EIOPA) with ultimate forward rate
  */
 
+import {
+  addBusinessDays,
+  addDays,
+  addMonths,
+  adjustDate,
+  daysBetween,
+  makeDate,
+  futuresContractDates,
+  generateSchedule,
+  spotDate,
+  toISODate,
+  today,
+  yearsBetween,
+} from './dates';
+import { DayCountConvention, periodAccrual, yearFraction } from './dayCount';
+import { businessDayPredicate, CalendarId } from './calendars';
+import { ConvexitySettings, hullWhiteConvexityAdjustment } from './convexity';
+import { solveLinearSystem } from './linearAlgebra';
+import { fitPolicyPath, getCentralBankSchedule, getDefaultMeetingDates, policyPathNodes } from './policyPath';
+import {
+  fitSmithWilson,
+  getDefaultSmithWilsonSettings,
+  SmithWilsonInstrument,
+  SmithWilsonParams,
+  SmithWilsonSettings,
+  smithWilsonDiscount,
+} from './smithWilson';
+
+export type { DayCountConvention } from './dayCount';
+
 // ============ Types ============
 
-export type DayCountConvention = 'ACT/360' | 'ACT/365' | 'ACT/ACT' | '30/360';
 export type Compounding = 'simple' | 'annual' | 'semi-annual' | 'quarterly' | 'continuous';
 
 export interface BasisConvention {
-  dayCount: DayCountConvention;
+  fixedDayCount: DayCountConvention;        // swap fixed leg
+  floatDayCount: DayCountConvention;        // swap floating leg
+  moneyMarketDayCount: DayCountConvention;  // deposits, futures, FRAs
   compounding: Compounding;
-  paymentFrequency: number; // per year
+  paymentFrequency: number; // fixed-leg payments per year
+  floatFrequency: number;   // floating-leg payments per year
+  spotLag: number; // business days from valuation to spot
+  calendars: CalendarId[]; // joint settlement calendar for spot and payment dates
 }
 
 export interface BootstrapPoint {
@@ -30,35 +65,162 @@ export interface BootstrapPoint {
   priority: number; // 1 = swap/bond (highest), 2 = futures
   adjusted?: boolean; // true if futures was adjusted
   originalRate?: number; // original rate before adjustment
+  parRate?: number; // market par rate for swaps (rate holds the bootstrapped zero rate)
+  unconverged?: boolean; // par solver could not reprice the swap within tolerance
+  meetingStep?: boolean; // node of the central-bank step curve, never adjusted to the swaps
+  startDate?: Date; // swap spot date / futures accrual start
+  endDate?: Date;   // swap maturity / futures accrual end
+  dayCount?: DayCountConvention; // convention used for the accruals below
+  accruals?: number[]; // swap fixed-leg accrual fractions / futures contract accrual
+  convexityAdjustment?: number; // futures − forward (continuous), removed before blending with swaps
 }
 
 export interface DiscountFactor {
-  tenor: number;
+  tenor: number; // ACT/365F years from the valuation date
+  date?: Date;
   df: number;
   zeroRate: number;
   forwardRate?: number;
-  source: 'swap' | 'futures' | 'interpolated' | 'bond';
+  source: 'swap' | 'futures' | 'interpolated' | 'bond' | 'extrapolated';
+}
+
+export interface SwapRepricing {
+  tenor: number;
+  marketRate: number; // quoted par rate
+  modelRate: number;  // par rate implied by the bootstrapped curve
+  errorBp: number;    // (model - market) in basis points
+}
+
+export interface InstrumentFit {
+  source: 'swap' | 'futures' | 'bond';
+  tenor: number;
+  date?: Date;        // swap maturity / futures accrual start
+  marketRate: number; // quoted rate (par swap rate, futures implied rate, bond yield)
+  modelRate: number;  // same quantity implied by the curve
+  residualBp: number; // (model - market) in basis points
+}
+
+export interface CurveDiagnostics {
+  instruments: InstrumentFit[];
+  rmseBp: number;
+  maxErrorBp: number;
+  negativeForwardTenors: number[]; // output grid tenors with a negative forward
+  nonMonotoneDfTenors: number[];   // output grid tenors where the DF increases
+  unconvergedSwapTenors: number[]; // swaps the par solver could not reprice
 }
 
 export interface BootstrapResult {
   method: BootstrapMethod;
   discountFactors: DiscountFactor[];
-  parameters?: NelsonSiegelParams;
-  curvePoints: { tenor: number; rate: number }[];
+  parameters?: NelsonSiegelParams | SvenssonParams;
+  smithWilsonParameters?: SmithWilsonParams;
+  curvePoints: { tenor: number; rate: number }[]; // zero rates on the method's own grid
   inputPoints: BootstrapPoint[];
   adjustedPoints: BootstrapPoint[];
   currency: string;
   basisConvention: BasisConvention;
+  valuationDate: Date;
+  repricing?: SwapRepricing[];
+  discountCurve?: BootstrapResult; // set on forecast curves built against an OIS curve
+  diagnostics?: CurveDiagnostics;
+  extrapolation?: CurveExtrapolation; // set when an extrapolation policy was applied
+  turns?: TurnEffect[]; // turn-of-period spreads layered on the forwards
+  zeroShift?: { tenor: number; rate: number }[]; // scenario shift added to the zero rates (linear, flat outside)
+  meetingSteps?: { tenor: number; rate: number }[]; // step curve nodes, flat forward up to the last one
+}
+
+export interface BootstrapOptions {
+  valuationDate?: Date; // curve reference date, defaults to today
+  calendars?: CalendarId[]; // overrides the currency's settlement calendar (joint if several)
+  floatFrequency?: number; // floating-leg payments per year (projected index tenor), the currency's if omitted
+  convexity?: ConvexitySettings; // futures convexity adjustment (Hull-White), none if omitted
+  futuresMode?: FuturesMode; // 'points' by default
+  meetingDates?: Date[]; // policy meetings for the 'meetings' futures mode, currency defaults if omitted
+  turns?: TurnSpread[]; // turn-of-year/quarter spreads (swap/futures curves), none if omitted
+  discountCurve?: BootstrapResult; // OIS curve: the curve built is then a forecast curve
+  smithWilson?: SmithWilsonSettings; // UFR and convergence point, currency defaults if omitted
+  nelsonSiegel?: NelsonSiegelSettings; // weighting and optional fixed λ, equal weights if omitted
+  extrapolation?: ExtrapolationSettings; // outside the pillars, each method's own behaviour if omitted
+  outputGrid?: OutputGrid; // tenors the discount factors are reported on, method grid if omitted
+}
+
+/**
+ * Tenors the discount factors are reported on
+ * - method: the method's own grid (3M steps, 6M beyond 10Y)
+ * - standard: market tenors 1W, 2W, 1M … 50Y
+ * - monthly / weekly: one row per month / week
+ * - dates: the caller's dates (e.g. cash-flow dates)
+ */
+export type OutputGridType = 'method' | 'standard' | 'monthly' | 'weekly' | 'dates';
+
+export interface OutputGrid {
+  type: OutputGridType;
+  dates?: Date[]; // for 'dates'
+}
+
+/**
+ * How the curve is extended beyond its last pillar and below its first one
+ * - flat_zero: zero rate held constant
+ * - flat_forward: instantaneous forward at the last pillar held constant;
+ *   at the short end, a constant forward from DF(0) = 1 to the first pillar
+ * - linear_zero: zero rate extended along the slope of the last (first) two
+ *   pillars, down to t = 0 at the short end
+ * - smith_wilson: forwards converge to the UFR (Smith-Wilson fitted on the pillars)
+ */
+export type ExtrapolationMethod = 'flat_zero' | 'flat_forward' | 'linear_zero' | 'smith_wilson';
+
+export interface ExtrapolationSettings {
+  method: ExtrapolationMethod;
+  horizon?: number; // last output tenor in years (e.g. 50), method grid if omitted
+}
+
+export interface CurveExtrapolation extends ExtrapolationSettings {
+  firstTenor: number;  // first pillar
+  firstRate: number;   // zero rate at the first pillar, before turn effects
+  firstSlope: number;  // zero-rate slope between the first two pillars
+  lastTenor: number;   // last pillar
+  lastRate: number;    // zero rate at the last pillar
+  lastSlope: number;   // zero-rate slope between the last two pillars
+  lastForward: number; // instantaneous forward just before the last pillar
+  smithWilson?: SmithWilsonParams;
+}
+
+/**
+ * Turn-of-period spread: funding premium on the overnight forward across a
+ * year or quarter end
+ */
+export interface TurnSpread {
+  date: Date;       // first day of the turn (last business day of the period)
+  days?: number;    // calendar days the premium applies over, 1 if omitted
+  spreadBp: number; // premium on the instantaneous forward
+}
+
+export interface TurnEffect {
+  date: Date;
+  startTenor: number;
+  endTenor: number;
+  spread: number; // decimal
 }
 
+/**
+ * How futures enter the curve
+ * - points: each contract rate is a zero-rate guide at its start tenor
+ * - strip: consecutive contracts are compounded into discount factors
+ * - meetings: forwards flat between central-bank meetings, solved from the contracts
+ */
+export type FuturesMode = 'points' | 'strip' | 'meetings';
+
 export type BootstrapMethod = 
   | 'linear' 
   | 'cubic_spline' 
   | 'nelson_siegel'
+  | 'svensson'
+  | 'smith_wilson'
   | 'bloomberg'
   | 'quantlib_log_linear'
   | 'quantlib_log_cubic'
   | 'quantlib_linear_forward'
+  | 'quantlib_flat_forward'
   | 'quantlib_monotonic_convex';
 
 export interface NelsonSiegelParams {
@@ -66,46 +228,84 @@ export interface NelsonSiegelParams {
   beta1: number;
   beta2: number;
   lambda: number;
+  fit?: NelsonSiegelFit;
+}
+
+/**
+ * Weighting of the Nelson-Siegel least squares across maturities
+ * - equal: every rate counts the same
+ * - duration: rates weighted by their squared modified duration (≈ price fit)
+ */
+export type NelsonSiegelWeighting = 'equal' | 'duration';
+
+export interface NelsonSiegelSettings {
+  weighting: NelsonSiegelWeighting;
+  fixedLambda?: number; // λ held fixed, only the betas are fitted
+}
+
+export interface NelsonSiegelResidual {
+  tenor: number;
+  source: BootstrapPoint['source'];
+  marketRate: number; // continuous zero rate fitted
+  modelRate: number;
+  residualBp: number;
+}
+
+export interface NelsonSiegelFit {
+  weighting: NelsonSiegelWeighting;
+  lambdaFixed: boolean;
+  rmseBp: number;
+  standardErrors?: { beta0: number; beta1: number; beta2: number; lambda?: number }; // needs more points than parameters
+  residuals: NelsonSiegelResidual[];
+  iterations: number; // Levenberg-Marquardt iterations of the retained start
+  converged: boolean;
+  starts: { initialLambda: number; lambda: number; sse: number }[]; // every start and where it ended
+}
+
+export interface SvenssonParams extends NelsonSiegelParams {
+  beta3: number;
+  lambda2: number; // decay of the second hump
 }
 
 // ============ Currency Conventions ============
 
 const CURRENCY_CONVENTIONS: Record<string, BasisConvention> = {
-  USD: { dayCount: 'ACT/360', compounding: 'semi-annual', paymentFrequency: 2 },
-  EUR: { dayCount: 'ACT/360', compounding: 'annual', paymentFrequency: 1 },
-  GBP: { dayCount: 'ACT/365', compounding: 'semi-annual', paymentFrequency: 2 },
-  CHF: { dayCount: 'ACT/360', compounding: 'annual', paymentFrequency: 1 },
-  JPY: { dayCount: 'ACT/365', compounding: 'semi-annual', paymentFrequency: 2 },
-  CAD: { dayCount: 'ACT/365', compounding: 'semi-annual', paymentFrequency: 2 },
-  SGD: { dayCount: 'ACT/365', compounding: 'semi-annual', paymentFrequency: 2 },
+  USD: { fixedDayCount: '30/360', floatDayCount: 'ACT/360', moneyMarketDayCount: 'ACT/360', compounding: 'semi-annual', paymentFrequency: 2, floatFrequency: 4, spotLag: 2, calendars: ['USNY'] },
+  EUR: { fixedDayCount: '30E/360', floatDayCount: 'ACT/360', moneyMarketDayCount: 'ACT/360', compounding: 'annual', paymentFrequency: 1, floatFrequency: 2, spotLag: 2, calendars: ['EUTA'] },
+  GBP: { fixedDayCount: 'ACT/365', floatDayCount: 'ACT/365', moneyMarketDayCount: 'ACT/365', compounding: 'semi-annual', paymentFrequency: 2, floatFrequency: 2, spotLag: 0, calendars: ['GBLO'] },
+  CHF: { fixedDayCount: '30/360', floatDayCount: 'ACT/360', moneyMarketDayCount: 'ACT/360', compounding: 'annual', paymentFrequency: 1, floatFrequency: 2, spotLag: 2, calendars: ['CHZU'] },
+  JPY: { fixedDayCount: 'ACT/365', floatDayCount: 'ACT/365', moneyMarketDayCount: 'ACT/365', compounding: 'semi-annual', paymentFrequency: 2, floatFrequency: 2, spotLag: 2, calendars: ['JPTO'] },
+  CAD: { fixedDayCount: 'ACT/365', floatDayCount: 'ACT/365', moneyMarketDayCount: 'ACT/365', compounding: 'semi-annual', paymentFrequency: 2, floatFrequency: 4, spotLag: 1, calendars: ['CATO'] },
+  SGD: { fixedDayCount: 'ACT/365', floatDayCount: 'ACT/365', moneyMarketDayCount: 'ACT/365', compounding: 'semi-annual', paymentFrequency: 2, floatFrequency: 2, spotLag: 2, calendars: ['SGSI'] },
 };
 
 export function getBasisConvention(currency: string): BasisConvention {
   return CURRENCY_CONVENTIONS[currency] || CURRENCY_CONVENTIONS.USD;
 }
 
-// ============ Utility Functions ============
-
 /**
- * Convert maturity string like "Dec '25" to years from now
+ * Currency conventions with the per-curve overrides applied
  */
-export function maturityToYears(maturity: string): number {
-  const match = maturity.match(/(\w{3})\s*'?(\d{2})/);
-  if (!match) return 0;
-
-  const monthNames: Record<string, number> = {
-    Jan: 0, Feb: 1, Mar: 2, Apr: 3, May: 4, Jun: 5,
-    Jul: 6, Aug: 7, Sep: 8, Oct: 9, Nov: 10, Dec: 11,
+function resolveBasisConvention(currency: string, options: BootstrapOptions): BasisConvention {
+  const basis = getBasisConvention(currency);
+  return {
+    ...basis,
+    ...(options.calendars && options.calendars.length > 0 ? { calendars: options.calendars } : {}),
+    ...(options.floatFrequency ? { floatFrequency: options.floatFrequency } : {}),
   };
+}
 
-  const monthNum = monthNames[match[1]] ?? 0;
-  const yearNum = 2000 + parseInt(match[2], 10);
+// ============ Utility Functions ============
 
-  const maturityDate = new Date(yearNum, monthNum, 15);
-  const today = new Date();
-  const yearsToMaturity = (maturityDate.getTime() - today.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+/**
+ * Convert maturity string like "Dec '25" to years from the valuation date,
+ * measured to the contract's IMM start date
+ */
+export function maturityToYears(maturity: string, valuationDate: Date = today(), contractMonths = 3): number {
+  const dates = futuresContractDates(maturity, contractMonths);
+  if (!dates) return 0;
 
-  return Math.max(0.01, yearsToMaturity);
+  return Math.max(0.01, yearsBetween(valuationDate, dates.start));
 }
 
 /**
@@ -136,15 +336,43 @@ export function swapRateToContinuous(swapRate: number, tenor: number, basis: Bas
   return n * Math.log(1 + swapRate / n);
 }
 
+/**
+ * Inverse of swapRateToContinuous: quote a continuous zero rate back in the
+ * currency's compounding convention
+ */
+export function continuousToSwapRate(rate: number, tenor: number, basis: BasisConvention): number {
+  const n = basis.paymentFrequency;
+
+  if (basis.compounding === 'continuous') {
+    return rate;
+  }
+
+  if (basis.compounding === 'simple' || tenor <= 1) {
+    return (Math.exp(rate * tenor) - 1) / tenor;
+  }
+
+  return n * (Math.exp(rate / n) - 1);
+}
+
 /**
  * Convert futures rate (simple money market) to continuous
+ * r_cont = ln(1 + r × α) / τ
+ * α accrues on the money-market day count, τ is the contract length on the
+ * curve's ACT/365F axis. Undated contracts are treated as 3-month periods.
  */
-export function futuresRateToContinuous(futuresRate: number, basis: BasisConvention): number {
-  // Futures rates are typically simple rates on ACT/360 or ACT/365
-  // For short periods (< 1 year), simple rate ≈ continuous rate
-  // r_cont = ln(1 + r * t) / t, for 3-month: t ≈ 0.25
-  const period = 0.25; // 3-month futures
-  return Math.log(1 + futuresRate * period) / period;
+export function futuresRateToContinuous(
+  futuresRate: number,
+  basis: BasisConvention,
+  startDate?: Date,
+  endDate?: Date
+): number {
+  const accrual = startDate && endDate
+    ? yearFraction(basis.moneyMarketDayCount, startDate, endDate)
+    : 0.25;
+  const period = startDate && endDate ? yearsBetween(startDate, endDate) : 0.25;
+  if (accrual <= 0 || period <= 0) return futuresRate;
+
+  return Math.log(1 + futuresRate * accrual) / period;
 }
 
 // ============ Discount Factor Calculations ============
@@ -182,6 +410,66 @@ export function calculateForwardRate(
 
 // ============ Data Preparation ============
 
+/**
+ * Attach real dates to market inputs and re-derive their tenors from the
+ * valuation date:
+ * - Swaps start at spot and mature N months later (modified following)
+ * - Futures keep their contract accrual dates, tenor measured to the start
+ * The accrual fractions each instrument uses are recorded alongside.
+ */
+export function assignInstrumentDates(
+  points: BootstrapPoint[],
+  basis: BasisConvention,
+  valuationDate: Date
+): BootstrapPoint[] {
+  const isBusinessDay = businessDayPredicate(basis.calendars);
+  const spot = spotDate(valuationDate, basis.spotLag, isBusinessDay);
+
+  return points.map(p => {
+    if (p.source === 'swap') {
+      const startDate = p.startDate ?? spot;
+      const endDate = p.endDate
+        ?? adjustDate(addMonths(startDate, Math.round(p.tenor * 12)), 'modified_following', isBusinessDay);
+      const dated = { ...p, startDate, endDate, tenor: yearsBetween(valuationDate, endDate) };
+      return {
+        ...dated,
+        dayCount: basis.fixedDayCount,
+        accruals: buildSwapSchedule(dated, basis, valuationDate).accruals,
+      };
+    }
+
+    if (p.startDate) {
+      return {
+        ...p,
+        tenor: Math.max(0.01, yearsBetween(valuationDate, p.startDate)),
+        dayCount: basis.moneyMarketDayCount,
+        accruals: p.endDate ? [yearFraction(basis.moneyMarketDayCount, p.startDate, p.endDate)] : undefined,
+      };
+    }
+
+    return p;
+  });
+}
+
+/**
+ * Attach the Hull-White convexity adjustment to each futures contract,
+ * from its accrual start t₁ to its accrual end t₂
+ */
+export function applyConvexityAdjustment(
+  futuresPoints: BootstrapPoint[],
+  settings?: ConvexitySettings
+): BootstrapPoint[] {
+  if (!settings?.enabled) return futuresPoints;
+
+  return futuresPoints.map(p => {
+    const period = p.startDate && p.endDate ? yearsBetween(p.startDate, p.endDate) : 0.25;
+    return {
+      ...p,
+      convexityAdjustment: hullWhiteConvexityAdjustment(p.tenor, p.tenor + period, settings),
+    };
+  });
+}
+
 /**
  * Prepare bootstrap points with proper priority and conventions
  * Key principle:
@@ -196,16 +484,20 @@ export function prepareBootstrapPoints(
   const basis = getBasisConvention(currency);
   
   // Convert all rates to continuous compounding
+  // Swaps keep their par quote; the converted rate is only the starting guess
+  // for the par bootstrap
   const processedSwaps = swapPoints.map(p => ({
     ...p,
     rate: swapRateToContinuous(p.rate, p.tenor, basis),
+    parRate: p.rate,
     priority: 1,
     source: 'swap' as const,
   }));
   
   const processedFutures = futuresPoints.map(p => ({
     ...p,
-    rate: futuresRateToContinuous(p.rate, basis),
+    // Forward rate = futures rate − convexity adjustment
+    rate: futuresRateToContinuous(p.rate, basis, p.startDate, p.endDate) - (p.convexityAdjustment ?? 0),
     priority: 2,
     source: 'futures' as const,
   }));
@@ -235,6 +527,12 @@ export function adjustFuturesToSwaps(points: BootstrapPoint[]): BootstrapPoint[]
   const adjustedFutures: BootstrapPoint[] = [];
   
   for (const future of futures) {
+    // Meeting step nodes carry the fitted policy path as is
+    if (future.meetingStep) {
+      adjustedFutures.push(future);
+      continue;
+    }
+
     // Find surrounding swaps
     const prevSwap = [...swaps].reverse().find(s => s.tenor <= future.tenor);
     const nextSwap = swaps.find(s => s.tenor >= future.tenor);
@@ -271,6 +569,166 @@ export function adjustFuturesToSwaps(points: BootstrapPoint[]): BootstrapPoint[]
   return [...swaps, ...adjustedFutures].sort((a, b) => a.tenor - b.tenor);
 }
 
+// ============ Futures Strip ============
+
+/**
+ * Chain a strip of dated futures into discount factors from the valuation date.
+ * Each contract carries its (convexity-adjusted) continuous forward rate over
+ * its accrual period:  DF(end) = DF(start) × exp(−f × τ)
+ * - Stub: from the valuation date to the first contract start, at the first
+ *   contract's forward rate
+ * - Gap between contracts: bridged at the average of the two forward rates
+ * - Overlap: DF(start) is read off the chain built so far (log-linear DF)
+ * - A contract already accruing starts from the valuation date
+ * Each contract end becomes a zero-rate node; undated futures stay as points.
+ */
+export function chainFuturesStrip(points: BootstrapPoint[], valuationDate: Date): BootstrapPoint[] {
+  const strip = points
+    .filter(p => p.source === 'futures' && p.startDate && p.endDate && p.endDate > valuationDate)
+    .sort((a, b) => a.startDate!.getTime() - b.startDate!.getTime());
+  if (strip.length === 0) return points;
+
+  const others = points.filter(p => !strip.includes(p));
+  const timeOf = (date: Date) => Math.max(0, yearsBetween(valuationDate, date));
+
+  // Chain nodes: time → log DF
+  const nodes: { t: number; logDf: number }[] = [{ t: 0, logDf: 0 }];
+  const logDfAt = (t: number, extrapolationRate: number) => {
+    if (t <= 0) return 0;
+    const last = nodes[nodes.length - 1];
+    if (t >= last.t) return last.logDf - extrapolationRate * (t - last.t);
+    const i = nodes.findIndex(n => n.t >= t);
+    const a = nodes[i - 1];
+    const b = nodes[i];
+    return a.logDf + (b.logDf - a.logDf) * (t - a.t) / (b.t - a.t);
+  };
+
+  const chained: BootstrapPoint[] = [];
+  let previousRate = strip[0].rate;
+
+  for (const future of strip) {
+    const tStart = timeOf(future.startDate!);
+    const tEnd = timeOf(future.endDate!);
+    if (tEnd <= tStart) continue;
+
+    // Stub / gap bridged at the average of the adjacent forwards; overlaps
+    // are read off the existing chain
+    const bridgeRate = chained.length === 0 ? future.rate : (previousRate + future.rate) / 2;
+    const logDfStart = logDfAt(tStart, bridgeRate);
+    if (tStart > nodes[nodes.length - 1].t) {
+      nodes.push({ t: tStart, logDf: logDfStart });
+    }
+
+    const logDfEnd = logDfStart - future.rate * (tEnd - tStart);
+    const insertAt = nodes.findIndex(n => n.t >= tEnd);
+    if (insertAt === -1) {
+      nodes.push({ t: tEnd, logDf: logDfEnd });
+    } else if (nodes[insertAt].t !== tEnd) {
+      nodes.splice(insertAt, 0, { t: tEnd, logDf: logDfEnd });
+    }
+
+    chained.push({
+      ...future,
+      tenor: tEnd,
+      rate: -logDfEnd / tEnd,
+    });
+    previousRate = future.rate;
+  }
+
+  return [...others, ...chained].sort((a, b) => a.tenor - b.tenor);
+}
+
+/**
+ * Replace the dated futures by the nodes of the central-bank step curve:
+ * the policy rate after each meeting is solved from the contracts and each
+ * step end becomes a zero-rate node, flagged so that it is neither adjusted
+ * to the swaps nor re-interpolated by the method. Undated futures stay as
+ * points.
+ */
+export function buildMeetingStepPoints(
+  points: BootstrapPoint[],
+  valuationDate: Date,
+  currency: string,
+  meetingDates: Date[] = getDefaultMeetingDates(currency)
+): BootstrapPoint[] {
+  const strip = points.filter(p => p.source === 'futures' && p.startDate && p.endDate && p.endDate > valuationDate);
+  if (strip.length === 0) return points;
+
+  const path = fitPolicyPath(
+    strip.map(p => ({ startDate: p.startDate!, endDate: p.endDate!, rate: p.rate })),
+    meetingDates,
+    valuationDate,
+    { effectiveLagDays: getCentralBankSchedule(currency)?.effectiveLagDays }
+  );
+  if (!path) return points;
+
+  const others = points.filter(p => !strip.includes(p));
+  const nodes: BootstrapPoint[] = policyPathNodes(path, valuationDate).map(node => ({
+    tenor: node.tenor,
+    rate: node.rate,
+    source: 'futures',
+    priority: 2,
+    endDate: node.date,
+    meetingStep: true,
+  }));
+
+  return [...others, ...nodes].sort((a, b) => a.tenor - b.tenor);
+}
+
+/**
+ * Zero rate on the meeting step nodes, flat forward from DF(0) = 1: the
+ * forward is constant between consecutive nodes, i.e. between meetings
+ */
+function meetingStepZeroRate(steps: { tenor: number; rate: number }[], tenor: number): number {
+  if (tenor <= steps[0].tenor) return steps[0].rate;
+
+  const i = steps.findIndex(s => s.tenor >= tenor);
+  const prev = steps[i - 1];
+  const next = steps[i];
+  const forward = (next.rate * next.tenor - prev.rate * prev.tenor) / (next.tenor - prev.tenor);
+  return (prev.rate * prev.tenor + forward * (tenor - prev.tenor)) / tenor;
+}
+
+function isMeetingStepTenor(steps: { tenor: number; rate: number }[] | undefined, tenor: number): boolean {
+  return !!steps && steps.length > 0 && tenor <= steps[steps.length - 1].tenor;
+}
+
+/**
+ * Pillar interpolator with the meeting step curve in place up to its last node
+ */
+function withMeetingSteps(interpolate: ZeroRateInterpolator, steps: { tenor: number; rate: number }[]): ZeroRateInterpolator {
+  if (steps.length === 0) return interpolate;
+  return (points, tenor) => (isMeetingStepTenor(steps, tenor) ? meetingStepZeroRate(steps, tenor) : interpolate(points, tenor));
+}
+
+/**
+ * Put the meeting step curve in place of the method's curve up to its last
+ * node: grid rates, DFs and forwards are recomputed and the steps are kept
+ * for zeroRateAt
+ */
+function applyMeetingSteps(result: BootstrapResult, steps: { tenor: number; rate: number }[]): BootstrapResult {
+  if (steps.length === 0 || result.discountFactors.length === 0) return result;
+
+  const stepRate = (tenor: number, rate: number) =>
+    (isMeetingStepTenor(steps, tenor) ? meetingStepZeroRate(steps, tenor) : rate);
+
+  const discountFactors: DiscountFactor[] = [];
+  result.discountFactors.forEach((row, i) => {
+    const zeroRate = stepRate(row.tenor, row.zeroRate);
+    const df = calculateDiscountFactor(zeroRate, row.tenor);
+    const prev = discountFactors[i - 1];
+    const forwardRate = prev ? calculateForwardRate(prev.df, prev.tenor, df, row.tenor) : zeroRate;
+    discountFactors.push({ ...row, df, zeroRate, forwardRate: Math.max(0, forwardRate) });
+  });
+
+  return {
+    ...result,
+    discountFactors,
+    curvePoints: result.curvePoints.map(p => ({ tenor: p.tenor, rate: stepRate(p.tenor, p.rate) })),
+    meetingSteps: steps,
+  };
+}
+
 /**
  * Remove duplicate tenors, keeping swaps over futures
  */
@@ -294,6 +752,355 @@ export function removeDuplicates(points: BootstrapPoint[]): BootstrapPoint[] {
   return Array.from(uniquePoints.values()).sort((a, b) => a.tenor - b.tenor);
 }
 
+// ============ Par Swap Bootstrapping ============
+// Each swap is solved, tenor by tenor, for the zero rate at its maturity that
+// makes the fixed leg reprice to par:
+//   S × Σ αᵢ × DF(tᵢ) = 1 - DF(T)
+// The method's interpolation only fills the intermediate coupon dates.
+
+export type ZeroRateInterpolator = (points: BootstrapPoint[], targetTenor: number) => number;
+
+const PAR_SOLVER_TOLERANCE = 1e-12;
+const PAR_SOLVER_MAX_ITERATIONS = 50;
+const PAR_BOOTSTRAP_MAX_SWEEPS = 20;
+// Residual par rate error beyond which a swap is reported as not calibrated
+const PAR_SOLVER_UNCONVERGED_TOLERANCE = 1e-8;
+
+export interface SwapSchedule {
+  startTenor: number;       // spot date, in years from the valuation date
+  paymentTenors: number[];  // fixed-leg payment dates
+  accruals: number[];       // fixed-leg accrual fractions (fixed-leg day count)
+  floatPaymentTenors: number[]; // floating-leg payment dates
+  floatAccruals: number[];      // floating-leg accrual fractions (floating-leg day count)
+}
+
+/**
+ * Fixed and floating leg schedules of a dated swap point: spot start, payment
+ * dates rolled back from maturity and adjusted modified following on the
+ * currency's calendar
+ */
+export function buildSwapSchedule(
+  point: BootstrapPoint,
+  basis: BasisConvention,
+  valuationDate: Date
+): SwapSchedule {
+  const isBusinessDay = businessDayPredicate(basis.calendars);
+  const start = point.startDate ?? spotDate(valuationDate, basis.spotLag, isBusinessDay);
+  const months = point.endDate
+    ? Math.round(yearsBetween(start, point.endDate) * 12)
+    : Math.round(point.tenor * 12);
+  const maturity = addMonths(start, Math.max(1, months));
+  const periods = generateSchedule(start, maturity, basis.paymentFrequency, 'modified_following', isBusinessDay);
+  const floatPeriods = generateSchedule(start, maturity, basis.floatFrequency, 'modified_following', isBusinessDay);
+
+  return {
+    startTenor: yearsBetween(valuationDate, start),
+    paymentTenors: periods.map(p => yearsBetween(valuationDate, p.end)),
+    accruals: periods.map(p => periodAccrual(basis.fixedDayCount, p, basis.paymentFrequency)),
+    floatPaymentTenors: floatPeriods.map(p => yearsBetween(valuationDate, p.end)),
+    floatAccruals: floatPeriods.map(p => periodAccrual(basis.floatDayCount, p, basis.floatFrequency)),
+  };
+}
+
+/**
+ * Par swap rate implied by a discount function
+ * S = (DF(start) - DF(T)) / Σ αᵢ × DF(tᵢ)
+ *
+ * With a separate forecast curve (dual-curve), the floating leg projects
+ * Fⱼ = (Pf(tⱼ₋₁)/Pf(tⱼ) − 1)/αⱼ and is discounted on the OIS curve:
+ * S = Σ αⱼ × Fⱼ × DF(tⱼ) / Σ αᵢ × DF(tᵢ)
+ */
+export function parSwapRate(
+  schedule: SwapSchedule,
+  discount: (tenor: number) => number,
+  forecast?: (tenor: number) => number
+): number {
+  let annuity = 0;
+  schedule.paymentTenors.forEach((t, i) => {
+    annuity += schedule.accruals[i] * discount(t);
+  });
+
+  if (annuity <= 0) return 0;
+
+  if (forecast) {
+    let floatLeg = 0;
+    let previous = schedule.startTenor;
+    for (const t of schedule.floatPaymentTenors) {
+      floatLeg += (forecast(previous) / forecast(t) - 1) * discount(t);
+      previous = t;
+    }
+    return floatLeg / annuity;
+  }
+
+  const maturity = schedule.paymentTenors[schedule.paymentTenors.length - 1];
+  return (discount(schedule.startTenor) - discount(maturity)) / annuity;
+}
+
+function zeroCurveDiscount(
+  points: BootstrapPoint[],
+  interpolate: ZeroRateInterpolator
+): (tenor: number) => number {
+  return (tenor: number) => tenor <= 0 ? 1 : calculateDiscountFactor(interpolate(points, tenor), tenor);
+}
+
+/**
+ * Interpolation used to fill coupon dates while solving swap pillars.
+ * Parametric and smoothing methods are calibrated on a log-linear DF curve
+ * and then fitted/smoothed by the method itself.
+ */
+export function getPillarInterpolator(method: BootstrapMethod): ZeroRateInterpolator {
+  switch (method) {
+    case 'linear':
+    case 'nelson_siegel':
+    case 'svensson':
+      return linearInterpolation;
+    case 'cubic_spline':
+      return (points, targetTenor) =>
+        evaluateSpline(calculateSplineCoefficients([...points].sort((a, b) => a.tenor - b.tenor)), targetTenor);
+    case 'quantlib_log_cubic':
+      return logCubicZeroInterpolation;
+    case 'quantlib_monotonic_convex':
+      return monotonicConvexInterpolation;
+    case 'quantlib_linear_forward':
+      return linearForwardInterpolation;
+    case 'quantlib_flat_forward':
+      return flatForwardInterpolation;
+    case 'bloomberg':
+    case 'smith_wilson':
+    case 'quantlib_log_linear':
+    default:
+      return logLinearZeroInterpolation;
+  }
+}
+
+/**
+ * Solve swap par rates into zero-rate pillars
+ * - fixedNodes (e.g. futures) are kept as given and only shape the interpolation
+ * - Local interpolations converge in a single sweep; global ones (splines)
+ *   are swept again until every swap reprices to par
+ * - With an external discount function (OIS), the pillars being solved form
+ *   the forecast curve only
+ */
+export function bootstrapParSwaps(
+  swaps: BootstrapPoint[],
+  fixedNodes: BootstrapPoint[],
+  basis: BasisConvention,
+  interpolate: ZeroRateInterpolator,
+  valuationDate: Date,
+  discount?: (tenor: number) => number
+): BootstrapPoint[] {
+  const pillars: BootstrapPoint[] = [...swaps]
+    .sort((a, b) => a.tenor - b.tenor)
+    .map(s => {
+      const parRate = s.parRate ?? s.rate;
+      return { ...s, parRate, rate: swapRateToContinuous(parRate, s.tenor, basis) };
+    });
+
+  const schedules = pillars.map(p => buildSwapSchedule(p, basis, valuationDate));
+
+  const repricingError = (index: number, nodes: BootstrapPoint[]) => {
+    const curve = zeroCurveDiscount(nodes, interpolate);
+    const rate = discount
+      ? parSwapRate(schedules[index], discount, curve)
+      : parSwapRate(schedules[index], curve);
+    return rate - pillars[index].parRate!;
+  };
+
+  for (let sweep = 0; sweep < PAR_BOOTSTRAP_MAX_SWEEPS; sweep++) {
+    for (let i = 0; i < pillars.length; i++) {
+      // First sweep only knows the pillars solved so far
+      const known = sweep === 0 ? pillars.slice(0, i + 1) : pillars;
+      const nodes = () => [...fixedNodes, ...known];
+
+      // Secant iterations on the pillar zero rate, keeping the best iterate
+      let z0 = pillars[i].rate;
+      let e0 = repricingError(i, nodes());
+      let z1 = z0 + 0.0001;
+      let best = { rate: z0, error: e0 };
+
+      for (let iter = 0; iter < PAR_SOLVER_MAX_ITERATIONS && Math.abs(e0) > PAR_SOLVER_TOLERANCE; iter++) {
+        pillars[i] = { ...pillars[i], rate: z1 };
+        const e1 = repricingError(i, nodes());
+        if (Math.abs(e1) < Math.abs(best.error)) best = { rate: z1, error: e1 };
+        if (Math.abs(e1) <= PAR_SOLVER_TOLERANCE || e1 === e0 || !isFinite(e1)) break;
+        const next = z1 - e1 * (z1 - z0) / (e1 - e0);
+        z0 = z1;
+        e0 = e1;
+        z1 = next;
+      }
+
+      pillars[i] = { ...pillars[i], rate: best.rate };
+    }
+
+    const allNodes = [...fixedNodes, ...pillars];
+    const maxError = Math.max(...pillars.map((_, i) => Math.abs(repricingError(i, allNodes))));
+    if (maxError <= PAR_SOLVER_TOLERANCE * 10) break;
+  }
+
+  // Flag the swaps the solver could not reprice (reported in the diagnostics)
+  const allNodes = [...fixedNodes, ...pillars];
+  return pillars.map((p, i) => ({
+    ...p,
+    unconverged: Math.abs(repricingError(i, allNodes)) > PAR_SOLVER_UNCONVERGED_TOLERANCE,
+  }));
+}
+
+/**
+ * Replace the swap points of a prepared point set by their par-bootstrapped pillars
+ */
+function solveSwapPillars(
+  points: BootstrapPoint[],
+  basis: BasisConvention,
+  interpolate: ZeroRateInterpolator,
+  valuationDate: Date,
+  discount?: (tenor: number) => number
+): BootstrapPoint[] {
+  const swaps = points.filter(p => p.source === 'swap');
+  const others = points.filter(p => p.source !== 'swap');
+
+  if (swaps.length === 0) return points;
+
+  return [...bootstrapParSwaps(swaps, others, basis, interpolate, valuationDate, discount), ...others]
+    .sort((a, b) => a.tenor - b.tenor);
+}
+
+/**
+ * Reprice every input swap on the final curve
+ * (projected on it and discounted on its OIS curve when it is a forecast curve)
+ */
+export function repriceSwaps(result: BootstrapResult, swaps: BootstrapPoint[]): SwapRepricing[] {
+  const curve = (tenor: number) => discountFactorAt(result, tenor);
+  const discountCurve = result.discountCurve;
+  const discount = discountCurve ? (tenor: number) => discountFactorAt(discountCurve, tenor) : curve;
+  const forecast = discountCurve ? curve : undefined;
+
+  return swaps
+    .filter(s => s.source === 'swap')
+    .sort((a, b) => a.tenor - b.tenor)
+    .map(s => {
+      const marketRate = s.parRate ?? s.rate;
+      const modelRate = parSwapRate(buildSwapSchedule(s, result.basisConvention, result.valuationDate), discount, forecast);
+      return {
+        tenor: s.tenor,
+        marketRate,
+        modelRate,
+        errorBp: (modelRate - marketRate) * 10000,
+      };
+    });
+}
+
+// ============ Calibration Diagnostics ============
+
+/**
+ * Futures rate implied by the curve over the contract period:
+ * continuous forward + convexity adjustment, quoted simple on the
+ * money-market day count
+ */
+function modelFuturesRate(result: BootstrapResult, future: BootstrapPoint): number {
+  const basis = result.basisConvention;
+  const dated = future.startDate && future.endDate;
+  const t1 = future.tenor;
+  const t2 = dated ? t1 + yearsBetween(future.startDate!, future.endDate!) : t1 + 0.25;
+  const accrual = dated ? yearFraction(basis.moneyMarketDayCount, future.startDate!, future.endDate!) : 0.25;
+
+  const forward = calculateForwardRate(discountFactorAt(result, t1), t1, discountFactorAt(result, t2), t2);
+  const futuresContinuous = forward + (future.convexityAdjustment ?? 0);
+  return (Math.exp(futuresContinuous * (t2 - t1)) - 1) / accrual;
+}
+
+/**
+ * Calibration quality of a curve against its market inputs
+ * - Swaps: par rate repricing
+ * - Futures: implied futures rate over the contract period
+ * - Bonds: yield at maturity in the currency's compounding
+ * plus shape flags on the output grid
+ */
+export function computeDiagnostics(result: BootstrapResult): CurveDiagnostics {
+  const instruments: InstrumentFit[] = [];
+  const fit = (p: BootstrapPoint, marketRate: number, modelRate: number, date?: Date) => {
+    instruments.push({
+      source: p.source,
+      tenor: p.tenor,
+      date,
+      marketRate,
+      modelRate,
+      residualBp: (modelRate - marketRate) * 10000,
+    });
+  };
+
+  const swaps = result.inputPoints.filter(p => p.source === 'swap');
+  const repricing = result.repricing ?? repriceSwaps(result, swaps);
+  repricing.forEach(r => {
+    instruments.push({
+      source: 'swap',
+      tenor: r.tenor,
+      date: swaps.find(s => s.tenor === r.tenor)?.endDate,
+      marketRate: r.marketRate,
+      modelRate: r.modelRate,
+      residualBp: r.errorBp,
+    });
+  });
+
+  for (const p of result.inputPoints) {
+    if (p.source === 'futures') {
+      fit(p, p.rate, modelFuturesRate(result, p), p.startDate);
+    } else if (p.source === 'bond') {
+      fit(p, p.rate, continuousToSwapRate(zeroRateAt(result, p.tenor), p.tenor, result.basisConvention));
+    }
+  }
+
+  instruments.sort((a, b) => a.tenor - b.tenor);
+
+  const residuals = instruments.map(i => i.residualBp);
+  const rmseBp = residuals.length > 0
+    ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length)
+    : 0;
+  const maxErrorBp = residuals.length > 0 ? Math.max(...residuals.map(Math.abs)) : 0;
+
+  // Forwards from consecutive DFs: the stored grid forwards are floored at zero
+  const dfs = result.discountFactors;
+  const forwardTo = (i: number) => {
+    const prev = i === 0 ? { tenor: 0, df: 1 } : dfs[i - 1];
+    return dfs[i].tenor > prev.tenor ? Math.log(prev.df / dfs[i].df) / (dfs[i].tenor - prev.tenor) : 0;
+  };
+  return {
+    instruments,
+    rmseBp,
+    maxErrorBp,
+    negativeForwardTenors: dfs.filter((_, i) => forwardTo(i) < 0).map(df => df.tenor),
+    nonMonotoneDfTenors: dfs.filter((df, i) => df.df > (i === 0 ? 1 : dfs[i - 1].df)).map(df => df.tenor),
+    unconvergedSwapTenors: result.adjustedPoints.filter(p => p.unconverged).map(p => p.tenor),
+  };
+}
+
+// ============ Output Grid ============
+
+interface GridPoint {
+  tenor: number;
+  date: Date;
+}
+
+/**
+ * Output grid in real dates: every 3 months from the valuation date
+ * (6 months for curves beyond 10Y), one step past the last input,
+ * adjusted modified following on the currency's calendar
+ */
+function buildCurveGrid(maxTenor: number, valuationDate: Date, basis: BasisConvention): GridPoint[] {
+  const isBusinessDay = businessDayPredicate(basis.calendars);
+  const stepMonths = maxTenor > 10 ? 6 : 3;
+  const limit = maxTenor + stepMonths / 12 + 0.01;
+  const grid: GridPoint[] = [];
+
+  for (let k = 1; ; k++) {
+    const date = adjustDate(addMonths(valuationDate, k * stepMonths), 'modified_following', isBusinessDay);
+    const tenor = yearsBetween(valuationDate, date);
+    if (tenor > limit) break;
+    grid.push({ tenor, date });
+  }
+
+  return grid;
+}
+
 // ============ Linear Interpolation ============
 
 export function linearInterpolation(
@@ -325,19 +1132,20 @@ export function linearInterpolation(
 export function bootstrapLinear(
   points: BootstrapPoint[],
   currency: string,
-  basis: BasisConvention
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
 ): BootstrapResult {
   const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
   const discountFactors: DiscountFactor[] = [];
 
   // Generate curve at regular intervals
   const maxTenor = Math.max(...sorted.map(p => p.tenor), 1);
-  const step = maxTenor > 10 ? 0.5 : 0.25;
+  const valuationDate = options.valuationDate ?? today();
   const curvePoints: { tenor: number; rate: number }[] = [];
 
   let prevDf: DiscountFactor | null = null;
 
-  for (let t = step; t <= maxTenor + step; t += step) {
+  for (const { tenor: t, date } of buildCurveGrid(maxTenor, valuationDate, basis)) {
     const rate = linearInterpolation(sorted, t);
     curvePoints.push({ tenor: t, rate });
 
@@ -355,6 +1163,7 @@ export function bootstrapLinear(
 
     discountFactors.push({
       tenor: t,
+      date,
       df,
       zeroRate: rate,
       forwardRate: Math.max(0, forwardRate), // Ensure non-negative
@@ -372,6 +1181,7 @@ export function bootstrapLinear(
     adjustedPoints: sorted,
     currency,
     basisConvention: basis,
+    valuationDate,
   };
 }
 
@@ -460,19 +1270,20 @@ function evaluateSpline(coeffs: SplineCoefficients, targetX: number): number {
 export function bootstrapCubicSpline(
   points: BootstrapPoint[],
   currency: string,
-  basis: BasisConvention
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
 ): BootstrapResult {
   const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
   const coeffs = calculateSplineCoefficients(sorted);
   const discountFactors: DiscountFactor[] = [];
 
   const maxTenor = Math.max(...sorted.map(p => p.tenor), 1);
-  const step = maxTenor > 10 ? 0.5 : 0.25;
+  const valuationDate = options.valuationDate ?? today();
   const curvePoints: { tenor: number; rate: number }[] = [];
 
   let prevDf: DiscountFactor | null = null;
 
-  for (let t = step; t <= maxTenor + step; t += step) {
+  for (const { tenor: t, date } of buildCurveGrid(maxTenor, valuationDate, basis)) {
     const rate = evaluateSpline(coeffs, t);
     curvePoints.push({ tenor: t, rate });
 
@@ -489,6 +1300,7 @@ export function bootstrapCubicSpline(
 
     discountFactors.push({
       tenor: t,
+      date,
       df,
       zeroRate: rate,
       forwardRate: Math.max(0, forwardRate),
@@ -506,6 +1318,7 @@ export function bootstrapCubicSpline(
     adjustedPoints: sorted,
     currency,
     basisConvention: basis,
+    valuationDate,
   };
 }
 
@@ -528,86 +1341,252 @@ export function nelsonSiegelRate(t: number, params: NelsonSiegelParams): number
   return beta0 + beta1 * factor1 + beta2 * factor2;
 }
 
-/**
- * Fit Nelson-Siegel parameters to observed rates
- * Uses weighted least squares - swaps have higher weight
- */
-function fitNelsonSiegel(points: BootstrapPoint[]): NelsonSiegelParams {
-  // Initial guesses based on curve shape
-  const rates = points.map(p => p.rate);
-  const maxRate = Math.max(...rates);
-  const minRate = Math.min(...rates);
-  const shortRate = points.length > 0 ? points[0].rate : 0.03;
-  const longRate = points.length > 0 ? points[points.length - 1].rate : 0.04;
-  
-  let beta0 = longRate;
-  let beta1 = shortRate - longRate;
-  let beta2 = (maxRate - minRate) * (maxRate > longRate ? 1 : -1);
-  let lambda = 0.5;
-
-  const learningRate = 0.00005;
-  const iterations = 8000;
-
-  for (let iter = 0; iter < iterations; iter++) {
-    let gradBeta0 = 0;
-    let gradBeta1 = 0;
-    let gradBeta2 = 0;
-    let gradLambda = 0;
-
-    for (const point of points) {
-      const t = point.tenor;
-      if (t <= 0.001) continue;
-
-      // Weight: swaps get 3x weight
-      const weight = point.source === 'swap' ? 3 : 1;
-
-      const lambdaT = lambda * t;
-      const expTerm = Math.exp(-lambdaT);
-      const factor1 = (1 - expTerm) / lambdaT;
-      const factor2 = factor1 - expTerm;
-
-      const predicted = beta0 + beta1 * factor1 + beta2 * factor2;
-      const error = predicted - point.rate;
-
-      gradBeta0 += weight * 2 * error;
-      gradBeta1 += weight * 2 * error * factor1;
-      gradBeta2 += weight * 2 * error * factor2;
-
-      // Gradient for lambda
-      const dFactor1_dLambda = t * expTerm / lambdaT - (1 - expTerm) * t / (lambdaT * lambdaT);
-      const dFactor2_dLambda = dFactor1_dLambda + t * expTerm;
-      gradLambda += weight * 2 * error * (beta1 * dFactor1_dLambda + beta2 * dFactor2_dLambda);
-    }
+const NELSON_SIEGEL_LAMBDA_MIN = 0.05;
+const NELSON_SIEGEL_LAMBDA_MAX = 3.0;
+const NELSON_SIEGEL_START_LAMBDAS = [0.1, 0.3, 0.6, 1.0, 2.0];
+const NELSON_SIEGEL_BETA_BOUND = 1; // |β| ≤ 100%
+const LM_MAX_ITERATIONS = 200;
+const LM_MAX_DAMPING = 1e12;
+const LM_TOLERANCE = 1e-14;
 
-    beta0 -= learningRate * gradBeta0;
-    beta1 -= learningRate * gradBeta1;
-    beta2 -= learningRate * gradBeta2;
-    lambda -= learningRate * 0.05 * gradLambda;
+export const DEFAULT_NELSON_SIEGEL_SETTINGS: NelsonSiegelSettings = { weighting: 'equal' };
 
-    // Constrain lambda to reasonable range
-    lambda = Math.max(0.05, Math.min(3.0, lambda));
-  }
+function nelsonSiegelLoadings(t: number, lambda: number): number[] {
+  const lambdaT = lambda * t;
+  const expTerm = Math.exp(-lambdaT);
+  const factor1 = (1 - expTerm) / lambdaT;
+  return [1, factor1, factor1 - expTerm];
+}
 
-  return { beta0, beta1, beta2, lambda };
+/**
+ * ∂r/∂λ of the Nelson-Siegel rate
+ */
+function nelsonSiegelLambdaDerivative(t: number, params: NelsonSiegelParams): number {
+  const { beta1, beta2, lambda } = params;
+  const lambdaT = lambda * t;
+  const expTerm = Math.exp(-lambdaT);
+  const dFactor1 = t * expTerm / lambdaT - (1 - expTerm) * t / (lambdaT * lambdaT);
+  const dFactor2 = dFactor1 + t * expTerm;
+  return beta1 * dFactor1 + beta2 * dFactor2;
 }
 
-export function bootstrapNelsonSiegel(
+/**
+ * Fit weight of a point: the scheme across maturities, times the usual
+ * 3x priority of swaps over futures guides
+ * - equal: every maturity counts the same
+ * - duration: squared modified duration D² of a par bond at that rate: a
+ *   price error is ≈ D × the rate error, so the weighted squared rate
+ *   residuals are the squared price residuals of a price fit
+ */
+function nelsonSiegelWeight(point: BootstrapPoint, weighting: NelsonSiegelWeighting, frequency: number): number {
+  const priority = point.source === 'swap' ? 3 : 1;
+  if (weighting === 'equal') return priority;
+
+  const periodRate = point.rate / frequency;
+  const duration = Math.abs(periodRate) < 1e-10
+    ? point.tenor
+    : (1 - Math.pow(1 + periodRate, -frequency * point.tenor)) / point.rate;
+  return priority * Math.max(duration * duration, 1e-12);
+}
+
+function clampNelsonSiegel(params: NelsonSiegelParams): NelsonSiegelParams {
+  const clampBeta = (b: number) => Math.max(-NELSON_SIEGEL_BETA_BOUND, Math.min(NELSON_SIEGEL_BETA_BOUND, b));
+  return {
+    beta0: clampBeta(params.beta0),
+    beta1: clampBeta(params.beta1),
+    beta2: clampBeta(params.beta2),
+    lambda: Math.max(NELSON_SIEGEL_LAMBDA_MIN, Math.min(NELSON_SIEGEL_LAMBDA_MAX, params.lambda)),
+  };
+}
+
+function nelsonSiegelSse(points: BootstrapPoint[], weights: number[], params: NelsonSiegelParams): number {
+  return points.reduce((sum, p, i) => sum + weights[i] * (nelsonSiegelRate(p.tenor, params) - p.rate) ** 2, 0);
+}
+
+/**
+ * Betas by weighted least squares for a given λ (the model is linear in them)
+ */
+function nelsonSiegelBetas(points: BootstrapPoint[], weights: number[], lambda: number): NelsonSiegelParams | null {
+  const normal = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const rhs = [0, 0, 0];
+
+  points.forEach((p, k) => {
+    const x = nelsonSiegelLoadings(p.tenor, lambda);
+    for (let i = 0; i < 3; i++) {
+      rhs[i] += weights[k] * x[i] * p.rate;
+      for (let j = 0; j < 3; j++) normal[i][j] += weights[k] * x[i] * x[j];
+    }
+  });
+
+  const betas = solveLinearSystem(normal, rhs);
+  return betas ? { beta0: betas[0], beta1: betas[1], beta2: betas[2], lambda } : null;
+}
+
+function nelsonSiegelJacobianRow(t: number, params: NelsonSiegelParams, lambdaFixed: boolean): number[] {
+  const row = nelsonSiegelLoadings(t, params.lambda);
+  return lambdaFixed ? row : [...row, nelsonSiegelLambdaDerivative(t, params)];
+}
+
+/**
+ * Levenberg-Marquardt on (β0, β1, β2[, λ]) with box bounds (steps are
+ * projected back into the bounds)
+ */
+function levenbergMarquardtNelsonSiegel(
   points: BootstrapPoint[],
-  currency: string,
+  weights: number[],
+  start: NelsonSiegelParams,
+  lambdaFixed: boolean
+): { params: NelsonSiegelParams; sse: number; iterations: number; converged: boolean } {
+  let params = clampNelsonSiegel(start);
+  let sse = nelsonSiegelSse(points, weights, params);
+  let damping = 1e-3;
+  let converged = false;
+  let iterations = 0;
+
+  for (; iterations < LM_MAX_ITERATIONS && !converged; iterations++) {
+    const size = lambdaFixed ? 3 : 4;
+    const normal = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    const gradient = new Array<number>(size).fill(0);
+
+    points.forEach((p, k) => {
+      const row = nelsonSiegelJacobianRow(p.tenor, params, lambdaFixed);
+      const residual = nelsonSiegelRate(p.tenor, params) - p.rate;
+      for (let i = 0; i < size; i++) {
+        gradient[i] += weights[k] * row[i] * residual;
+        for (let j = 0; j < size; j++) normal[i][j] += weights[k] * row[i] * row[j];
+      }
+    });
+
+    let accepted = false;
+    while (!accepted && damping < LM_MAX_DAMPING) {
+      const damped = normal.map((row, i) => row.map((v, j) => (i === j ? v + damping * Math.max(v, 1e-12) : v)));
+      const step = solveLinearSystem(damped, gradient.map(g => -g));
+      if (!step) {
+        damping *= 10;
+        continue;
+      }
+
+      const candidate = clampNelsonSiegel({
+        beta0: params.beta0 + step[0],
+        beta1: params.beta1 + step[1],
+        beta2: params.beta2 + step[2],
+        lambda: lambdaFixed ? params.lambda : params.lambda + step[3],
+      });
+      const candidateSse = nelsonSiegelSse(points, weights, candidate);
+
+      if (candidateSse < sse) {
+        converged = sse - candidateSse <= LM_TOLERANCE * Math.max(sse, 1e-20);
+        params = candidate;
+        sse = candidateSse;
+        damping = Math.max(damping / 10, 1e-12);
+        accepted = true;
+      } else {
+        damping *= 10;
+      }
+    }
+
+    // No descent direction left: local minimum (or on a bound)
+    if (!accepted) converged = true;
+  }
+
+  return { params, sse, iterations, converged };
+}
+
+/**
+ * Fit Nelson-Siegel parameters to observed rates
+ * Weighted nonlinear least squares (Levenberg-Marquardt) started from
+ * several λ with the betas solved exactly for each; the best fit is kept.
+ * With a fixed λ the problem is linear in the betas.
+ */
+function fitNelsonSiegel(
+  points: BootstrapPoint[],
+  settings: NelsonSiegelSettings = DEFAULT_NELSON_SIEGEL_SETTINGS,
+  frequency = 1
+): NelsonSiegelParams {
+  const fitted = points.filter(p => p.tenor > 0.001);
+  const weights = fitted.map(p => nelsonSiegelWeight(p, settings.weighting, frequency));
+  const lambdaFixed = settings.fixedLambda !== undefined;
+
+  // Fallback start: level at the long end, slope from the short end
+  const shortRate = points.length > 0 ? points[0].rate : 0.03;
+  const longRate = points.length > 0 ? points[points.length - 1].rate : 0.04;
+  const naiveStart = (lambda: number): NelsonSiegelParams =>
+    ({ beta0: longRate, beta1: shortRate - longRate, beta2: 0, lambda });
+
+  const startLambdas = lambdaFixed ? [settings.fixedLambda!] : NELSON_SIEGEL_START_LAMBDAS;
+  const starts = startLambdas.map(lambda => {
+    const boundedLambda = clampNelsonSiegel(naiveStart(lambda)).lambda;
+    const start = (fitted.length >= 3 && nelsonSiegelBetas(fitted, weights, boundedLambda)) || naiveStart(boundedLambda);
+    return { initialLambda: lambda, ...levenbergMarquardtNelsonSiegel(fitted, weights, start, lambdaFixed) };
+  });
+
+  const best = starts.reduce((a, b) => (b.sse < a.sse ? b : a));
+  const { params } = best;
+
+  const residuals = fitted.map(p => {
+    const modelRate = nelsonSiegelRate(p.tenor, params);
+    return { tenor: p.tenor, source: p.source, marketRate: p.rate, modelRate, residualBp: (modelRate - p.rate) * 10000 };
+  });
+
+  // Standard errors from the weighted Gauss-Newton covariance σ²·(JᵀWJ)⁻¹
+  const size = lambdaFixed ? 3 : 4;
+  let standardErrors: NelsonSiegelFit['standardErrors'];
+  if (fitted.length > size) {
+    const normal = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    fitted.forEach((p, k) => {
+      const row = nelsonSiegelJacobianRow(p.tenor, params, lambdaFixed);
+      for (let i = 0; i < size; i++) {
+        for (let j = 0; j < size; j++) normal[i][j] += weights[k] * row[i] * row[j];
+      }
+    });
+    const variance = best.sse / (fitted.length - size);
+    const diagonal = Array.from({ length: size }, (_, i) => {
+      const unit = Array.from({ length: size }, (_, j) => (i === j ? 1 : 0));
+      const column = solveLinearSystem(normal, unit);
+      return column ? Math.sqrt(Math.max(variance * column[i], 0)) : NaN;
+    });
+    standardErrors = {
+      beta0: diagonal[0],
+      beta1: diagonal[1],
+      beta2: diagonal[2],
+      lambda: lambdaFixed ? undefined : diagonal[3],
+    };
+  }
+
+  return {
+    ...params,
+    fit: {
+      weighting: settings.weighting,
+      lambdaFixed,
+      rmseBp: residuals.length > 0
+        ? Math.sqrt(residuals.reduce((sum, r) => sum + r.residualBp ** 2, 0) / residuals.length)
+        : 0,
+      standardErrors,
+      residuals,
+      iterations: best.iterations,
+      converged: best.converged,
+      starts: starts.map(s => ({ initialLambda: s.initialLambda, lambda: s.params.lambda, sse: s.sse })),
+    },
+  };
+}
+
+/**
+ * Output grid of a curve given by a zero-rate function
+ */
+function buildZeroCurveGrid(
+  sorted: BootstrapPoint[],
+  rateAt: (t: number) => number,
+  valuationDate: Date,
   basis: BasisConvention
-): BootstrapResult {
-  const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
-  const params = fitNelsonSiegel(sorted);
+): { discountFactors: DiscountFactor[]; curvePoints: { tenor: number; rate: number }[] } {
   const discountFactors: DiscountFactor[] = [];
-
-  const maxTenor = Math.max(...sorted.map(p => p.tenor), 1);
-  const step = maxTenor > 10 ? 0.5 : 0.25;
   const curvePoints: { tenor: number; rate: number }[] = [];
+  const maxTenor = Math.max(...sorted.map(p => p.tenor), 1);
 
   let prevDf: DiscountFactor | null = null;
 
-  for (let t = step; t <= maxTenor + step; t += step) {
-    const rate = nelsonSiegelRate(t, params);
+  for (const { tenor: t, date } of buildCurveGrid(maxTenor, valuationDate, basis)) {
+    const rate = rateAt(t);
     curvePoints.push({ tenor: t, rate });
 
     const df = calculateDiscountFactor(rate, t);
@@ -623,6 +1602,7 @@ export function bootstrapNelsonSiegel(
 
     discountFactors.push({
       tenor: t,
+      date,
       df,
       zeroRate: rate,
       forwardRate: Math.max(0, forwardRate),
@@ -632,6 +1612,25 @@ export function bootstrapNelsonSiegel(
     prevDf = discountFactors[discountFactors.length - 1];
   }
 
+  return { discountFactors, curvePoints };
+}
+
+export function bootstrapNelsonSiegel(
+  points: BootstrapPoint[],
+  currency: string,
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
+): BootstrapResult {
+  const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
+  const params = fitNelsonSiegel(sorted, options.nelsonSiegel, basis.paymentFrequency);
+  const valuationDate = options.valuationDate ?? today();
+  const { discountFactors, curvePoints } = buildZeroCurveGrid(
+    sorted,
+    t => nelsonSiegelRate(t, params),
+    valuationDate,
+    basis
+  );
+
   return {
     method: 'nelson_siegel',
     discountFactors,
@@ -641,6 +1640,223 @@ export function bootstrapNelsonSiegel(
     parameters: params,
     currency,
     basisConvention: basis,
+    valuationDate,
+  };
+}
+
+// ============ Svensson Model ============
+
+const SVENSSON_LAMBDA_MIN = 0.05;
+const SVENSSON_LAMBDA_MAX = 3.0;
+const SVENSSON_LAMBDA_GRID = 25;
+const SVENSSON_MIN_DECAY_RATIO = 1.5; // λ ≥ 1.5 × λ2 keeps both humps identifiable
+
+/**
+ * Svensson (1994) model: Nelson-Siegel plus a second hump
+ * r(t) = NS(t) + β3 * ((1 - e^(-λ2·t)) / (λ2·t) - e^(-λ2·t))
+ */
+export function svenssonRate(t: number, params: SvenssonParams): number {
+  const { beta3, lambda2 } = params;
+
+  if (t <= 0.001) return nelsonSiegelRate(t, params);
+
+  const lambdaT = lambda2 * t;
+  const expTerm = Math.exp(-lambdaT);
+  return nelsonSiegelRate(t, params) + beta3 * ((1 - expTerm) / lambdaT - expTerm);
+}
+
+function svenssonLoadings(t: number, lambda: number, lambda2: number): number[] {
+  const exp1 = Math.exp(-lambda * t);
+  const exp2 = Math.exp(-lambda2 * t);
+  const factor1 = (1 - exp1) / (lambda * t);
+  const factor2 = (1 - exp2) / (lambda2 * t);
+  return [1, factor1, factor1 - exp1, factor2 - exp2];
+}
+
+/**
+ * For fixed decays the model is linear in the betas: weighted least squares
+ * (swaps 3x, as for Nelson-Siegel). Returns the fit and its weighted SSE.
+ */
+function fitSvenssonBetas(
+  points: BootstrapPoint[],
+  lambda: number,
+  lambda2: number
+): { params: SvenssonParams; sse: number } | null {
+  const normal = [0, 1, 2, 3].map(() => [0, 0, 0, 0]);
+  const rhs = [0, 0, 0, 0];
+
+  for (const point of points) {
+    const weight = point.source === 'swap' ? 3 : 1;
+    const x = svenssonLoadings(point.tenor, lambda, lambda2);
+    for (let i = 0; i < 4; i++) {
+      rhs[i] += weight * x[i] * point.rate;
+      for (let j = 0; j < 4; j++) normal[i][j] += weight * x[i] * x[j];
+    }
+  }
+
+  const betas = solveLinearSystem(normal, rhs);
+  if (!betas) return null;
+
+  const params = { beta0: betas[0], beta1: betas[1], beta2: betas[2], beta3: betas[3], lambda, lambda2 };
+  const sse = points.reduce((sum, p) => {
+    const weight = p.source === 'swap' ? 3 : 1;
+    return sum + weight * (svenssonRate(p.tenor, params) - p.rate) ** 2;
+  }, 0);
+
+  return { params, sse };
+}
+
+function svenssonFromNelsonSiegel(points: BootstrapPoint[]): SvenssonParams {
+  const { beta0, beta1, beta2, lambda } = fitNelsonSiegel(points);
+  return { beta0, beta1, beta2, lambda, beta3: 0, lambda2: SVENSSON_LAMBDA_MIN };
+}
+
+/**
+ * Fit Svensson parameters: grid search on the two decays (betas solved
+ * exactly for each pair), then a shrinking multiplicative local search
+ */
+function fitSvensson(points: BootstrapPoint[]): SvenssonParams {
+  const fitted = points.filter(p => p.tenor > 0.001);
+
+  // Four loadings need at least four rates
+  if (fitted.length < 4) {
+    return svenssonFromNelsonSiegel(points);
+  }
+
+  const clamp = (l: number) => Math.max(SVENSSON_LAMBDA_MIN, Math.min(SVENSSON_LAMBDA_MAX, l));
+  const ratio = SVENSSON_LAMBDA_MAX / SVENSSON_LAMBDA_MIN;
+  const grid = Array.from({ length: SVENSSON_LAMBDA_GRID }, (_, i) =>
+    SVENSSON_LAMBDA_MIN * Math.pow(ratio, i / (SVENSSON_LAMBDA_GRID - 1))
+  );
+
+  let best: { params: SvenssonParams; sse: number } | null = null;
+  for (const lambda of grid) {
+    for (const lambda2 of grid) {
+      if (lambda < SVENSSON_MIN_DECAY_RATIO * lambda2) continue;
+      const candidate = fitSvenssonBetas(fitted, lambda, lambda2);
+      if (candidate && (!best || candidate.sse < best.sse)) best = candidate;
+    }
+  }
+
+  if (!best) return svenssonFromNelsonSiegel(points);
+
+  let step = Math.pow(ratio, 1 / (SVENSSON_LAMBDA_GRID - 1));
+  while (step > 1 + 1e-6) {
+    const { lambda, lambda2 } = best.params;
+    const moves = [
+      [lambda * step, lambda2], [lambda / step, lambda2],
+      [lambda, lambda2 * step], [lambda, lambda2 / step],
+    ].map(([l1, l2]) => [clamp(l1), clamp(l2)]);
+
+    let improved = false;
+    for (const [l1, l2] of moves) {
+      if (l1 < SVENSSON_MIN_DECAY_RATIO * l2) continue;
+      const candidate = fitSvenssonBetas(fitted, l1, l2);
+      if (candidate && candidate.sse < best.sse) {
+        best = candidate;
+        improved = true;
+      }
+    }
+    if (!improved) step = Math.sqrt(step);
+  }
+
+  return best.params;
+}
+
+export function bootstrapSvensson(
+  points: BootstrapPoint[],
+  currency: string,
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
+): BootstrapResult {
+  const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
+  const params = fitSvensson(sorted);
+  const valuationDate = options.valuationDate ?? today();
+  const { discountFactors, curvePoints } = buildZeroCurveGrid(
+    sorted,
+    t => svenssonRate(t, params),
+    valuationDate,
+    basis
+  );
+
+  return {
+    method: 'svensson',
+    discountFactors,
+    curvePoints,
+    inputPoints: points,
+    adjustedPoints: sorted,
+    parameters: params,
+    currency,
+    basisConvention: basis,
+    valuationDate,
+  };
+}
+
+// ============ Smith-Wilson ============
+
+/**
+ * Instruments the Smith-Wilson curve is fitted to: swaps by their fixed-leg
+ * cash flows at par (single-curve only, a forecast curve is not discounted
+ * on itself), every other pillar as a zero-coupon bond
+ */
+function smithWilsonInstruments(
+  points: BootstrapPoint[],
+  basis: BasisConvention,
+  valuationDate: Date,
+  options: BootstrapOptions
+): SmithWilsonInstrument[] {
+  return points.map(p => {
+    if (p.source === 'swap' && p.parRate !== undefined && !options.discountCurve) {
+      const parRate = p.parRate;
+      const schedule = buildSwapSchedule(p, basis, valuationDate);
+      const cashFlows = [
+        { tenor: schedule.startTenor, amount: -1 },
+        ...schedule.paymentTenors.map((t, i) => ({ tenor: t, amount: parRate * schedule.accruals[i] })),
+      ];
+      cashFlows[cashFlows.length - 1].amount += 1;
+      return { price: 0, cashFlows };
+    }
+
+    return {
+      price: calculateDiscountFactor(p.rate, p.tenor),
+      cashFlows: [{ tenor: p.tenor, amount: 1 }],
+    };
+  });
+}
+
+export function bootstrapSmithWilson(
+  points: BootstrapPoint[],
+  currency: string,
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
+): BootstrapResult {
+  const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
+  const valuationDate = options.valuationDate ?? today();
+  const settings = options.smithWilson ?? getDefaultSmithWilsonSettings(currency);
+  const params = fitSmithWilson(smithWilsonInstruments(sorted, basis, valuationDate, options), settings);
+
+  // Degenerate inputs: keep the log-linear pillar curve
+  if (!params) {
+    return { ...bootstrapQuantLibLogLinear(points, currency, basis, options), method: 'smith_wilson' };
+  }
+
+  const { discountFactors, curvePoints } = buildZeroCurveGrid(
+    sorted,
+    t => -Math.log(smithWilsonDiscount(t, params)) / t,
+    valuationDate,
+    basis
+  );
+
+  return {
+    method: 'smith_wilson',
+    discountFactors,
+    curvePoints,
+    inputPoints: points,
+    adjustedPoints: sorted,
+    smithWilsonParameters: params,
+    currency,
+    basisConvention: basis,
+    valuationDate,
   };
 }
 
@@ -748,7 +1964,8 @@ function forwardsToDfs(forwards: ForwardPoint[]): { tenor: number; df: number }[
 export function bootstrapBloomberg(
   points: BootstrapPoint[],
   currency: string,
-  basis: BasisConvention
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
 ): BootstrapResult {
   const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
   
@@ -770,17 +1987,22 @@ export function bootstrapBloomberg(
   
   // Step 3: Generate curve using log-DF interpolation
   const maxTenor = Math.max(...sorted.map(p => p.tenor), 1);
-  const step = maxTenor > 10 ? 0.5 : 0.25;
+  const valuationDate = options.valuationDate ?? today();
   
   // Initial DF curve
+  const grid = buildCurveGrid(maxTenor, valuationDate, basis);
   const initialDfs: { tenor: number; df: number }[] = [];
-  for (let t = step; t <= maxTenor + step; t += step) {
+  for (const { tenor: t } of grid) {
     const logDf = logLinearDfInterpolation(swapDfs, t);
     initialDfs.push({ tenor: t, df: Math.exp(logDf) });
   }
   
-  // Step 4: Calculate forward curve
-  const forwards: ForwardPoint[] = [];
+  // Step 4: Calculate forward curve (first segment starts at t=0)
+  const forwards: ForwardPoint[] = [{
+    startTenor: 0,
+    endTenor: initialDfs[0].tenor,
+    forwardRate: calculateZeroRate(initialDfs[0].df, initialDfs[0].tenor),
+  }];
   for (let i = 1; i < initialDfs.length; i++) {
     const fwd = calculateForwardRate(
       initialDfs[i - 1].df,
@@ -807,7 +2029,7 @@ export function bootstrapBloomberg(
   
   let prevDf: DiscountFactor | null = null;
   
-  for (const dfPoint of finalDfs.slice(1)) { // Skip t=0
+  for (const [i, dfPoint] of finalDfs.slice(1).entries()) { // Skip t=0
     const zeroRate = calculateZeroRate(dfPoint.df, dfPoint.tenor);
     const forwardRate = prevDf
       ? calculateForwardRate(prevDf.df, prevDf.tenor, dfPoint.df, dfPoint.tenor)
@@ -823,6 +2045,7 @@ export function bootstrapBloomberg(
     
     discountFactors.push({
       tenor: dfPoint.tenor,
+      date: grid[i].date,
       df: dfPoint.df,
       zeroRate,
       forwardRate: Math.max(0, forwardRate),
@@ -840,12 +2063,19 @@ export function bootstrapBloomberg(
     adjustedPoints: sorted,
     currency,
     basisConvention: basis,
+    valuationDate,
   };
 }
 
 // ============ QuantLib Methods ============
 // Implements common QuantLib bootstrapping approaches
 
+function logLinearZeroInterpolation(points: BootstrapPoint[], targetTenor: number): number {
+  if (targetTenor <= 0) return points[0]?.rate || 0;
+  const logDfPoints = points.map(p => ({ tenor: p.tenor, logDf: -p.rate * p.tenor }));
+  return -logLinearDfInterpolation(logDfPoints, targetTenor) / targetTenor;
+}
+
 /**
  * QuantLib Log-Linear Discount (PiecewiseLogLinearDiscount)
  * Interpolates log(DF) linearly
@@ -853,7 +2083,8 @@ export function bootstrapBloomberg(
 export function bootstrapQuantLibLogLinear(
   points: BootstrapPoint[],
   currency: string,
-  basis: BasisConvention
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
 ): BootstrapResult {
   const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
   const discountFactors: DiscountFactor[] = [];
@@ -865,12 +2096,12 @@ export function bootstrapQuantLibLogLinear(
   }));
   
   const maxTenor = Math.max(...sorted.map(p => p.tenor), 1);
-  const step = maxTenor > 10 ? 0.5 : 0.25;
+  const valuationDate = options.valuationDate ?? today();
   const curvePoints: { tenor: number; rate: number }[] = [];
   
   let prevDf: DiscountFactor | null = null;
   
-  for (let t = step; t <= maxTenor + step; t += step) {
+  for (const { tenor: t, date } of buildCurveGrid(maxTenor, valuationDate, basis)) {
     const logDf = logLinearDfInterpolation(logDfPoints, t);
     const df = Math.exp(logDf);
     const zeroRate = calculateZeroRate(df, t);
@@ -889,6 +2120,7 @@ export function bootstrapQuantLibLogLinear(
     
     discountFactors.push({
       tenor: t,
+      date,
       df,
       zeroRate,
       forwardRate: Math.max(0, forwardRate),
@@ -906,21 +2138,25 @@ export function bootstrapQuantLibLogLinear(
     adjustedPoints: sorted,
     currency,
     basisConvention: basis,
+    valuationDate,
   };
 }
 
 /**
  * QuantLib Log-Cubic Discount (PiecewiseLogCubicDiscount)
- * Cubic spline on log(DF)
+ * Cubic spline on log(DF), anchored at log DF(0) = 0 so coupons before the
+ * first pillar are discounted on the curve
  */
 function logCubicInterpolation(
   points: { tenor: number; logDf: number }[],
   targetTenor: number
 ): number {
-  if (points.length < 2) return points[0]?.logDf || 0;
+  if (targetTenor <= 0) return 0;
+  const nodes = points.length > 0 && points[0].tenor <= 0 ? points : [{ tenor: 0, logDf: 0 }, ...points];
+  if (nodes.length < 2) return nodes[0]?.logDf || 0;
   
   // Convert to BootstrapPoint format for spline
-  const bootstrapPoints: BootstrapPoint[] = points.map(p => ({
+  const bootstrapPoints: BootstrapPoint[] = nodes.map(p => ({
     tenor: p.tenor,
     rate: p.logDf, // Use logDf as "rate" for spline fitting
     source: 'swap' as const,
@@ -931,10 +2167,19 @@ function logCubicInterpolation(
   return evaluateSpline(coeffs, targetTenor);
 }
 
+function logCubicZeroInterpolation(points: BootstrapPoint[], targetTenor: number): number {
+  if (targetTenor <= 0) return points[0]?.rate || 0;
+  const logDfPoints = [...points]
+    .sort((a, b) => a.tenor - b.tenor)
+    .map(p => ({ tenor: p.tenor, logDf: -p.rate * p.tenor }));
+  return -logCubicInterpolation(logDfPoints, targetTenor) / targetTenor;
+}
+
 export function bootstrapQuantLibLogCubic(
   points: BootstrapPoint[],
   currency: string,
-  basis: BasisConvention
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
 ): BootstrapResult {
   const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
   const discountFactors: DiscountFactor[] = [];
@@ -946,12 +2191,12 @@ export function bootstrapQuantLibLogCubic(
   }));
   
   const maxTenor = Math.max(...sorted.map(p => p.tenor), 1);
-  const step = maxTenor > 10 ? 0.5 : 0.25;
+  const valuationDate = options.valuationDate ?? today();
   const curvePoints: { tenor: number; rate: number }[] = [];
   
   let prevDf: DiscountFactor | null = null;
   
-  for (let t = step; t <= maxTenor + step; t += step) {
+  for (const { tenor: t, date } of buildCurveGrid(maxTenor, valuationDate, basis)) {
     const logDf = logCubicInterpolation(logDfPoints, t);
     const df = Math.exp(logDf);
     const zeroRate = calculateZeroRate(df, t);
@@ -970,6 +2215,7 @@ export function bootstrapQuantLibLogCubic(
     
     discountFactors.push({
       tenor: t,
+      date,
       df,
       zeroRate,
       forwardRate: Math.max(0, forwardRate),
@@ -987,110 +2233,116 @@ export function bootstrapQuantLibLogCubic(
     adjustedPoints: sorted,
     currency,
     basisConvention: basis,
+    valuationDate,
   };
 }
 
+// ============ Forward Interpolation ============
+// Curves defined by their instantaneous forwards between pillars, integrated
+// analytically: r(t)·t = ∫₀ᵗ f(s) ds. Each segment reproduces the discrete
+// forward f^d_i = (r_i·τ_i − r_{i−1}·τ_{i−1}) / (τ_i − τ_{i−1}) exactly.
+// - flat: f = f^d_i on (τ_{i−1}, τ_i] (PiecewiseFlatForward, same curve as
+//   log-linear discount factors)
+// - linear: f linear between node values with (f_{i−1} + f_i)/2 = f^d_i,
+//   f_0 = f_1 (PiecewiseLinearForward)
+// Beyond the last pillar the last forward is held flat.
+
+export type ForwardInterpolation = 'flat' | 'linear';
+
+export interface ForwardCurve {
+  interpolation: ForwardInterpolation;
+  terms: number[];           // τ_0 = 0, τ_1 … τ_n
+  integratedRates: number[]; // r_i·τ_i (= −ln DF)
+  nodeForwards: number[];    // linear: f_i at τ_i; flat: f^d_i on (τ_{i−1}, τ_i], index 0 = f^d_1
+}
+
+export function buildForwardCurve(points: BootstrapPoint[], interpolation: ForwardInterpolation): ForwardCurve {
+  const sorted = [...points].filter(p => p.tenor > 0).sort((a, b) => a.tenor - b.tenor);
+  const terms = [0, ...sorted.map(p => p.tenor)];
+  const integratedRates = [0, ...sorted.map(p => p.rate * p.tenor)];
+
+  const discreteForwards = terms.slice(1).map((t, k) => (integratedRates[k + 1] - integratedRates[k]) / (t - terms[k]));
+  const nodeForwards = [discreteForwards[0] ?? 0];
+
+  discreteForwards.forEach((fd, k) => {
+    nodeForwards.push(interpolation === 'flat' ? fd : 2 * fd - nodeForwards[k]);
+  });
+
+  return { interpolation, terms, integratedRates, nodeForwards };
+}
+
+function forwardSegment(curve: ForwardCurve, t: number): number {
+  let i = 1;
+  while (i < curve.terms.length - 1 && t > curve.terms[i]) i++;
+  return i;
+}
+
 /**
- * QuantLib Linear Forward (PiecewiseLinearForward)
- * Linear interpolation on instantaneous forward rates
+ * Instantaneous forward f(t) of a forward-interpolated curve
  */
-function calculateInstantaneousForward(
-  rate1: number, 
-  tenor1: number, 
-  rate2: number, 
-  tenor2: number,
-  targetTenor: number
-): number {
-  if (tenor2 <= tenor1) return rate1;
-  
-  // Forward rate between t1 and t2
-  // f(t1,t2) = (r2*t2 - r1*t1) / (t2 - t1)
-  const f = (rate2 * tenor2 - rate1 * tenor1) / (tenor2 - tenor1);
-  
-  // Linear interpolation
-  const weight = (targetTenor - tenor1) / (tenor2 - tenor1);
-  return rate1 + weight * (f - rate1);
+export function forwardCurveForward(curve: ForwardCurve, t: number): number {
+  const { terms, nodeForwards, interpolation } = curve;
+  const n = terms.length - 1;
+  if (n === 0) return 0;
+  if (t >= terms[n]) return nodeForwards[n];
+
+  const i = forwardSegment(curve, Math.max(t, 0));
+  if (interpolation === 'flat') return nodeForwards[i];
+
+  const weight = (t - terms[i - 1]) / (terms[i] - terms[i - 1]);
+  return nodeForwards[i - 1] + weight * (nodeForwards[i] - nodeForwards[i - 1]);
+}
+
+/**
+ * ∫₀ᵗ f(s) ds, exact on each segment
+ */
+function forwardCurveIntegral(curve: ForwardCurve, t: number): number {
+  const { terms, integratedRates, nodeForwards, interpolation } = curve;
+  const n = terms.length - 1;
+  if (t >= terms[n]) return integratedRates[n] + nodeForwards[n] * (t - terms[n]);
+
+  const i = forwardSegment(curve, t);
+  const x = t - terms[i - 1];
+  if (interpolation === 'flat') return integratedRates[i - 1] + nodeForwards[i] * x;
+
+  const span = terms[i] - terms[i - 1];
+  return integratedRates[i - 1] + nodeForwards[i - 1] * x + (nodeForwards[i] - nodeForwards[i - 1]) * x * x / (2 * span);
+}
+
+function forwardCurveZeroRate(curve: ForwardCurve, points: BootstrapPoint[], targetTenor: number): number {
+  if (curve.terms.length < 2) return points.length > 0 ? points[0].rate : 0;
+  if (targetTenor <= 0) return forwardCurveForward(curve, 0);
+  return forwardCurveIntegral(curve, targetTenor) / targetTenor;
+}
+
+function linearForwardInterpolation(points: BootstrapPoint[], targetTenor: number): number {
+  return forwardCurveZeroRate(buildForwardCurve(points, 'linear'), points, targetTenor);
+}
+
+function flatForwardInterpolation(points: BootstrapPoint[], targetTenor: number): number {
+  return forwardCurveZeroRate(buildForwardCurve(points, 'flat'), points, targetTenor);
 }
 
+/**
+ * QuantLib Linear Forward (PiecewiseLinearForward)
+ * Linear interpolation on instantaneous forward rates
+ */
 export function bootstrapQuantLibLinearForward(
   points: BootstrapPoint[],
   currency: string,
-  basis: BasisConvention
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
 ): BootstrapResult {
   const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
-  const discountFactors: DiscountFactor[] = [];
-  
-  // Calculate instantaneous forward at each input point
-  const forwardPoints: { tenor: number; forward: number }[] = [];
-  
-  for (let i = 0; i < sorted.length; i++) {
-    let forward: number;
-    if (i === 0) {
-      forward = sorted[0].rate;
-    } else {
-      // Instantaneous forward: f(t) = r(t) + t * dr/dt
-      forward = sorted[i].rate + sorted[i].tenor * 
-        (sorted[i].rate - sorted[i - 1].rate) / (sorted[i].tenor - sorted[i - 1].tenor);
-    }
-    forwardPoints.push({ tenor: sorted[i].tenor, forward });
-  }
-  
-  const maxTenor = Math.max(...sorted.map(p => p.tenor), 1);
-  const step = maxTenor > 10 ? 0.5 : 0.25;
-  const curvePoints: { tenor: number; rate: number }[] = [];
-  
-  let prevDf: DiscountFactor | null = null;
-  
-  for (let t = step; t <= maxTenor + step; t += step) {
-    // Find surrounding forward points
-    let fwd: number;
-    if (t <= forwardPoints[0].tenor) {
-      fwd = forwardPoints[0].forward;
-    } else if (t >= forwardPoints[forwardPoints.length - 1].tenor) {
-      fwd = forwardPoints[forwardPoints.length - 1].forward;
-    } else {
-      // Linear interpolation
-      for (let i = 0; i < forwardPoints.length - 1; i++) {
-        if (t >= forwardPoints[i].tenor && t <= forwardPoints[i + 1].tenor) {
-          const weight = (t - forwardPoints[i].tenor) / 
-            (forwardPoints[i + 1].tenor - forwardPoints[i].tenor);
-          fwd = forwardPoints[i].forward + weight * 
-            (forwardPoints[i + 1].forward - forwardPoints[i].forward);
-          break;
-        }
-      }
-      fwd = fwd! || forwardPoints[0].forward;
-    }
-    
-    // Integrate forward to get zero rate
-    // r(t) ≈ (1/t) * ∫₀ᵗ f(s) ds
-    // Approximate as average forward
-    const zeroRate = fwd; // Simplified: use forward as approximation
-    
-    curvePoints.push({ tenor: t, rate: zeroRate });
-    
-    const df = calculateDiscountFactor(zeroRate, t);
-    const forwardRate = prevDf
-      ? calculateForwardRate(prevDf.df, prevDf.tenor, df, t)
-      : zeroRate;
-    
-    const closestInput = sorted.reduce((closest, p) =>
-      Math.abs(p.tenor - t) < Math.abs(closest.tenor - t) ? p : closest
-    );
-    const isExactMatch = Math.abs(closestInput.tenor - t) < 0.01;
-    const source = isExactMatch ? closestInput.source : 'interpolated';
-    
-    discountFactors.push({
-      tenor: t,
-      df,
-      zeroRate,
-      forwardRate: Math.max(0, forwardRate),
-      source,
-    });
-    
-    prevDf = discountFactors[discountFactors.length - 1];
-  }
-  
+  const valuationDate = options.valuationDate ?? today();
+  const curve = buildForwardCurve(sorted, 'linear');
+  const { discountFactors, curvePoints } = buildZeroCurveGrid(
+    sorted,
+    t => forwardCurveZeroRate(curve, sorted, t),
+    valuationDate,
+    basis
+  );
+
   return {
     method: 'quantlib_linear_forward',
     discountFactors,
@@ -1099,88 +2351,269 @@ export function bootstrapQuantLibLinearForward(
     adjustedPoints: sorted,
     currency,
     basisConvention: basis,
+    valuationDate,
   };
 }
 
 /**
- * QuantLib Monotonic Convex (inspired by Hagan-West)
- * Ensures monotonicity in forward rates
+ * QuantLib Flat Forward (PiecewiseFlatForward)
+ * Constant instantaneous forward between pillars
  */
-function monotonicConvexInterpolation(
+export function bootstrapQuantLibFlatForward(
   points: BootstrapPoint[],
-  targetTenor: number
-): number {
-  if (points.length === 0) return 0;
-  if (points.length === 1) return points[0].rate;
-  
+  currency: string,
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
+): BootstrapResult {
   const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
-  
-  if (targetTenor <= sorted[0].tenor) return sorted[0].rate;
-  if (targetTenor >= sorted[sorted.length - 1].tenor) return sorted[sorted.length - 1].rate;
-  
-  // Find segment
-  let i = 0;
-  for (let j = 0; j < sorted.length - 1; j++) {
-    if (targetTenor >= sorted[j].tenor && targetTenor <= sorted[j + 1].tenor) {
-      i = j;
-      break;
-    }
-  }
-  
-  const t1 = sorted[i].tenor;
-  const t2 = sorted[i + 1].tenor;
-  const r1 = sorted[i].rate;
-  const r2 = sorted[i + 1].rate;
-  
-  // Local parameter
-  const x = (targetTenor - t1) / (t2 - t1);
-  
-  // Calculate discrete forward
-  const f = (r2 * t2 - r1 * t1) / (t2 - t1);
-  
-  // Monotonicity preservation using Hyman filter
-  let slope = (r2 - r1) / (t2 - t1);
-  
-  // Get neighboring slopes for monotonicity check
-  let slopePrev = slope;
-  let slopeNext = slope;
-  
-  if (i > 0) {
-    slopePrev = (r1 - sorted[i - 1].rate) / (t1 - sorted[i - 1].tenor);
-  }
-  if (i < sorted.length - 2) {
-    slopeNext = (sorted[i + 2].rate - r2) / (sorted[i + 2].tenor - t2);
-  }
-  
-  // Hyman monotonicity constraint
-  if (slopePrev * slope < 0) slope = 0;
-  if (slope * slopeNext < 0) slope = 0;
-  
-  // Hermite interpolation with monotonicity
-  const h00 = 2 * x * x * x - 3 * x * x + 1;
-  const h10 = x * x * x - 2 * x * x + x;
-  const h01 = -2 * x * x * x + 3 * x * x;
-  const h11 = x * x * x - x * x;
-  
-  const dt = t2 - t1;
-  return h00 * r1 + h10 * dt * slope + h01 * r2 + h11 * dt * slope;
+  const valuationDate = options.valuationDate ?? today();
+  const curve = buildForwardCurve(sorted, 'flat');
+  const { discountFactors, curvePoints } = buildZeroCurveGrid(
+    sorted,
+    t => forwardCurveZeroRate(curve, sorted, t),
+    valuationDate,
+    basis
+  );
+
+  return {
+    method: 'quantlib_flat_forward',
+    discountFactors,
+    curvePoints,
+    inputPoints: points,
+    adjustedPoints: sorted,
+    currency,
+    basisConvention: basis,
+    valuationDate,
+  };
+}
+
+/**
+ * Hagan-West (2006) monotone convex interpolation
+ *
+ * Works on the discrete forwards f^d_i = (r_i·τ_i − r_{i−1}·τ_{i−1}) / (τ_i − τ_{i−1})
+ * (τ_0 = 0). Instantaneous forwards are estimated at the nodes, and on each
+ * interval the forward is f^d_i + g(x), x = (τ − τ_{i−1}) / (τ_i − τ_{i−1}),
+ * where g is picked among four shapes (quadratic or quadratic joined to a
+ * flat part) according to g(0) and g(1) so that ∫₀¹ g = 0: every input rate
+ * is reproduced exactly and the forward stays monotone/convex between nodes.
+ *
+ * - Amelioration: nodal forwards are moved, within the range of the two
+ *   adjacent discrete forwards, to values for which the neighbouring
+ *   intervals use the plain quadratic (region i), removing flat spots and
+ *   kinks where the data allows it
+ * - Positivity: nodal forwards are collared to [0, 2·f^d] so that the
+ *   forward curve is non-negative whenever the discrete forwards are
+ */
+
+export interface MonotoneConvexOptions {
+  amelioration?: boolean; // default true
+  positivity?: boolean;   // default true
+}
+
+export interface MonotoneConvexCurve {
+  terms: number[];             // τ_0 = 0, τ_1 … τ_n
+  integratedRates: number[];   // r_i·τ_i (= −ln DF)
+  discreteForwards: number[];  // f^d_i on (τ_{i−1}, τ_i], index 0 unused
+  nodeForwards: number[];      // f_i at τ_i
+}
+
+const MONOTONE_CONVEX_AMELIORATION_SWEEPS = 10;
+
+function clampTo(value: number, bound1: number, bound2: number): number {
+  return Math.max(Math.min(bound1, bound2), Math.min(Math.max(bound1, bound2), value));
+}
+
+/**
+ * Range of g(1) keeping an interval in the quadratic region given g(0)
+ * (the relation is symmetric, so it also gives g(0) from g(1))
+ */
+function quadraticRegionRange(g: number): [number, number] {
+  return [-g / 2, -2 * g];
+}
+
+export function buildMonotoneConvexCurve(
+  points: BootstrapPoint[],
+  options: MonotoneConvexOptions = {}
+): MonotoneConvexCurve {
+  const { amelioration = true, positivity = true } = options;
+  const sorted = [...points].filter(p => p.tenor > 0).sort((a, b) => a.tenor - b.tenor);
+  const terms = [0, ...sorted.map(p => p.tenor)];
+  const integratedRates = [0, ...sorted.map(p => p.rate * p.tenor)];
+  const n = terms.length - 1;
+
+  const fd = [0];
+  for (let i = 1; i <= n; i++) {
+    fd.push((integratedRates[i] - integratedRates[i - 1]) / (terms[i] - terms[i - 1]));
+  }
+
+  if (n === 0) return { terms, integratedRates, discreteForwards: fd, nodeForwards: [0] };
+  if (n === 1) return { terms, integratedRates, discreteForwards: fd, nodeForwards: [fd[1], fd[1]] };
+
+  // Interior nodes: interval-length weighted average of the adjacent discrete forwards
+  const f = new Array<number>(n + 1).fill(0);
+  for (let i = 1; i < n; i++) {
+    const span = terms[i + 1] - terms[i - 1];
+    f[i] = ((terms[i] - terms[i - 1]) / span) * fd[i + 1] + ((terms[i + 1] - terms[i]) / span) * fd[i];
+  }
+
+  if (amelioration) {
+    for (let sweep = 0; sweep < MONOTONE_CONVEX_AMELIORATION_SWEEPS; sweep++) {
+      let moved = false;
+      for (let i = 1; i < n; i++) {
+        const left = i > 1 ? f[i - 1] : fd[1] - 0.5 * (f[1] - fd[1]);
+        const right = i < n - 1 ? f[i + 1] : fd[n] - 0.5 * (f[n - 1] - fd[n]);
+
+        // Interval i: g0 = left − f^d_i; interval i+1: g1 = right − f^d_{i+1}
+        const [a1, a2] = quadraticRegionRange(left - fd[i]).map(g => fd[i] + g);
+        const [b1, b2] = quadraticRegionRange(right - fd[i + 1]).map(g => fd[i + 1] + g);
+        const low = Math.max(Math.min(a1, a2), Math.min(b1, b2), Math.min(fd[i], fd[i + 1]));
+        const high = Math.min(Math.max(a1, a2), Math.max(b1, b2), Math.max(fd[i], fd[i + 1]));
+        if (low > high) continue;
+
+        const value = clampTo(f[i], low, high);
+        if (Math.abs(value - f[i]) > 1e-15) {
+          f[i] = value;
+          moved = true;
+        }
+      }
+      if (!moved) break;
+    }
+  }
+
+  // End nodes: g(0) = −g(1)/2 on the first interval (and mirrored on the last)
+  f[0] = fd[1] - 0.5 * (f[1] - fd[1]);
+  f[n] = fd[n] - 0.5 * (f[n - 1] - fd[n]);
+
+  if (positivity) {
+    f[0] = clampTo(f[0], 0, 2 * fd[1]);
+    for (let i = 1; i < n; i++) {
+      f[i] = clampTo(f[i], 0, 2 * Math.min(fd[i], fd[i + 1]));
+    }
+    f[n] = clampTo(f[n], 0, 2 * fd[n]);
+  }
+
+  return { terms, integratedRates, discreteForwards: fd, nodeForwards: f };
+}
+
+/**
+ * g(x) on [0, 1] and its integral G(x) = ∫₀ˣ g for the four Hagan-West regions
+ */
+function monotoneConvexShape(g0: number, g1: number, x: number): { g: number; G: number } {
+  if (g0 === 0 && g1 === 0) return { g: 0, G: 0 };
+
+  // (i) plain quadratic
+  if ((g0 < 0 && -g0 / 2 <= g1 && g1 <= -2 * g0) || (g0 > 0 && -g0 / 2 >= g1 && g1 >= -2 * g0)) {
+    return {
+      g: g0 * (1 - 4 * x + 3 * x * x) + g1 * (-2 * x + 3 * x * x),
+      G: g0 * (x - 2 * x * x + x * x * x) + g1 * (-x * x + x * x * x),
+    };
+  }
+
+  // (ii) flat, then quadratic to g1
+  if ((g0 < 0 && g1 > -2 * g0) || (g0 > 0 && g1 < -2 * g0)) {
+    const eta = (g1 + 2 * g0) / (g1 - g0);
+    if (x <= eta) return { g: g0, G: g0 * x };
+    const u = (x - eta) / (1 - eta);
+    return {
+      g: g0 + (g1 - g0) * u * u,
+      G: g0 * x + ((g1 - g0) * (x - eta) * u * u) / 3,
+    };
+  }
+
+  // (iii) quadratic from g0, then flat
+  if ((g0 > 0 && 0 > g1 && g1 > -g0 / 2) || (g0 < 0 && 0 < g1 && g1 < -g0 / 2)) {
+    const eta = (3 * g1) / (g1 - g0);
+    if (x >= eta) return { g: g1, G: g1 * x + ((g0 - g1) * eta) / 3 };
+    const u = (eta - x) / eta;
+    return {
+      g: g1 + (g0 - g1) * u * u,
+      G: g1 * x + ((g0 - g1) * (eta - (eta - x) * u * u)) / 3,
+    };
+  }
+
+  // (iv) g0 and g1 of the same sign: two quadratics meeting at a level A
+  const eta = g1 / (g1 + g0);
+  const A = (-g0 * g1) / (g0 + g1);
+  if (x <= eta && eta > 0) {
+    const u = (eta - x) / eta;
+    return {
+      g: A + (g0 - A) * u * u,
+      G: A * x + ((g0 - A) * (eta - (eta - x) * u * u)) / 3,
+    };
+  }
+  const u = (x - eta) / (1 - eta);
+  return {
+    g: A + (g1 - A) * u * u,
+    G: A * x + ((g0 - A) * eta) / 3 + ((g1 - A) * (x - eta) * u * u) / 3,
+  };
+}
+
+function monotoneConvexInterval(curve: MonotoneConvexCurve, t: number): { i: number; x: number } {
+  const { terms } = curve;
+  let i = 1;
+  while (i < terms.length - 1 && t > terms[i]) i++;
+  return { i, x: (t - terms[i - 1]) / (terms[i] - terms[i - 1]) };
+}
+
+/**
+ * Instantaneous forward of a monotone convex curve (flat beyond the last node)
+ */
+export function monotoneConvexForward(curve: MonotoneConvexCurve, t: number): number {
+  const n = curve.terms.length - 1;
+  if (n === 0) return 0;
+  if (t >= curve.terms[n]) return curve.nodeForwards[n];
+
+  const { i, x } = monotoneConvexInterval(curve, Math.max(t, 0));
+  const fd = curve.discreteForwards[i];
+  return fd + monotoneConvexShape(curve.nodeForwards[i - 1] - fd, curve.nodeForwards[i] - fd, x).g;
+}
+
+/**
+ * r(τ)·τ = r_{i−1}·τ_{i−1} + f^d_i·(τ − τ_{i−1}) + (τ_i − τ_{i−1})·G(x)
+ */
+function monotoneConvexIntegratedRate(curve: MonotoneConvexCurve, t: number): number {
+  const { i, x } = monotoneConvexInterval(curve, t);
+  const { terms, integratedRates, discreteForwards, nodeForwards } = curve;
+  const fd = discreteForwards[i];
+  const span = terms[i] - terms[i - 1];
+  const { G } = monotoneConvexShape(nodeForwards[i - 1] - fd, nodeForwards[i] - fd, x);
+  return integratedRates[i - 1] + fd * (t - terms[i - 1]) + span * G;
+}
+
+/**
+ * Zero rate on the monotone convex curve; flat zero rate beyond the last
+ * pillar, as the other interpolators
+ */
+function monotonicConvexInterpolation(
+  points: BootstrapPoint[],
+  targetTenor: number
+): number {
+  const curve = buildMonotoneConvexCurve(points);
+  const n = curve.terms.length - 1;
+
+  if (n === 0) return points.length > 0 ? points[0].rate : 0;
+  if (targetTenor >= curve.terms[n]) return curve.integratedRates[n] / curve.terms[n];
+  if (targetTenor <= 0) return curve.nodeForwards[0];
+
+  return monotoneConvexIntegratedRate(curve, targetTenor) / targetTenor;
 }
 
 export function bootstrapQuantLibMonotonicConvex(
   points: BootstrapPoint[],
   currency: string,
-  basis: BasisConvention
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
 ): BootstrapResult {
   const sorted = [...points].sort((a, b) => a.tenor - b.tenor);
   const discountFactors: DiscountFactor[] = [];
   
   const maxTenor = Math.max(...sorted.map(p => p.tenor), 1);
-  const step = maxTenor > 10 ? 0.5 : 0.25;
+  const valuationDate = options.valuationDate ?? today();
   const curvePoints: { tenor: number; rate: number }[] = [];
   
   let prevDf: DiscountFactor | null = null;
   
-  for (let t = step; t <= maxTenor + step; t += step) {
+  for (const { tenor: t, date } of buildCurveGrid(maxTenor, valuationDate, basis)) {
     const rate = monotonicConvexInterpolation(sorted, t);
     curvePoints.push({ tenor: t, rate });
     
@@ -1197,6 +2630,7 @@ export function bootstrapQuantLibMonotonicConvex(
     
     discountFactors.push({
       tenor: t,
+      date,
       df,
       zeroRate: rate,
       forwardRate: Math.max(0, forwardRate),
@@ -1214,19 +2648,504 @@ export function bootstrapQuantLibMonotonicConvex(
     adjustedPoints: sorted,
     currency,
     basisConvention: basis,
+    valuationDate,
+  };
+}
+
+// ============ Turn-of-Period Effects ============
+// The curve is bootstrapped on a base forward curve and the turn premiums
+// are layered on top: DF(t) = DF_base(t) × exp(−Σ s × |[0, t] ∩ turn|).
+// Futures are quoted with the premium inside their accrual period, so they
+// are netted before bootstrapping; swap pillars are solved on base + turns.
+
+/**
+ * Turns on the curve's time axis, dropping those already past
+ */
+export function resolveTurnEffects(turns: TurnSpread[], valuationDate: Date): TurnEffect[] {
+  return turns
+    .map(turn => ({
+      date: turn.date,
+      startTenor: yearsBetween(valuationDate, turn.date),
+      endTenor: yearsBetween(valuationDate, addDays(turn.date, turn.days ?? 1)),
+      spread: turn.spreadBp / 10000,
+    }))
+    .filter(turn => turn.endTenor > 0 && turn.spread !== 0)
+    .sort((a, b) => a.startTenor - b.startTenor);
+}
+
+/**
+ * ∫₀ᵗ of the turn premiums
+ */
+function turnIntegral(turns: TurnEffect[], tenor: number): number {
+  return turns.reduce(
+    (sum, turn) => sum + turn.spread * Math.max(0, Math.min(tenor, turn.endTenor) - Math.max(0, turn.startTenor)),
+    0
+  );
+}
+
+/**
+ * Last business day of each quarter (or year only) up to the horizon, with
+ * the premium applying until the next business day
+ */
+export function generateTurnSpreads(
+  valuationDate: Date,
+  basis: BasisConvention,
+  years: number,
+  yearEndBp: number,
+  quarterEndBp = 0
+): TurnSpread[] {
+  const isBusinessDay = businessDayPredicate(basis.calendars);
+  const turns: TurnSpread[] = [];
+  const startYear = valuationDate.getUTCFullYear();
+
+  for (let year = startYear; year <= startYear + years; year++) {
+    for (const month of [2, 5, 8, 11]) {
+      const spreadBp = month === 11 ? yearEndBp : quarterEndBp;
+      if (spreadBp === 0) continue;
+      const date = adjustDate(makeDate(year, month + 1, 0), 'preceding', isBusinessDay);
+      if (date < valuationDate || yearsBetween(valuationDate, date) > years) continue;
+      turns.push({ date, days: daysBetween(date, addBusinessDays(date, 1, isBusinessDay)), spreadBp });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Take the turn premium out of the futures forwards (average over each
+ * contract's remaining accrual period)
+ */
+function netTurnEffects(points: BootstrapPoint[], turns: TurnEffect[], valuationDate: Date): BootstrapPoint[] {
+  if (turns.length === 0) return points;
+
+  return points.map(p => {
+    if (p.source !== 'futures' || !p.startDate || !p.endDate) return p;
+    const start = Math.max(0, yearsBetween(valuationDate, p.startDate));
+    const end = yearsBetween(valuationDate, p.endDate);
+    if (end <= start) return p;
+    return { ...p, rate: p.rate - (turnIntegral(turns, end) - turnIntegral(turns, start)) / (end - start) };
+  });
+}
+
+/**
+ * Pillar interpolator of the base curve with the turns layered on top
+ */
+function withTurnEffects(interpolate: ZeroRateInterpolator, turns: TurnEffect[]): ZeroRateInterpolator {
+  if (turns.length === 0) return interpolate;
+  return (points, tenor) => interpolate(points, tenor) + (tenor > 0 ? turnIntegral(turns, tenor) / tenor : 0);
+}
+
+/**
+ * Layer the turns on a base curve: grid rates, DFs and forwards are
+ * recomputed and the turns are kept for zeroRateAt
+ */
+function applyTurnEffects(result: BootstrapResult, turns: TurnEffect[]): BootstrapResult {
+  if (turns.length === 0 || result.discountFactors.length === 0) return result;
+
+  const withTurn = (tenor: number, rate: number) => (tenor > 0 ? rate + turnIntegral(turns, tenor) / tenor : rate);
+
+  const discountFactors: DiscountFactor[] = [];
+  result.discountFactors.forEach((row, i) => {
+    const zeroRate = withTurn(row.tenor, row.zeroRate);
+    const df = calculateDiscountFactor(zeroRate, row.tenor);
+    const prev = discountFactors[i - 1];
+    const forwardRate = prev ? calculateForwardRate(prev.df, prev.tenor, df, row.tenor) : zeroRate;
+    discountFactors.push({ ...row, df, zeroRate, forwardRate: Math.max(0, forwardRate) });
+  });
+
+  return {
+    ...result,
+    discountFactors,
+    curvePoints: result.curvePoints.map(p => ({ tenor: p.tenor, rate: withTurn(p.tenor, p.rate) })),
+    turns,
+  };
+}
+
+// ============ Extrapolation ============
+
+// Grid rows closer than this to the first or last pillar keep the method's own values
+const EXTRAPOLATION_TOLERANCE = 0.01;
+// Grid dates past the horizon by less than this still belong to it (leap days, date rolls)
+const HORIZON_TOLERANCE = 0.1;
+
+/**
+ * Anchor the extrapolation policy on the method's curve at its first and
+ * last pillars. The short end is anchored on the method's rate without the
+ * turns, which zeroRateAt layers on top as inside the pillars.
+ * Smith-Wilson reuses the curve's own fit, otherwise it is fitted to the
+ * pillar discount factors (zero-coupon bonds) with the UFR settings.
+ */
+function buildExtrapolation(
+  result: BootstrapResult,
+  settings: ExtrapolationSettings,
+  options: BootstrapOptions
+): CurveExtrapolation | undefined {
+  const tenors = Array.from(new Set(result.adjustedPoints.map(p => p.tenor)))
+    .filter(t => t > 0)
+    .sort((a, b) => a - b);
+  if (tenors.length === 0) return undefined;
+
+  const n = tenors.length;
+  // A meeting step curve starts at t = 0: no short end to extrapolate
+  const firstTenor = result.meetingSteps?.length ? 0 : tenors[0];
+  const firstRate = methodZeroRate(result, firstTenor);
+  const lastTenor = tenors[n - 1];
+  const lastRate = zeroRateAt(result, lastTenor);
+  const previous = tenors[n - 2];
+
+  // Left-hand instantaneous forward at the last pillar: d(r·t)/dt
+  const h = Math.min(1 / 365, lastTenor / 2);
+  const lastForward = (lastRate * lastTenor - zeroRateAt(result, lastTenor - h) * (lastTenor - h)) / h;
+
+  let smithWilson: SmithWilsonParams | undefined;
+  if (settings.method === 'smith_wilson') {
+    smithWilson = result.smithWilsonParameters ?? fitSmithWilson(
+      tenors.map(t => ({ price: discountFactorAt(result, t), cashFlows: [{ tenor: t, amount: 1 }] })),
+      options.smithWilson ?? getDefaultSmithWilsonSettings(result.currency)
+    ) ?? undefined;
+  }
+
+  return {
+    ...settings,
+    firstTenor,
+    firstRate,
+    firstSlope: n > 1 ? (methodZeroRate(result, tenors[1]) - firstRate) / (tenors[1] - firstTenor) : 0,
+    lastTenor,
+    lastRate,
+    lastSlope: n > 1 ? (lastRate - zeroRateAt(result, previous)) / (lastTenor - previous) : 0,
+    lastForward,
+    smithWilson,
+  };
+}
+
+/**
+ * Zero rate beyond the last pillar under the extrapolation policy
+ */
+function extrapolatedZeroRate(extrapolation: CurveExtrapolation, tenor: number): number {
+  const { method, lastTenor, lastRate, lastSlope, lastForward, smithWilson } = extrapolation;
+
+  switch (method) {
+    case 'flat_forward':
+      return (lastRate * lastTenor + lastForward * (tenor - lastTenor)) / tenor;
+    case 'linear_zero':
+      return lastRate + lastSlope * (tenor - lastTenor);
+    case 'smith_wilson':
+      if (smithWilson) return -Math.log(smithWilsonDiscount(tenor, smithWilson)) / tenor;
+      return lastRate;
+    default:
+      return lastRate;
+  }
+}
+
+/**
+ * Output tenor under the extrapolation policy: below the first pillar or
+ * beyond the last one, clear of both
+ */
+function isExtrapolatedTenor(extrapolation: CurveExtrapolation, tenor: number): boolean {
+  return tenor < extrapolation.firstTenor - EXTRAPOLATION_TOLERANCE
+    || tenor > extrapolation.lastTenor + EXTRAPOLATION_TOLERANCE;
+}
+
+/**
+ * Zero rate below the first pillar under the extrapolation policy. A flat
+ * forward from DF(0) = 1 keeps the first pillar's zero rate.
+ */
+function shortEndZeroRate(extrapolation: CurveExtrapolation, tenor: number): number {
+  const { method, firstTenor, firstRate, firstSlope, smithWilson } = extrapolation;
+
+  switch (method) {
+    case 'linear_zero':
+      return firstRate + firstSlope * (tenor - firstTenor);
+    case 'smith_wilson':
+      if (smithWilson && tenor > 0) return -Math.log(smithWilsonDiscount(tenor, smithWilson)) / tenor;
+      return firstRate;
+    default:
+      return firstRate;
+  }
+}
+
+/**
+ * Apply the extrapolation policy: grid rows below the first pillar and
+ * beyond the last one are recomputed and tagged 'extrapolated', and the grid
+ * is extended (or cut) to the horizon
+ */
+function applyExtrapolation(result: BootstrapResult, options: BootstrapOptions): BootstrapResult {
+  const settings = options.extrapolation;
+  if (!settings || result.discountFactors.length === 0) return result;
+
+  const extrapolation = buildExtrapolation(result, settings, options);
+  if (!extrapolation) return result;
+
+  const curve: BootstrapResult = { ...result, extrapolation };
+  const isExtrapolated = (t: number) => isExtrapolatedTenor(extrapolation, t);
+
+  // Method grid up to the horizon, then the horizon grid beyond it
+  const horizon = settings.horizon;
+  const methodGrid = horizon
+    ? result.discountFactors.filter(df => df.tenor <= horizon + HORIZON_TOLERANCE)
+    : result.discountFactors;
+  const gridEnd = methodGrid[methodGrid.length - 1]?.tenor ?? 0;
+  const extension = horizon && horizon > gridEnd
+    ? buildCurveGrid(horizon, result.valuationDate, result.basisConvention)
+      .filter(g => g.tenor > gridEnd + EXTRAPOLATION_TOLERANCE && g.tenor <= horizon + HORIZON_TOLERANCE)
+    : [];
+
+  const rows: DiscountFactor[] = [
+    ...methodGrid,
+    ...extension.map(g => ({ tenor: g.tenor, date: g.date, df: 0, zeroRate: 0, source: 'extrapolated' as const })),
+  ];
+
+  const discountFactors: DiscountFactor[] = [];
+  rows.forEach((row, i) => {
+    const prev = discountFactors[i - 1];
+    if (!isExtrapolated(row.tenor)) {
+      // First row after the short end: forward from the extrapolated row
+      const forwardRate = prev?.source === 'extrapolated'
+        ? Math.max(0, calculateForwardRate(prev.df, prev.tenor, row.df, row.tenor))
+        : row.forwardRate;
+      discountFactors.push({ ...row, forwardRate });
+      return;
+    }
+
+    const zeroRate = zeroRateAt(curve, row.tenor);
+    const df = calculateDiscountFactor(zeroRate, row.tenor);
+    const forwardRate = prev ? calculateForwardRate(prev.df, prev.tenor, df, row.tenor) : zeroRate;
+    discountFactors.push({ tenor: row.tenor, date: row.date, df, zeroRate, forwardRate: Math.max(0, forwardRate), source: 'extrapolated' });
+  });
+
+  return {
+    ...curve,
+    discountFactors,
+    curvePoints: discountFactors.map(df => ({ tenor: df.tenor, rate: df.zeroRate })),
   };
 }
 
+// ============ Output Grid ============
+
+// Standard market tenors: [label, weeks, months]
+const STANDARD_OUTPUT_TENORS: [string, number, number][] = [
+  ['1W', 1, 0], ['2W', 2, 0], ['1M', 0, 1], ['2M', 0, 2], ['3M', 0, 3], ['6M', 0, 6], ['9M', 0, 9],
+  ['1Y', 0, 12], ['18M', 0, 18], ['2Y', 0, 24], ['3Y', 0, 36], ['4Y', 0, 48], ['5Y', 0, 60],
+  ['6Y', 0, 72], ['7Y', 0, 84], ['8Y', 0, 96], ['9Y', 0, 108], ['10Y', 0, 120], ['12Y', 0, 144],
+  ['15Y', 0, 180], ['20Y', 0, 240], ['25Y', 0, 300], ['30Y', 0, 360], ['40Y', 0, 480], ['50Y', 0, 600],
+];
+
+// Output rows this close to a pillar report the pillar's source
+const PILLAR_MATCH_TOLERANCE = 0.01;
+
+/**
+ * Output grid dates up to the end of the method grid (modified following
+ * on the curve's calendars), or the caller's dates after the valuation date
+ */
+function buildOutputGrid(
+  grid: OutputGrid,
+  endTenor: number,
+  valuationDate: Date,
+  basis: BasisConvention
+): GridPoint[] {
+  if (grid.type === 'dates') {
+    const unique = Array.from(new Set((grid.dates ?? []).map(d => d.getTime())))
+      .map(time => new Date(time))
+      .filter(date => date > valuationDate)
+      .sort((a, b) => a.getTime() - b.getTime());
+    return unique.map(date => ({ tenor: yearsBetween(valuationDate, date), date }));
+  }
+
+  const offsets: [number, number][] = grid.type === 'standard'
+    ? STANDARD_OUTPUT_TENORS.map(([, weeks, months]) => [weeks, months])
+    : Array.from(
+      { length: Math.ceil(endTenor * (grid.type === 'weekly' ? 52 : 12)) + 1 },
+      (_, k) => (grid.type === 'weekly' ? [k + 1, 0] : [0, k + 1])
+    );
+
+  const isBusinessDay = businessDayPredicate(basis.calendars);
+  const points: GridPoint[] = [];
+  for (const [weeks, months] of offsets) {
+    const date = adjustDate(addMonths(addDays(valuationDate, 7 * weeks), months), 'modified_following', isBusinessDay);
+    const tenor = yearsBetween(valuationDate, date);
+    if (tenor > endTenor + HORIZON_TOLERANCE) break;
+    if (points.length === 0 || tenor > points[points.length - 1].tenor) points.push({ tenor, date });
+  }
+  return points;
+}
+
+/**
+ * Report the discount factors on the requested output grid. The curve
+ * itself (curvePoints, zeroRateAt) keeps the method's own sampling.
+ */
+function applyOutputGrid(result: BootstrapResult, options: BootstrapOptions): BootstrapResult {
+  const grid = options.outputGrid;
+  if (!grid || grid.type === 'method' || result.discountFactors.length === 0) return result;
+
+  const endTenor = result.discountFactors[result.discountFactors.length - 1].tenor;
+  const points = buildOutputGrid(grid, endTenor, result.valuationDate, result.basisConvention);
+  if (points.length === 0) return result;
+
+  const pillars = result.adjustedPoints;
+  const extrapolation = result.extrapolation;
+
+  const discountFactors: DiscountFactor[] = [];
+  for (const { tenor, date } of points) {
+    const zeroRate = zeroRateAt(result, tenor);
+    const df = calculateDiscountFactor(zeroRate, tenor);
+    const prev = discountFactors[discountFactors.length - 1];
+    const forwardRate = prev ? calculateForwardRate(prev.df, prev.tenor, df, tenor) : zeroRate;
+
+    const pillar = pillars.find(p => Math.abs(p.tenor - tenor) < PILLAR_MATCH_TOLERANCE);
+    const source: DiscountFactor['source'] = pillar
+      ? pillar.source
+      : extrapolation && isExtrapolatedTenor(extrapolation, tenor)
+        ? 'extrapolated'
+        : 'interpolated';
+
+    discountFactors.push({ tenor, date, df, zeroRate, forwardRate: Math.max(0, forwardRate), source });
+  }
+
+  return { ...result, discountFactors };
+}
+
+// ============ Curve Evaluation ============
+
+/**
+ * Zero rate of a bootstrapped curve at any tenor, using the same
+ * interpolation the method applied on its output grid
+ */
+export function zeroRateAt(result: BootstrapResult, tenor: number): number {
+  const shift = result.zeroShift ? zeroShiftAt(result.zeroShift, tenor) : 0;
+  const extrapolation = result.extrapolation;
+  if (extrapolation && tenor > extrapolation.lastTenor) {
+    return extrapolatedZeroRate(extrapolation, tenor) + shift;
+  }
+
+  const turns = result.turns;
+  const baseRate = extrapolation && tenor < extrapolation.firstTenor
+    ? shortEndZeroRate(extrapolation, tenor)
+    : methodZeroRate(result, tenor);
+  return baseRate + (turns && tenor > 0 ? turnIntegral(turns, tenor) / tenor : 0) + shift;
+}
+
+/**
+ * Scenario shift at a tenor: linear between the sorted grid points, flat
+ * outside
+ */
+function zeroShiftAt(points: { tenor: number; rate: number }[], tenor: number): number {
+  if (points.length === 0) return 0;
+  if (tenor <= points[0].tenor) return points[0].rate;
+
+  for (let i = 1; i < points.length; i++) {
+    if (tenor <= points[i].tenor) {
+      const prev = points[i - 1];
+      const weight = (tenor - prev.tenor) / (points[i].tenor - prev.tenor);
+      return prev.rate + weight * (points[i].rate - prev.rate);
+    }
+  }
+  return points[points.length - 1].rate;
+}
+
+/**
+ * Zero rate of the method's (base) curve, before turn effects; the meeting
+ * steps take its place up to their last node
+ */
+function methodZeroRate(result: BootstrapResult, tenor: number): number {
+  if (result.meetingSteps && isMeetingStepTenor(result.meetingSteps, tenor)) {
+    return meetingStepZeroRate(result.meetingSteps, tenor);
+  }
+
+  switch (result.method) {
+    case 'nelson_siegel':
+      if (result.parameters) return nelsonSiegelRate(tenor, result.parameters);
+      break;
+    case 'svensson':
+      if (result.parameters && 'beta3' in result.parameters) return svenssonRate(tenor, result.parameters);
+      break;
+    case 'smith_wilson':
+      if (result.smithWilsonParameters && tenor > 0) {
+        return -Math.log(smithWilsonDiscount(tenor, result.smithWilsonParameters)) / tenor;
+      }
+      break;
+    case 'bloomberg': {
+      // Curve only exists on its own grid: log-linear on the grid DFs
+      // (turn premiums taken back out of the grid rates)
+      const turns = result.turns ?? [];
+      const logDfPoints = [
+        { tenor: 0, logDf: 0 },
+        ...result.curvePoints.map(p => ({ tenor: p.tenor, logDf: -p.rate * p.tenor + turnIntegral(turns, p.tenor) })),
+      ];
+      if (tenor <= 0 || logDfPoints.length < 2) return result.curvePoints[0]?.rate || 0;
+      return -logLinearDfInterpolation(logDfPoints, tenor) / tenor;
+    }
+  }
+
+  return getPillarInterpolator(result.method)(result.adjustedPoints, tenor);
+}
+
+export function discountFactorAt(result: BootstrapResult, tenor: number): number {
+  if (tenor <= 0) return 1;
+  return calculateDiscountFactor(zeroRateAt(result, tenor), tenor);
+}
+
+// ============ Main Bootstrap ============
+
+function runBootstrapMethod(
+  method: BootstrapMethod,
+  points: BootstrapPoint[],
+  currency: string,
+  basis: BasisConvention,
+  options: BootstrapOptions = {}
+): BootstrapResult {
+  switch (method) {
+    case 'linear':
+      return bootstrapLinear(points, currency, basis, options);
+    case 'cubic_spline':
+      return bootstrapCubicSpline(points, currency, basis, options);
+    case 'nelson_siegel':
+      return bootstrapNelsonSiegel(points, currency, basis, options);
+    case 'svensson':
+      return bootstrapSvensson(points, currency, basis, options);
+    case 'smith_wilson':
+      return bootstrapSmithWilson(points, currency, basis, options);
+    case 'bloomberg':
+      return bootstrapBloomberg(points, currency, basis, options);
+    case 'quantlib_log_linear':
+      return bootstrapQuantLibLogLinear(points, currency, basis, options);
+    case 'quantlib_log_cubic':
+      return bootstrapQuantLibLogCubic(points, currency, basis, options);
+    case 'quantlib_linear_forward':
+      return bootstrapQuantLibLinearForward(points, currency, basis, options);
+    case 'quantlib_flat_forward':
+      return bootstrapQuantLibFlatForward(points, currency, basis, options);
+    case 'quantlib_monotonic_convex':
+      return bootstrapQuantLibMonotonicConvex(points, currency, basis, options);
+    default:
+      return bootstrapLinear(points, currency, basis, options);
+  }
+}
+
 export function bootstrap(
   swapPoints: BootstrapPoint[],
   futuresPoints: BootstrapPoint[],
   method: BootstrapMethod,
-  currency: string = 'USD'
+  currency: string = 'USD',
+  options: BootstrapOptions = {}
 ): BootstrapResult {
-  const basis = getBasisConvention(currency);
-  
-  // Step 1: Prepare points with proper conventions
-  const allPoints = prepareBootstrapPoints(swapPoints, futuresPoints, currency);
+  const basis = resolveBasisConvention(currency, options);
+  const valuationDate = options.valuationDate ?? today();
+  const curveOptions = { ...options, valuationDate };
+
+  // Step 1: Date the instruments, convexity-adjust the futures and prepare
+  // points with proper conventions (optionally chaining the futures strip)
+  const datedSwaps = assignInstrumentDates(swapPoints, basis, valuationDate);
+  const datedFutures = applyConvexityAdjustment(
+    assignInstrumentDates(futuresPoints, basis, valuationDate),
+    options.convexity
+  );
+  const turns = resolveTurnEffects(options.turns ?? [], valuationDate);
+  const preparedPoints = netTurnEffects(prepareBootstrapPoints(datedSwaps, datedFutures, currency), turns, valuationDate);
+  const allPoints = options.futuresMode === 'strip'
+    ? chainFuturesStrip(preparedPoints, valuationDate)
+    : options.futuresMode === 'meetings'
+      ? buildMeetingStepPoints(preparedPoints, valuationDate, currency, options.meetingDates)
+      : preparedPoints;
   
   if (allPoints.length === 0) {
     return {
@@ -1237,36 +3156,46 @@ export function bootstrap(
       adjustedPoints: [],
       currency,
       basisConvention: basis,
+      valuationDate,
     };
   }
   
-  // Step 2: Adjust futures to be consistent with swaps
-  const adjustedPoints = adjustFuturesToSwaps(allPoints);
+  const meetingSteps = allPoints
+    .filter(p => p.meetingStep)
+    .map(p => ({ tenor: p.tenor, rate: p.rate }));
+  const interpolate = withTurnEffects(withMeetingSteps(getPillarInterpolator(method), meetingSteps), turns);
+
+  // Step 2: Par-bootstrap the swaps against the raw futures, then
+  // adjust futures to be consistent with the solved swap pillars
+  const discountCurve = options.discountCurve;
+  const discount = discountCurve ? (tenor: number) => discountFactorAt(discountCurve, tenor) : undefined;
+  const adjustedPoints = adjustFuturesToSwaps(solveSwapPillars(allPoints, basis, interpolate, valuationDate, discount));
   
   // Step 3: Remove duplicates (keep swaps)
   const uniquePoints = removeDuplicates(adjustedPoints);
 
-  // Step 4: Run bootstrapping method
-  switch (method) {
-    case 'linear':
-      return bootstrapLinear(uniquePoints, currency, basis);
-    case 'cubic_spline':
-      return bootstrapCubicSpline(uniquePoints, currency, basis);
-    case 'nelson_siegel':
-      return bootstrapNelsonSiegel(uniquePoints, currency, basis);
-    case 'bloomberg':
-      return bootstrapBloomberg(uniquePoints, currency, basis);
-    case 'quantlib_log_linear':
-      return bootstrapQuantLibLogLinear(uniquePoints, currency, basis);
-    case 'quantlib_log_cubic':
-      return bootstrapQuantLibLogCubic(uniquePoints, currency, basis);
-    case 'quantlib_linear_forward':
-      return bootstrapQuantLibLinearForward(uniquePoints, currency, basis);
-    case 'quantlib_monotonic_convex':
-      return bootstrapQuantLibMonotonicConvex(uniquePoints, currency, basis);
-    default:
-      return bootstrapLinear(uniquePoints, currency, basis);
-  }
+  // Step 4: Re-solve the swap pillars with the adjusted futures in place
+  // so every swap reprices exactly to par
+  const calibratedPoints = solveSwapPillars(uniquePoints, basis, interpolate, valuationDate, discount);
+
+  // Step 5: Run bootstrapping method, put the meeting steps in place, layer
+  // the turns, extend it past the pillars and report it on the requested
+  // output grid
+  const curveWithTurns = applyTurnEffects(
+    applyMeetingSteps(runBootstrapMethod(method, calibratedPoints, currency, basis, curveOptions), meetingSteps),
+    turns
+  );
+  const result = applyOutputGrid(applyExtrapolation(curveWithTurns, curveOptions), curveOptions);
+
+  const curve = { ...result, discountCurve };
+  const calibrated: BootstrapResult = {
+    ...curve,
+    // Market quotes as entered (par swap rates, futures implied rates), with their dates
+    inputPoints: [...datedSwaps, ...datedFutures].sort((a, b) => a.tenor - b.tenor),
+    repricing: repriceSwaps(curve, calibratedPoints),
+  };
+
+  return { ...calibrated, diagnostics: computeDiagnostics(calibrated) };
 }
 
 // Legacy function for backward compatibility
@@ -1286,9 +3215,11 @@ export function bootstrapLegacy(
 export function bootstrapBonds(
   bondPoints: BootstrapPoint[],
   method: BootstrapMethod,
-  currency: string
+  currency: string,
+  options: BootstrapOptions = {}
 ): BootstrapResult {
-  const basis = getBasisConvention(currency);
+  const basis = resolveBasisConvention(currency, options);
+  const valuationDate = options.valuationDate ?? today();
   
   // Convert bond yields to continuous rates
   const points = bondPoints.map(p => ({
@@ -1310,30 +3241,22 @@ export function bootstrapBonds(
       adjustedPoints: [],
       currency,
       basisConvention: basis,
+      valuationDate,
     };
   }
   
   // Use the same interpolation methods as for swaps/futures
-  switch (method) {
-    case 'linear':
-      return bootstrapLinear(uniquePoints, currency, basis);
-    case 'cubic_spline':
-      return bootstrapCubicSpline(uniquePoints, currency, basis);
-    case 'nelson_siegel':
-      return bootstrapNelsonSiegel(uniquePoints, currency, basis);
-    case 'bloomberg':
-      return bootstrapBloomberg(uniquePoints, currency, basis);
-    case 'quantlib_log_linear':
-      return bootstrapQuantLibLogLinear(uniquePoints, currency, basis);
-    case 'quantlib_log_cubic':
-      return bootstrapQuantLibLogCubic(uniquePoints, currency, basis);
-    case 'quantlib_linear_forward':
-      return bootstrapQuantLibLinearForward(uniquePoints, currency, basis);
-    case 'quantlib_monotonic_convex':
-      return bootstrapQuantLibMonotonicConvex(uniquePoints, currency, basis);
-    default:
-      return bootstrapLinear(uniquePoints, currency, basis);
-  }
+  const curveOptions = { ...options, valuationDate };
+  const result: BootstrapResult = {
+    ...applyOutputGrid(
+      applyExtrapolation(runBootstrapMethod(method, uniquePoints, currency, basis, curveOptions), curveOptions),
+      curveOptions
+    ),
+    // Market yields as entered
+    inputPoints: bondPoints.map(p => ({ ...p, source: 'bond' as const })),
+  };
+
+  return { ...result, diagnostics: computeDiagnostics(result) };
 }
 
 // ============ Export Functions ============
@@ -1341,20 +3264,22 @@ export function bootstrapBonds(
 export function exportToCSV(result: BootstrapResult): string {
   const headers = [
     'Tenor',
+    'Date',
     'Discount Factor',
     'Zero Rate (%)',
     'Forward Rate (%)',
     'Source',
-    'Day Count',
+    'Fixed Day Count',
     'Compounding'
   ];
   const rows = result.discountFactors.map(df => [
     df.tenor.toFixed(2),
+    df.date ? toISODate(df.date) : '',
     df.df.toFixed(8),
     (df.zeroRate * 100).toFixed(4),
     df.forwardRate ? (df.forwardRate * 100).toFixed(4) : 'N/A',
     df.source,
-    result.basisConvention.dayCount,
+    result.basisConvention.fixedDayCount,
     result.basisConvention.compounding,
   ]);
 
@@ -0,0 +1,380 @@
+/**
+ * Holiday calendars
+ *
+ * Offline, rule-based business-day calendars for the curve currencies,
+ * identified by their ISDA business-centre codes:
+ * - USNY (New York, Federal Reserve), EUTA (TARGET2), GBLO (London),
+ *   CHZU (Zurich), JPTO (Tokyo), CATO (Toronto), SGSI (Singapore)
+ *
+ * Each calendar is a list of rules (fixed dates, n-th weekday, Easter-relative)
+ * with a weekend observance rule. Calendars can be joined: a date is a good
+ * business day only if it is one in every calendar.
+ */
+
+import { addDays, BusinessDayPredicate, isWeekend, makeDate, toISODate } from './dates';
+
+// ============ Types ============
+
+export type CalendarId = 'USNY' | 'EUTA' | 'GBLO' | 'CHZU' | 'JPTO' | 'CATO' | 'SGSI';
+
+/**
+ * What happens to a holiday falling on a weekend
+ * - none: not observed on another day
+ * - sunday: a Sunday holiday moves to the next day that is not a holiday
+ * - weekend: a Saturday or Sunday holiday moves to the next business day
+ */
+export type HolidayObservance = 'none' | 'sunday' | 'weekend';
+
+export interface HolidayRule {
+  name: string;
+  date: (year: number) => Date | null; // null when the rule does not apply that year
+  observance?: HolidayObservance;
+}
+
+export interface HolidayCalendar {
+  id: CalendarId;
+  name: string;
+  rules: HolidayRule[];
+  // Extra holidays derived from the rule dates (e.g. Japanese citizens' holidays)
+  derived?: (year: number, holidays: Set<string>) => Date[];
+  // Last year of the listed (not rule-computable) holidays: later years miss them
+  listedUntil?: number;
+}
+
+// ============ Date Rules ============
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm)
+ */
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return makeDate(year, month - 1, day);
+}
+
+/**
+ * n-th given weekday of a month (0 = Sunday); n = -1 for the last one
+ */
+export function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n < 0) {
+    const last = makeDate(year, month + 1, 0);
+    return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+  }
+  const first = makeDate(year, month, 1);
+  return addDays(first, (weekday - first.getUTCDay() + 7) % 7 + 7 * (n - 1));
+}
+
+const MONDAY = 1;
+const THURSDAY = 4;
+
+const fixed = (month: number, day: number, fromYear = 0, toYear = 9999) =>
+  (year: number) => (year >= fromYear && year <= toYear ? makeDate(year, month, day) : null);
+
+const nth = (month: number, weekday: number, n: number, fromYear = 0) =>
+  (year: number) => (year >= fromYear ? nthWeekday(year, month, weekday, n) : null);
+
+const easter = (offset: number) =>
+  (year: number) => addDays(easterSunday(year), offset);
+
+/**
+ * Dates moved for a given year (e.g. jubilees, Olympic games)
+ */
+const withExceptions = (rule: (year: number) => Date | null, exceptions: Record<number, [number, number] | null>) =>
+  (year: number) => {
+    if (!(year in exceptions)) return rule(year);
+    const moved = exceptions[year];
+    return moved ? makeDate(year, moved[0], moved[1]) : null;
+  };
+
+/**
+ * One-off holidays, listed as ISO dates
+ */
+const specialDays = (name: string, isoDates: string[], observance: HolidayObservance = 'none'): HolidayRule[] =>
+  isoDates.map(iso => ({
+    name,
+    date: (year: number) => {
+      const [y, m, d] = iso.split('-').map(Number);
+      return y === year ? makeDate(y, m - 1, d) : null;
+    },
+    observance,
+  }));
+
+// Japanese equinox days (valid 1980-2099)
+const vernalEquinox = (year: number) =>
+  makeDate(year, 2, Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4)));
+const autumnalEquinox = (year: number) =>
+  makeDate(year, 8, Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4)));
+
+// ============ Calendars ============
+
+const USNY: HolidayCalendar = {
+  id: 'USNY',
+  name: 'New York (Federal Reserve)',
+  // Fed: Sunday holidays observed Monday, Saturday holidays not observed
+  rules: [
+    { name: "New Year's Day", date: fixed(0, 1), observance: 'sunday' },
+    { name: 'Martin Luther King Jr. Day', date: nth(0, MONDAY, 3, 1986) },
+    { name: "Washington's Birthday", date: nth(1, MONDAY, 3) },
+    { name: 'Memorial Day', date: nth(4, MONDAY, -1) },
+    { name: 'Juneteenth', date: fixed(5, 19, 2022), observance: 'sunday' },
+    { name: 'Independence Day', date: fixed(6, 4), observance: 'sunday' },
+    { name: 'Labor Day', date: nth(8, MONDAY, 1) },
+    { name: 'Columbus Day', date: nth(9, MONDAY, 2) },
+    { name: 'Veterans Day', date: fixed(10, 11), observance: 'sunday' },
+    { name: 'Thanksgiving', date: nth(10, THURSDAY, 4) },
+    { name: 'Christmas', date: fixed(11, 25), observance: 'sunday' },
+  ],
+};
+
+const EUTA: HolidayCalendar = {
+  id: 'EUTA',
+  name: 'TARGET2',
+  rules: [
+    { name: "New Year's Day", date: fixed(0, 1) },
+    { name: 'Good Friday', date: easter(-2) },
+    { name: 'Easter Monday', date: easter(1) },
+    { name: 'Labour Day', date: fixed(4, 1) },
+    { name: 'Christmas', date: fixed(11, 25) },
+    { name: 'Boxing Day', date: fixed(11, 26) },
+  ],
+};
+
+const GBLO: HolidayCalendar = {
+  id: 'GBLO',
+  name: 'London',
+  rules: [
+    { name: "New Year's Day", date: fixed(0, 1), observance: 'weekend' },
+    { name: 'Good Friday', date: easter(-2) },
+    { name: 'Easter Monday', date: easter(1) },
+    { name: 'Early May Bank Holiday', date: withExceptions(nth(4, MONDAY, 1), { 1995: [4, 8], 2020: [4, 8] }) },
+    { name: 'Spring Bank Holiday', date: withExceptions(nth(4, MONDAY, -1), { 2002: [5, 4], 2012: [5, 4], 2022: [5, 2] }) },
+    { name: 'Summer Bank Holiday', date: nth(7, MONDAY, -1) },
+    { name: 'Christmas', date: fixed(11, 25), observance: 'weekend' },
+    { name: 'Boxing Day', date: fixed(11, 26), observance: 'weekend' },
+    ...specialDays('Royal / Millennium', [
+      '1999-12-31', '2002-06-03', '2011-04-29', '2012-06-05', '2022-06-03', '2022-09-19', '2023-05-08',
+    ]),
+  ],
+};
+
+const CHZU: HolidayCalendar = {
+  id: 'CHZU',
+  name: 'Zurich',
+  rules: [
+    { name: "New Year's Day", date: fixed(0, 1) },
+    { name: "Berchtold's Day", date: fixed(0, 2) },
+    { name: 'Good Friday', date: easter(-2) },
+    { name: 'Easter Monday', date: easter(1) },
+    { name: 'Labour Day', date: fixed(4, 1) },
+    { name: 'Ascension', date: easter(39) },
+    { name: 'Whit Monday', date: easter(50) },
+    { name: 'National Day', date: fixed(7, 1) },
+    { name: 'Christmas', date: fixed(11, 25) },
+    { name: "St. Stephen's Day", date: fixed(11, 26) },
+  ],
+};
+
+const JPTO: HolidayCalendar = {
+  id: 'JPTO',
+  name: 'Tokyo',
+  // National holidays falling on a Sunday are substituted by the next non-holiday
+  rules: [
+    { name: "New Year's Day", date: fixed(0, 1) }, // substitute always lands on a bank holiday
+    { name: 'Bank Holiday', date: fixed(0, 2) },
+    { name: 'Bank Holiday', date: fixed(0, 3) },
+    { name: 'Coming of Age Day', date: nth(0, MONDAY, 2, 2000) },
+    { name: 'National Foundation Day', date: fixed(1, 11), observance: 'sunday' },
+    { name: "Emperor's Birthday", date: fixed(1, 23, 2020), observance: 'sunday' },
+    { name: 'Vernal Equinox', date: vernalEquinox, observance: 'sunday' },
+    { name: 'Showa Day', date: fixed(3, 29), observance: 'sunday' },
+    { name: 'Constitution Day', date: fixed(4, 3), observance: 'sunday' },
+    { name: 'Greenery Day', date: fixed(4, 4), observance: 'sunday' },
+    { name: "Children's Day", date: fixed(4, 5), observance: 'sunday' },
+    { name: 'Marine Day', date: withExceptions(nth(6, MONDAY, 3, 2003), { 2020: [6, 23], 2021: [6, 22] }) },
+    { name: 'Mountain Day', date: withExceptions(fixed(7, 11, 2016), { 2020: [7, 10], 2021: [7, 8] }), observance: 'sunday' },
+    { name: 'Respect for the Aged Day', date: nth(8, MONDAY, 3, 2003) },
+    { name: 'Autumnal Equinox', date: autumnalEquinox, observance: 'sunday' },
+    { name: 'Sports Day', date: withExceptions(nth(9, MONDAY, 2, 2000), { 2020: [6, 24], 2021: [6, 23] }) },
+    { name: 'Culture Day', date: fixed(10, 3), observance: 'sunday' },
+    { name: 'Labour Thanksgiving Day', date: fixed(10, 23), observance: 'sunday' },
+    { name: "Emperor's Birthday", date: fixed(11, 23, 1989, 2018), observance: 'sunday' },
+    { name: 'Bank Holiday', date: fixed(11, 31) },
+    ...specialDays('Imperial Enthronement', ['2019-04-30', '2019-05-01', '2019-05-02', '2019-10-22']),
+  ],
+  // Citizens' holiday: a day sandwiched between two national holidays
+  derived: (year, holidays) => {
+    const extra: Date[] = [];
+    for (let d = makeDate(year, 0, 2); d.getUTCFullYear() === year; d = addDays(d, 1)) {
+      if (d.getUTCDay() === 0 || holidays.has(toISODate(d))) continue;
+      if (holidays.has(toISODate(addDays(d, -1))) && holidays.has(toISODate(addDays(d, 1)))) {
+        extra.push(d);
+      }
+    }
+    return extra;
+  },
+};
+
+const CATO: HolidayCalendar = {
+  id: 'CATO',
+  name: 'Toronto',
+  rules: [
+    { name: "New Year's Day", date: fixed(0, 1), observance: 'weekend' },
+    { name: 'Family Day', date: nth(1, MONDAY, 3, 2008) },
+    { name: 'Good Friday', date: easter(-2) },
+    // Victoria Day: Monday on or before 24 May
+    { name: 'Victoria Day', date: (year) => addDays(makeDate(year, 4, 24), -((makeDate(year, 4, 24).getUTCDay() + 6) % 7)) },
+    { name: 'Canada Day', date: fixed(6, 1), observance: 'weekend' },
+    { name: 'Civic Holiday', date: nth(7, MONDAY, 1) },
+    { name: 'Labour Day', date: nth(8, MONDAY, 1) },
+    { name: 'Truth and Reconciliation Day', date: fixed(8, 30, 2021), observance: 'weekend' },
+    { name: 'Thanksgiving', date: nth(9, MONDAY, 2) },
+    { name: 'Remembrance Day', date: fixed(10, 11), observance: 'weekend' },
+    { name: 'Christmas', date: fixed(11, 25), observance: 'weekend' },
+    { name: 'Boxing Day', date: fixed(11, 26), observance: 'weekend' },
+  ],
+};
+
+// Lunar, Islamic and Hindu holidays are not rule-computable offline: they are
+// taken from the Ministry of Manpower gazetted lists (2020-2026), and dates
+// past the list are reported by listedHolidaysMissing
+const SGSI: HolidayCalendar = {
+  id: 'SGSI',
+  name: 'Singapore',
+  listedUntil: 2026,
+  rules: [
+    { name: "New Year's Day", date: fixed(0, 1), observance: 'sunday' },
+    { name: 'Good Friday', date: easter(-2) },
+    { name: 'Labour Day', date: fixed(4, 1), observance: 'sunday' },
+    { name: 'National Day', date: fixed(7, 9), observance: 'sunday' },
+    { name: 'Christmas', date: fixed(11, 25), observance: 'sunday' },
+    ...specialDays('Chinese New Year', [
+      '2020-01-25', '2020-01-26', '2021-02-12', '2021-02-13', '2022-02-01', '2022-02-02',
+      '2023-01-22', '2023-01-23', '2024-02-10', '2024-02-11', '2025-01-29', '2025-01-30',
+      '2026-02-17', '2026-02-18',
+    ], 'sunday'),
+    ...specialDays('Hari Raya Puasa', [
+      '2020-05-24', '2021-05-13', '2022-05-03', '2023-04-22', '2024-04-10', '2025-03-31', '2026-03-21',
+    ], 'sunday'),
+    ...specialDays('Vesak Day', [
+      '2020-05-07', '2021-05-26', '2022-05-15', '2023-06-02', '2024-05-22', '2025-05-12', '2026-05-31',
+    ], 'sunday'),
+    ...specialDays('Hari Raya Haji', [
+      '2020-07-31', '2021-07-20', '2022-07-10', '2023-06-29', '2024-06-17', '2025-06-07', '2026-05-27',
+    ], 'sunday'),
+    ...specialDays('Deepavali', [
+      '2020-11-14', '2021-11-04', '2022-10-24', '2023-11-12', '2024-10-31', '2025-10-20', '2026-11-08',
+    ], 'sunday'),
+    ...specialDays('Polling Day', ['2020-07-10', '2023-09-01', '2025-05-03']),
+  ],
+};
+
+export const CALENDARS: Record<CalendarId, HolidayCalendar> = {
+  USNY, EUTA, GBLO, CHZU, JPTO, CATO, SGSI,
+};
+
+// ============ Holiday Generation ============
+
+const holidayCache = new Map<string, Set<string>>();
+
+/**
+ * Apply the weekend observance rules: holidays on weekdays are placed first,
+ * then weekend holidays roll forward past any day already taken
+ * (e.g. UK Christmas on Saturday → Monday, Boxing Day on Sunday → Tuesday)
+ */
+function buildHolidays(calendar: HolidayCalendar, year: number): Set<string> {
+  const holidays = new Set<string>();
+  const substitutes: { date: Date; observance: HolidayObservance }[] = [];
+
+  for (const rule of calendar.rules) {
+    const date = rule.date(year);
+    if (!date || date.getUTCFullYear() !== year) continue;
+
+    holidays.add(toISODate(date));
+
+    const observance = rule.observance ?? 'none';
+    const day = date.getUTCDay();
+    if ((observance === 'sunday' && day === 0) || (observance === 'weekend' && isWeekend(date))) {
+      substitutes.push({ date, observance });
+    }
+  }
+
+  for (const { date } of substitutes.sort((a, b) => a.date.getTime() - b.date.getTime())) {
+    let substitute = addDays(date, 1);
+    while (isWeekend(substitute) || holidays.has(toISODate(substitute))) {
+      substitute = addDays(substitute, 1);
+    }
+    holidays.add(toISODate(substitute));
+  }
+
+  calendar.derived?.(year, holidays).forEach(d => holidays.add(toISODate(d)));
+
+  return holidays;
+}
+
+function holidaysOf(id: CalendarId, year: number): Set<string> {
+  const key = `${id}:${year}`;
+  let holidays = holidayCache.get(key);
+  if (!holidays) {
+    holidays = buildHolidays(CALENDARS[id], year);
+    holidayCache.set(key, holidays);
+  }
+  return holidays;
+}
+
+/**
+ * Holidays of a calendar for a year (weekends excluded), sorted
+ */
+export function getHolidays(id: CalendarId, year: number): Date[] {
+  return Array.from(holidaysOf(id, year))
+    .sort()
+    .map(iso => {
+      const [y, m, d] = iso.split('-').map(Number);
+      return makeDate(y, m - 1, d);
+    })
+    .filter(d => !isWeekend(d));
+}
+
+export function isHoliday(id: CalendarId, date: Date): boolean {
+  return holidaysOf(id, date.getUTCFullYear()).has(toISODate(date));
+}
+
+// ============ Business Days ============
+
+/**
+ * Good business day in every one of the given calendars (joint calendar)
+ */
+export function isBusinessDay(calendars: CalendarId[], date: Date): boolean {
+  if (isWeekend(date)) return false;
+  return !calendars.some(id => isHoliday(id, date));
+}
+
+/**
+ * Business-day predicate of a (joint) calendar, for the date utilities
+ */
+export function businessDayPredicate(calendars: CalendarId[]): BusinessDayPredicate {
+  return (date) => isBusinessDay(calendars, date);
+}
+
+/**
+ * Calendars whose listed holidays stop before the date: business days after
+ * their last listed year are only good up to the rule-based holidays
+ */
+export function listedHolidaysMissing(calendars: CalendarId[], date: Date): CalendarId[] {
+  return calendars.filter(id => (CALENDARS[id].listedUntil ?? Infinity) < date.getUTCFullYear());
+}
+
+export function calendarLabel(calendars: CalendarId[]): string {
+  return calendars.join('+');
+}
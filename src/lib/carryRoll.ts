@@ -0,0 +1,63 @@
+/**
+ * Carry and roll-down of a receive-fixed position (swap, or bond on a
+ * government curve) over a horizon h, in bp of rate:
+ *
+ *   carry     = F(h, T − h) − S(0, T)      forward drift: the rise the fixed
+ *                                          vs floating accrual pays for
+ *   roll-down = S(0, T) − S(0, T − h)      the position rolls down an
+ *                                          unchanged curve
+ *   total     = F(h, T − h) − S(0, T − h)
+ *
+ * S(0, n) is the spot par rate of tenor n and F(h, n) the par rate of the
+ * n-year swap starting h after spot, both on the curve's conventions.
+ * Positive values earn for the receiver / bond holder.
+ */
+
+import { BootstrapResult } from './bootstrapping';
+import { forwardParSwapRate } from './forwardRates';
+
+// ============ Types ============
+
+export interface CarryRollPoint {
+  tenor: number;         // years
+  rate: number;          // S(0, T)
+  forwardRate: number;   // F(h, T − h)
+  rolledRate: number;    // S(0, T − h)
+  carryBp: number;
+  rollDownBp: number;
+  totalBp: number;
+}
+
+export const CARRY_HORIZONS_MONTHS = [3, 6, 12];
+export const DEFAULT_CARRY_TENORS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 12, 15, 20, 25, 30];
+
+const ONE_BP = 0.0001;
+
+// ============ Carry / Roll-Down ============
+
+export function carryRollDown(
+  discount: BootstrapResult,
+  horizonMonths: number,
+  tenors: number[] = DEFAULT_CARRY_TENORS,
+  forecast?: BootstrapResult
+): CarryRollPoint[] {
+  return tenors
+    .filter((tenor) => tenor * 12 > horizonMonths)
+    .map((tenor) => {
+      const tenorMonths = Math.round(tenor * 12);
+      const rate = forwardParSwapRate(discount, 0, tenorMonths, forecast);
+      const forwardRate = forwardParSwapRate(discount, horizonMonths, tenorMonths - horizonMonths, forecast);
+      const rolledRate = forwardParSwapRate(discount, 0, tenorMonths - horizonMonths, forecast);
+
+      return {
+        tenor,
+        rate,
+        forwardRate,
+        rolledRate,
+        carryBp: (forwardRate - rate) / ONE_BP,
+        rollDownBp: (rate - rolledRate) / ONE_BP,
+        totalBp: (forwardRate - rolledRate) / ONE_BP,
+      };
+    })
+    .filter((point) => !isNaN(point.totalBp));
+}
@@ -2,11 +2,11 @@
  * Default data sources and conventions per currency/region
  * 
  * Professional conventions:
- * - EUR: ESTR 3M + EUR IRS (ACT/360, Annual)
- * - USD: SOFR 3M + USD IRS (ACT/360, Semi-Annual)
- * - GBP: SONIA 3M + GBP IRS (ACT/365, Semi-Annual)
- * - CHF: SARON 3M + CHF IRS (ACT/360, Annual)
- * - JPY: TONA 3M + JPY IRS (ACT/365, Semi-Annual)
+ * - EUR: ESTR 3M + EUR IRS (Fixed 30E/360 Annual, Float ACT/360 6M)
+ * - USD: SOFR 3M + USD IRS (Fixed 30/360 Semi-Annual, Float ACT/360 3M)
+ * - GBP: SONIA 3M + GBP IRS (Fixed ACT/365 Semi-Annual, Float ACT/365 6M)
+ * - CHF: SARON 3M + CHF IRS (Fixed 30/360 Annual, Float ACT/360 6M)
+ * - JPY: TONA 3M + JPY IRS (Fixed ACT/365 Semi-Annual, Float ACT/365 6M)
  * - CAD: CORRA 3M + (no IRS configured, USD as fallback)
  * - SGD: SORA 3M + (no IRS configured, USD as fallback)
  */
@@ -25,49 +25,49 @@ export const CURRENCY_CONFIGS: CurrencyConfig[] = [
     name: "Euro",
     defaultFuturesIndex: "estr3m",
     defaultIRSCurrency: "eur",
-    description: "ESTR 3M + EUR IRS (ACT/360, Annual)",
+    description: "ESTR 3M + EUR IRS (Fixed 30E/360 Annual, Float ACT/360 6M)",
   },
   {
     currency: "USD",
     name: "US Dollar",
     defaultFuturesIndex: "sofr",
     defaultIRSCurrency: "usd",
-    description: "SOFR 3M + USD IRS (ACT/360, Semi-Annual)",
+    description: "SOFR 3M + USD IRS (Fixed 30/360 Semi-Annual, Float ACT/360 3M)",
   },
   {
     currency: "GBP",
     name: "British Pound",
     defaultFuturesIndex: "sonia",
     defaultIRSCurrency: "gbp",
-    description: "SONIA 3M + GBP IRS (ACT/365, Semi-Annual)",
+    description: "SONIA 3M + GBP IRS (Fixed ACT/365 Semi-Annual, Float ACT/365 6M)",
   },
   {
     currency: "CHF",
     name: "Swiss Franc",
     defaultFuturesIndex: "saron3m",
     defaultIRSCurrency: "chf",
-    description: "SARON 3M + CHF IRS (ACT/360, Annual)",
+    description: "SARON 3M + CHF IRS (Fixed 30/360 Annual, Float ACT/360 6M)",
   },
   {
     currency: "JPY",
     name: "Japanese Yen",
     defaultFuturesIndex: "tona3m",
     defaultIRSCurrency: "jpy",
-    description: "TONA 3M + JPY IRS (ACT/365, Semi-Annual)",
+    description: "TONA 3M + JPY IRS (Fixed ACT/365 Semi-Annual, Float ACT/365 6M)",
   },
   {
     currency: "CAD",
     name: "Canadian Dollar",
     defaultFuturesIndex: "corra3m",
     defaultIRSCurrency: "usd", // No CAD IRS configured, fallback to USD
-    description: "CORRA 3M + USD IRS fallback (ACT/365, Semi-Annual)",
+    description: "CORRA 3M + USD IRS fallback (local ACT/365 conventions)",
   },
   {
     currency: "SGD",
     name: "Singapore Dollar",
     defaultFuturesIndex: "sora3m",
     defaultIRSCurrency: "usd", // No SGD IRS configured, fallback to USD
-    description: "SORA 3M + USD IRS fallback (ACT/365, Semi-Annual)",
+    description: "SORA 3M + USD IRS fallback (local ACT/365 conventions)",
   },
 ];
 
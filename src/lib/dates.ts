@@ -0,0 +1,268 @@
+/**
+ * Date utilities for curve construction
+ *
+ * All dates are handled as UTC midnights so that a given valuation date
+ * always produces the same tenors, whatever the local time zone.
+ *
+ * - Valuation / spot dates
+ * - IMM dates (third Wednesday) for futures contracts
+ * - Business-day adjustment (following, modified following, preceding)
+ * - Swap payment schedules
+ */
+
+// ============ Types ============
+
+export type BusinessDayConvention = 'following' | 'modified_following' | 'preceding' | 'unadjusted';
+
+export type BusinessDayPredicate = (date: Date) => boolean;
+
+export interface SchedulePeriod {
+  start: Date;
+  end: Date;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MONTH_NAMES: Record<string, number> = {
+  Jan: 0, Feb: 1, Mar: 2, Apr: 3, May: 4, Jun: 5,
+  Jul: 6, Aug: 7, Sep: 8, Oct: 9, Nov: 10, Dec: 11,
+};
+
+// ============ Construction / Formatting ============
+
+export function makeDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+/**
+ * Today's date as a UTC midnight (default valuation date)
+ */
+export function today(): Date {
+  const now = new Date();
+  return makeDate(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+/**
+ * Parse "YYYY-MM-DD" into a UTC date, null if invalid
+ */
+export function parseISODate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const month = parseInt(match[2], 10) - 1;
+  const day = parseInt(match[3], 10);
+  const date = makeDate(parseInt(match[1], 10), month, day);
+  // Reject rolled-over dates such as 2025-02-31
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month || date.getUTCDate() !== day) return null;
+  return date;
+}
+
+/**
+ * Extract every date of a pasted or uploaded list (one or more per line,
+ * "YYYY-MM-DD" or "DD/MM/YYYY"), sorted and without duplicates
+ */
+export function parseDateList(text: string): Date[] {
+  const dates = new Map<number, Date>();
+  for (const match of text.matchAll(/(\d{4})-(\d{2})-(\d{2})|(\d{1,2})\/(\d{1,2})\/(\d{4})/g)) {
+    const [year, month, day] = match[1]
+      ? [match[1], match[2], match[3]]
+      : [match[6], match[5], match[4]];
+    const date = makeDate(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10));
+    // Reject rolled-over dates such as 31/02
+    if (!isNaN(date.getTime()) && date.getUTCDate() === parseInt(day, 10)) dates.set(date.getTime(), date);
+  }
+  return Array.from(dates.values()).sort((a, b) => a.getTime() - b.getTime());
+}
+
+export function toISODate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// ============ Arithmetic ============
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Add calendar months, clamping to the end of the target month
+ * (e.g. 31 Jan + 1M = 28/29 Feb)
+ */
+export function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const targetYear = year + Math.floor(month / 12);
+  const targetMonth = ((month % 12) + 12) % 12;
+  const lastDay = makeDate(targetYear, targetMonth + 1, 0).getUTCDate();
+  return makeDate(targetYear, targetMonth, Math.min(date.getUTCDate(), lastDay));
+}
+
+export function daysBetween(start: Date, end: Date): number {
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Curve time axis: ACT/365 Fixed year fraction from the valuation date
+ */
+export function yearsBetween(start: Date, end: Date): number {
+  return daysBetween(start, end) / 365;
+}
+
+// ============ Business Days ============
+
+export function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+export const isWeekday: BusinessDayPredicate = (date) => !isWeekend(date);
+
+export function adjustDate(
+  date: Date,
+  convention: BusinessDayConvention,
+  isBusinessDay: BusinessDayPredicate = isWeekday
+): Date {
+  if (convention === 'unadjusted' || isBusinessDay(date)) return date;
+
+  if (convention === 'preceding') {
+    let adjusted = date;
+    while (!isBusinessDay(adjusted)) adjusted = addDays(adjusted, -1);
+    return adjusted;
+  }
+
+  let adjusted = date;
+  while (!isBusinessDay(adjusted)) adjusted = addDays(adjusted, 1);
+
+  // Modified following: never roll into the next month
+  if (convention === 'modified_following' && adjusted.getUTCMonth() !== date.getUTCMonth()) {
+    return adjustDate(date, 'preceding', isBusinessDay);
+  }
+
+  return adjusted;
+}
+
+export function addBusinessDays(
+  date: Date,
+  days: number,
+  isBusinessDay: BusinessDayPredicate = isWeekday
+): Date {
+  let result = date;
+  let remaining = Math.abs(days);
+  const step = days >= 0 ? 1 : -1;
+
+  while (remaining > 0) {
+    result = addDays(result, step);
+    if (isBusinessDay(result)) remaining--;
+  }
+
+  return result;
+}
+
+/**
+ * Spot date: valuation date + spot lag business days
+ */
+export function spotDate(
+  valuationDate: Date,
+  spotLag: number,
+  isBusinessDay: BusinessDayPredicate = isWeekday
+): Date {
+  return addBusinessDays(adjustDate(valuationDate, 'following', isBusinessDay), spotLag, isBusinessDay);
+}
+
+// ============ IMM Dates ============
+
+/**
+ * IMM date: third Wednesday of the month
+ */
+export function immDate(year: number, month: number): Date {
+  const first = makeDate(year, month, 1);
+  const offset = (3 - first.getUTCDay() + 7) % 7; // days to first Wednesday
+  return makeDate(year, month, 1 + offset + 14);
+}
+
+/**
+ * First quarterly IMM date (Mar/Jun/Sep/Dec) strictly after the given date
+ */
+export function nextIMMDate(date: Date): Date {
+  let year = date.getUTCFullYear();
+  let month = date.getUTCMonth() - (date.getUTCMonth() % 3) + 2;
+
+  for (;;) {
+    if (month > 11) {
+      month -= 12;
+      year += 1;
+    }
+    const candidate = immDate(year, month);
+    if (candidate.getTime() > date.getTime()) return candidate;
+    month += 3;
+  }
+}
+
+/**
+ * Parse a futures maturity label like "Dec '25" into year/month
+ */
+export function parseContractMonth(maturity: string): { year: number; month: number } | null {
+  const match = maturity.match(/(\w{3})\s*'?(\d{2})/);
+  if (!match) return null;
+
+  const month = MONTH_NAMES[match[1]];
+  if (month === undefined) return null;
+
+  return { year: 2000 + parseInt(match[2], 10), month };
+}
+
+/**
+ * Accrual period of a futures contract
+ * - 3M contracts: IMM date of the contract month to the IMM date 3 months later
+ * - 1M contracts: the calendar month
+ */
+export function futuresContractDates(maturity: string, contractMonths = 3): SchedulePeriod | null {
+  const parsed = parseContractMonth(maturity);
+  if (!parsed) return null;
+
+  if (contractMonths === 1) {
+    return {
+      start: makeDate(parsed.year, parsed.month, 1),
+      end: makeDate(parsed.year, parsed.month + 1, 1),
+    };
+  }
+
+  const endMonth = parsed.month + contractMonths;
+  return {
+    start: immDate(parsed.year, parsed.month),
+    end: immDate(parsed.year + Math.floor(endMonth / 12), endMonth % 12),
+  };
+}
+
+// ============ Schedules ============
+
+/**
+ * Payment schedule generated backwards from the unadjusted maturity,
+ * so that any stub falls on the first period. Period ends are adjusted
+ * with the given business-day convention.
+ */
+export function generateSchedule(
+  start: Date,
+  maturity: Date,
+  paymentFrequency: number,
+  convention: BusinessDayConvention = 'modified_following',
+  isBusinessDay: BusinessDayPredicate = isWeekday
+): SchedulePeriod[] {
+  const monthsPerPeriod = Math.max(1, Math.round(12 / paymentFrequency));
+  const rollDates: Date[] = [maturity];
+
+  for (let k = 1; ; k++) {
+    const date = addMonths(maturity, -k * monthsPerPeriod);
+    // Drop a roll date within a week of the start (no tiny stubs)
+    if (daysBetween(start, date) <= 7) break;
+    rollDates.unshift(date);
+  }
+  rollDates.unshift(start);
+
+  const adjusted = rollDates.map((d, i) => (i === 0 ? d : adjustDate(d, convention, isBusinessDay)));
+
+  const periods: SchedulePeriod[] = [];
+  for (let i = 1; i < adjusted.length; i++) {
+    periods.push({ start: adjusted[i - 1], end: adjusted[i] });
+  }
+  return periods;
+}
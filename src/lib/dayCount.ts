@@ -0,0 +1,162 @@
+/**
+ * Day-count conventions
+ *
+ * Year fractions used to accrue coupons and money-market interest:
+ * - ACT/360, ACT/365 (Fixed)
+ * - ACT/ACT ISDA (days split by calendar year) and ACT/ACT ICMA (days over
+ *   the coupon reference period)
+ * - 30/360 (Bond Basis) and 30E/360 (Eurobond Basis)
+ *
+ * The curve time axis itself stays ACT/365F (see dates.ts); these fractions
+ * only drive instrument cash flows.
+ */
+
+import { addMonths, daysBetween, makeDate, SchedulePeriod } from './dates';
+
+// ============ Types ============
+
+export type DayCountConvention =
+  | 'ACT/360'
+  | 'ACT/365'
+  | 'ACT/ACT ISDA'
+  | 'ACT/ACT ICMA'
+  | '30/360'
+  | '30E/360';
+
+/**
+ * Coupon reference period required by ACT/ACT ICMA
+ */
+export interface ReferencePeriod {
+  start: Date;
+  end: Date;
+  frequency: number; // coupons per year
+}
+
+export const DAY_COUNT_CONVENTIONS: DayCountConvention[] = [
+  'ACT/360',
+  'ACT/365',
+  'ACT/ACT ISDA',
+  'ACT/ACT ICMA',
+  '30/360',
+  '30E/360',
+];
+
+const MAX_ICMA_STUB_PERIODS = 100;
+
+// ============ Helpers ============
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function thirty360(start: Date, end: Date, european: boolean): number {
+  let d1 = start.getUTCDate();
+  let d2 = end.getUTCDate();
+  const m1 = start.getUTCMonth();
+  const m2 = end.getUTCMonth();
+  const y1 = start.getUTCFullYear();
+  const y2 = end.getUTCFullYear();
+
+  if (european) {
+    if (d1 === 31) d1 = 30;
+    if (d2 === 31) d2 = 30;
+  } else {
+    if (d1 === 31) d1 = 30;
+    if (d2 === 31 && d1 === 30) d2 = 30;
+  }
+
+  return (360 * (y2 - y1) + 30 * (m2 - m1) + (d2 - d1)) / 360;
+}
+
+function actActISDA(start: Date, end: Date): number {
+  const y1 = start.getUTCFullYear();
+  const y2 = end.getUTCFullYear();
+
+  if (y1 === y2) {
+    return daysBetween(start, end) / (isLeapYear(y1) ? 366 : 365);
+  }
+
+  // Stub in the first year + whole years + stub in the last year
+  const firstYearEnd = makeDate(y1 + 1, 0, 1);
+  const lastYearStart = makeDate(y2, 0, 1);
+  return daysBetween(start, firstYearEnd) / (isLeapYear(y1) ? 366 : 365)
+    + (y2 - y1 - 1)
+    + daysBetween(lastYearStart, end) / (isLeapYear(y2) ? 366 : 365);
+}
+
+/**
+ * ACT/ACT ICMA: days / (frequency × days in the reference period).
+ * Long stubs are split into notional reference periods on either side.
+ */
+function actActICMA(start: Date, end: Date, ref: ReferencePeriod, depth = 0): number {
+  const months = Math.round(12 / ref.frequency);
+
+  if (depth < MAX_ICMA_STUB_PERIODS) {
+    if (start < ref.start) {
+      const previous = { ...ref, start: addMonths(ref.start, -months), end: ref.start };
+      const split = end < ref.start ? end : ref.start;
+      return actActICMA(start, split, previous, depth + 1)
+        + (end > ref.start ? actActICMA(ref.start, end, ref, depth + 1) : 0);
+    }
+
+    if (end > ref.end) {
+      const next = { ...ref, start: ref.end, end: addMonths(ref.end, months) };
+      const split = start > ref.end ? start : ref.end;
+      return (start < ref.end ? actActICMA(start, ref.end, ref, depth + 1) : 0)
+        + actActICMA(split, end, next, depth + 1);
+    }
+  }
+
+  const referenceDays = daysBetween(ref.start, ref.end);
+  if (referenceDays <= 0) return 0;
+  return daysBetween(start, end) / (ref.frequency * referenceDays);
+}
+
+// ============ Year Fractions ============
+
+/**
+ * Year fraction between two dates under a day-count convention.
+ * ACT/ACT ICMA needs the coupon reference period; without it, it falls back
+ * to ACT/ACT ISDA.
+ */
+export function yearFraction(
+  convention: DayCountConvention,
+  start: Date,
+  end: Date,
+  referencePeriod?: ReferencePeriod
+): number {
+  if (end < start) return -yearFraction(convention, end, start, referencePeriod);
+
+  switch (convention) {
+    case 'ACT/360':
+      return daysBetween(start, end) / 360;
+    case 'ACT/365':
+      return daysBetween(start, end) / 365;
+    case 'ACT/ACT ISDA':
+      return actActISDA(start, end);
+    case 'ACT/ACT ICMA':
+      return referencePeriod ? actActICMA(start, end, referencePeriod) : actActISDA(start, end);
+    case '30/360':
+      return thirty360(start, end, false);
+    case '30E/360':
+      return thirty360(start, end, true);
+  }
+}
+
+/**
+ * Accrual fraction of a schedule period paying `frequency` times a year.
+ * The reference period for ACT/ACT ICMA is the regular period ending on the
+ * payment date, so short and long stubs accrue correctly.
+ */
+export function periodAccrual(
+  convention: DayCountConvention,
+  period: SchedulePeriod,
+  frequency: number
+): number {
+  const months = Math.max(1, Math.round(12 / frequency));
+  return yearFraction(convention, period.start, period.end, {
+    start: addMonths(period.end, -months),
+    end: period.end,
+    frequency,
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * Forward rates read off a bootstrapped curve
+ *
+ * - Forward par swap rates: a swap starting m months after spot (start date
+ *   adjusted modified following) on the currency's conventions, priced at
+ *   par on the curve (see swapPricer.ts)
+ * - FRA strip m×n: simple rate over [spot + m, spot + n] months with the
+ *   money-market day count, F = (P(s)/P(e) − 1)/α
+ *
+ * With a forecast curve the floating leg / FRA is projected on it and
+ * discounted on the discount curve.
+ */
+
+import { BootstrapResult, discountFactorAt } from './bootstrapping';
+import { businessDayPredicate } from './calendars';
+import { addMonths, adjustDate, spotDate, yearsBetween } from './dates';
+import { yearFraction } from './dayCount';
+import { defaultSwapTrade, priceSwap } from './swapPricer';
+
+// ============ Types ============
+
+export interface ForwardSwapMatrix {
+  startMonths: number[];  // rows: forward start after spot
+  tenorYears: number[];   // columns: underlying swap tenor
+  rates: number[][];      // forward par swap rates [row][column]
+}
+
+export interface FraRate {
+  startMonths: number;
+  endMonths: number;
+  startDate: Date;
+  endDate: Date;
+  accrual: number;        // money-market day count
+  rate: number;
+}
+
+export const DEFAULT_FORWARD_START_MONTHS = [0, 1, 3, 6, 12, 24, 36, 60, 84, 120, 180, 240];
+export const DEFAULT_FORWARD_SWAP_TENORS = [1, 2, 3, 5, 7, 10, 15, 20, 30];
+const FRA_STRIP_HORIZON_MONTHS = 24;
+
+// ============ Helpers ============
+
+/**
+ * Spot date and the adjusted date m months after it, on the curve's calendar
+ */
+function forwardDates(result: BootstrapResult) {
+  const isBusinessDay = businessDayPredicate(result.basisConvention.calendars);
+  const spot = spotDate(result.valuationDate, result.basisConvention.spotLag, isBusinessDay);
+  return (months: number) =>
+    months === 0 ? spot : adjustDate(addMonths(spot, months), 'modified_following', isBusinessDay);
+}
+
+// ============ Forward Swaps ============
+
+/**
+ * Par rate of a swap starting `startMonths` after spot for `tenorMonths`
+ */
+export function forwardParSwapRate(
+  discount: BootstrapResult,
+  startMonths: number,
+  tenorMonths: number,
+  forecast?: BootstrapResult
+): number {
+  const start = forwardDates(discount)(startMonths);
+  const trade = defaultSwapTrade(discount, start, addMonths(start, tenorMonths));
+  return priceSwap(trade, discount, forecast)?.parRate ?? NaN;
+}
+
+export function forwardSwapMatrix(
+  discount: BootstrapResult,
+  forecast?: BootstrapResult,
+  startMonths: number[] = DEFAULT_FORWARD_START_MONTHS,
+  tenorYears: number[] = DEFAULT_FORWARD_SWAP_TENORS
+): ForwardSwapMatrix {
+  const rates = startMonths.map((m) =>
+    tenorYears.map((years) => forwardParSwapRate(discount, m, Math.round(years * 12), forecast))
+  );
+
+  return { startMonths, tenorYears, rates };
+}
+
+// ============ FRAs ============
+
+/**
+ * FRA strip on the index tenor: 1×(1+k), 2×(2+k)… up to 24 months
+ */
+export function fraStrip(
+  discount: BootstrapResult,
+  indexTenorMonths: number,
+  forecast: BootstrapResult = discount
+): FraRate[] {
+  const dateAfterSpot = forwardDates(discount);
+  const dayCount = discount.basisConvention.moneyMarketDayCount;
+  const strip: FraRate[] = [];
+
+  for (let m = 1; m + indexTenorMonths <= FRA_STRIP_HORIZON_MONTHS; m++) {
+    const startDate = dateAfterSpot(m);
+    const endDate = dateAfterSpot(m + indexTenorMonths);
+    const accrual = yearFraction(dayCount, startDate, endDate);
+    const startTenor = yearsBetween(discount.valuationDate, startDate);
+    const endTenor = yearsBetween(discount.valuationDate, endDate);
+
+    strip.push({
+      startMonths: m,
+      endMonths: m + indexTenorMonths,
+      startDate,
+      endDate,
+      accrual,
+      rate: (discountFactorAt(forecast, startTenor) / discountFactorAt(forecast, endTenor) - 1) / accrual,
+    });
+  }
+
+  return strip;
+}
+
+/**
+ * Label of a forward tenor in months: "6M", "1Y", "18M"
+ */
+export function formatMonths(months: number): string {
+  if (months === 0) return '0';
+  return months % 12 === 0 ? `${months / 12}Y` : `${months}M`;
+}
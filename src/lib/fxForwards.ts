@@ -0,0 +1,137 @@
+/**
+ * FX forwards from two discount curves (covered interest parity)
+ *
+ * For a pair BASE/QUOTE (spot S = units of QUOTE per BASE), from the spot
+ * date s to the value date T:
+ *   F(T) = S × [P_base(T)/P_base(s)] / [P_quote(T)/P_quote(s)]
+ *   forward points = (F − S) × pip factor (10 000, 100 against JPY)
+ *
+ * Implied cross-currency basis: the spread b on the base currency's
+ * continuous rate that reproduces market points,
+ *   F_mkt = F_cip × e^(−b × τ),  τ = T − s (ACT/365F)
+ * (negative b: base currency cheaper to borrow synthetically via FX swaps).
+ */
+
+import { BootstrapResult, discountFactorAt } from './bootstrapping';
+import { businessDayPredicate } from './calendars';
+import { addDays, addMonths, adjustDate, spotDate, yearsBetween } from './dates';
+
+// ============ Types ============
+
+export interface FxTenor {
+  label: string;
+  months?: number;
+  days?: number;
+}
+
+export interface FxForwardPoint {
+  label: string;
+  valueDate: Date;
+  tenor: number;            // ACT/365F years from spot
+  forward: number;          // CIP outright
+  points: number;           // CIP forward points
+  marketPoints?: number;
+  marketForward?: number;
+  impliedBasisBp?: number;  // on the base currency
+}
+
+export interface FxForwardCurve {
+  pair: string;             // e.g. "EURUSD"
+  spot: number;
+  spotDate: Date;
+  pipFactor: number;
+  points: FxForwardPoint[];
+}
+
+export const FX_FORWARD_TENORS: FxTenor[] = [
+  { label: '1W', days: 7 },
+  { label: '1M', months: 1 },
+  { label: '2M', months: 2 },
+  { label: '3M', months: 3 },
+  { label: '6M', months: 6 },
+  { label: '9M', months: 9 },
+  { label: '1Y', months: 12 },
+  { label: '18M', months: 18 },
+  { label: '2Y', months: 24 },
+  { label: '3Y', months: 36 },
+  { label: '5Y', months: 60 },
+  { label: '7Y', months: 84 },
+  { label: '10Y', months: 120 },
+];
+
+const FX_SPOT_LAG = 2;
+const FX_SPOT_LAG_USDCAD = 1;
+const ONE_BP = 0.0001;
+
+// ============ Conventions ============
+
+export function fxPipFactor(quoteCurrency: string): number {
+  return quoteCurrency === 'JPY' ? 100 : 10000;
+}
+
+function fxSpotLag(base: string, quote: string): number {
+  const pair = [base, quote].sort().join('');
+  return pair === 'CADUSD' ? FX_SPOT_LAG_USDCAD : FX_SPOT_LAG;
+}
+
+// ============ Forwards ============
+
+export function fxForwardCurve(
+  spot: number,
+  base: BootstrapResult,
+  quote: BootstrapResult,
+  marketPoints: Record<string, number> = {},
+  tenors: FxTenor[] = FX_FORWARD_TENORS
+): FxForwardCurve {
+  const valuationDate = base.valuationDate;
+  const isBusinessDay = businessDayPredicate([
+    ...base.basisConvention.calendars,
+    ...quote.basisConvention.calendars,
+  ]);
+  const spotValueDate = spotDate(valuationDate, fxSpotLag(base.currency, quote.currency), isBusinessDay);
+  const pipFactor = fxPipFactor(quote.currency);
+
+  const spotTenor = yearsBetween(valuationDate, spotValueDate);
+  const baseSpotDf = discountFactorAt(base, spotTenor);
+  const quoteSpotDf = discountFactorAt(quote, spotTenor);
+
+  const points = tenors.map((tenor): FxForwardPoint => {
+    const unadjusted = tenor.days !== undefined
+      ? addDays(spotValueDate, tenor.days)
+      : addMonths(spotValueDate, tenor.months ?? 0);
+    const valueDate = adjustDate(unadjusted, tenor.days !== undefined ? 'following' : 'modified_following', isBusinessDay);
+    const t = yearsBetween(valuationDate, valueDate);
+    const tau = t - spotTenor;
+
+    const forward = spot
+      * (discountFactorAt(base, t) / baseSpotDf)
+      / (discountFactorAt(quote, t) / quoteSpotDf);
+    const point: FxForwardPoint = {
+      label: tenor.label,
+      valueDate,
+      tenor: tau,
+      forward,
+      points: (forward - spot) * pipFactor,
+    };
+
+    const market = marketPoints[tenor.label];
+    if (market !== undefined && !isNaN(market)) {
+      const marketForward = spot + market / pipFactor;
+      point.marketPoints = market;
+      point.marketForward = marketForward;
+      if (marketForward > 0 && tau > 0) {
+        point.impliedBasisBp = -Math.log(marketForward / forward) / tau / ONE_BP;
+      }
+    }
+
+    return point;
+  });
+
+  return {
+    pair: `${base.currency}${quote.currency}`,
+    spot,
+    spotDate: spotValueDate,
+    pipFactor,
+    points,
+  };
+}
@@ -1,3 +1,5 @@
+import type { BootstrapPoint } from "./bootstrapping";
+
 // IRS (Interest Rate Swap) indices configuration
 export interface IRSIndex {
   id: string;
@@ -67,3 +69,21 @@ export interface IRSResponse {
   lastUpdated?: string;
   error?: string;
 }
+
+// Par swap points from an IRS quote response
+export function buildSwapPoints(irsData: IRSResponse | undefined): BootstrapPoint[] {
+  const points: BootstrapPoint[] = [];
+  if (!irsData?.data) return points;
+
+  irsData.data.forEach((item) => {
+    if (item.rateValue > 0 && item.rateValue < 50) {
+      points.push({
+        tenor: item.tenor,
+        rate: item.rateValue / 100,
+        source: "swap",
+        priority: 1,
+      });
+    }
+  });
+  return points;
+}
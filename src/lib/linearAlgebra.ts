@@ -0,0 +1,50 @@
+/**
+ * Small dense linear algebra helpers for curve calibration
+ *
+ * Systems are tiny (one row per instrument or parameter), so plain Gaussian
+ * elimination with partial pivoting is enough.
+ */
+
+const SINGULAR_PIVOT = 1e-14;
+
+/**
+ * Solve A·x = b. Returns null when A is (numerically) singular.
+ * Inputs are left untouched.
+ */
+export function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map(row => [...row]);
+  const b = [...rhs];
+
+  const scale = Math.max(...a.map(row => Math.max(...row.map(Math.abs))), 0);
+  if (n === 0 || scale === 0) return n === 0 ? [] : null;
+
+  for (let col = 0; col < n; col++) {
+    // Partial pivoting
+    let pivotRow = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivotRow][col])) pivotRow = row;
+    }
+    if (Math.abs(a[pivotRow][col]) < SINGULAR_PIVOT * scale) return null;
+
+    [a[col], a[pivotRow]] = [a[pivotRow], a[col]];
+    [b[col], b[pivotRow]] = [b[pivotRow], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  // Back substitution
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+
+  return x;
+}
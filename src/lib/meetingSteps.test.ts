@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { adjustFuturesToSwaps, bootstrap, BootstrapPoint, zeroRateAt } from './bootstrapping';
+import { addDays, futuresContractDates, makeDate, yearsBetween } from './dates';
+
+const VALUATION_DATE = makeDate(2025, 9, 17);
+
+// FOMC meetings, effective the next day
+const MEETINGS = [
+  makeDate(2025, 9, 29),
+  makeDate(2025, 11, 10),
+  makeDate(2026, 0, 28),
+  makeDate(2026, 2, 18),
+  makeDate(2026, 3, 29),
+  makeDate(2026, 5, 17),
+  makeDate(2026, 6, 29),
+  makeDate(2026, 8, 16),
+  makeDate(2026, 9, 28),
+  makeDate(2026, 11, 9),
+  makeDate(2027, 0, 27),
+  makeDate(2027, 2, 17),
+];
+
+// 3M SOFR futures rates, decimal
+const FUTURES_QUOTES: [string, number][] = [
+  ["Sep '25", 0.0402],
+  ["Dec '25", 0.0365],
+  ["Mar '26", 0.0348],
+  ["Jun '26", 0.0352],
+  ["Sep '26", 0.0361],
+  ["Dec '26", 0.0364],
+  ["Mar '27", 0.0366],
+];
+
+const futures: BootstrapPoint[] = FUTURES_QUOTES.map(([label, rate]) => {
+  const { start, end } = futuresContractDates(label, 3)!;
+  return {
+    tenor: yearsBetween(VALUATION_DATE, start),
+    rate,
+    source: 'futures',
+    priority: 2,
+    startDate: start,
+    endDate: end,
+  };
+});
+
+// Swaps well below the strip: plain futures between them would be adjusted
+const swaps: BootstrapPoint[] = [1, 2, 3, 5, 10].map(tenor => ({ tenor, rate: 0.031, source: 'swap', priority: 1 }));
+
+describe('meeting step curve', () => {
+  const methods = ['linear', 'cubic_spline', 'nelson_siegel', 'quantlib_log_cubic'] as const;
+
+  methods.forEach(method => {
+    it(`keeps the implied forward constant between two meetings (${method})`, () => {
+      const result = bootstrap(swaps, futures, method, 'USD', {
+        valuationDate: VALUATION_DATE,
+        futuresMode: 'meetings',
+        meetingDates: MEETINGS,
+      });
+
+      const from = yearsBetween(VALUATION_DATE, addDays(MEETINGS[1], 1));
+      const to = yearsBetween(VALUATION_DATE, addDays(MEETINGS[2], 1));
+      const forward = (a: number, b: number) => (zeroRateAt(result, b) * b - zeroRateAt(result, a) * a) / (b - a);
+      const span = to - from;
+      const reference = forward(from, to);
+
+      [[0.01, 0.2], [0.3, 0.5], [0.6, 0.99], [0.1, 0.9]].forEach(([a, b]) =>
+        expect(forward(from + a * span, from + b * span)).toBeCloseTo(reference, 10)
+      );
+    });
+  });
+
+  it('leaves the step nodes out of the futures adjustment to the swaps', () => {
+    const result = bootstrap(swaps, futures, 'linear', 'USD', {
+      valuationDate: VALUATION_DATE,
+      futuresMode: 'meetings',
+      meetingDates: MEETINGS,
+    });
+
+    const steps = result.adjustedPoints.filter(p => p.meetingStep);
+    expect(steps.length).toBeGreaterThan(0);
+    steps.forEach(p => expect(p.adjusted).toBeFalsy());
+    expect(result.meetingSteps?.length).toBe(steps.length);
+  });
+
+  it('adjusts plain futures but not step nodes', () => {
+    const plain: BootstrapPoint = { tenor: 1.5, rate: 0.04, source: 'futures', priority: 2 };
+    const step: BootstrapPoint = { ...plain, tenor: 1.6, meetingStep: true };
+    const adjusted = adjustFuturesToSwaps([...swaps, plain, step]);
+
+    expect(adjusted.find(p => p.tenor === 1.5)?.adjusted).toBe(true);
+    expect(adjusted.find(p => p.tenor === 1.6)).toEqual(step);
+  });
+});
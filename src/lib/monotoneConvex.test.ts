@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { BootstrapPoint, buildMonotoneConvexCurve, monotoneConvexForward } from './bootstrapping';
+
+// Hagan & West example curve ("Interpolation methods for curve
+// construction", 2006): continuously compounded zero rates by term
+const PAPER_CURVE: [number, number][] = [
+  [0.1, 0.081],
+  [1, 0.07],
+  [4, 0.044],
+  [9, 0.07],
+  [20, 0.04],
+  [30, 0.03],
+];
+
+const points = (curve: [number, number][]): BootstrapPoint[] =>
+  curve.map(([tenor, rate]) => ({ tenor, rate, source: 'swap', priority: 1 }));
+
+// Discrete forwards f^d_i = (r_i·τ_i − r_{i−1}·τ_{i−1}) / (τ_i − τ_{i−1})
+const DISCRETE_FORWARDS = [0.081, 0.0687778, 0.0353333, 0.0908, 0.0154545, 0.01];
+
+// Nodal forwards before amelioration and positivity: interval-weighted
+// interior nodes, f_0 = f^d_1 − ½(f_1 − f^d_1), f_n = f^d_n − ½(f_{n−1} − f^d_n)
+const RAW_NODE_FORWARDS = [0.0816111, 0.0797778, 0.0610598, 0.0561333, 0.0672545, 0.0125974, 0.0087013];
+
+// Nodal forwards with amelioration and positivity (the defaults)
+const AMELIORATED_NODE_FORWARDS = [0.0816111, 0.0797778, 0.0610598, 0.0561333, 0.0309091, 0.0125974, 0.0087013];
+
+// Instantaneous forwards of the default curve, from the four g(x) shapes
+const AMELIORATED_FORWARDS: [number, number][] = [
+  [0.05, 0.0811528],
+  [0.5, 0.0690275],
+  [2, 0.0262412],
+  [6, 0.1050694],
+  [15, 0.0125974],
+  [25, 0.0096753],
+];
+
+// Discrete forwards 1%, 3%, 4%, 3.33%, 3.4%, 3.45%
+const HUMPED_CURVE: [number, number][] = [
+  [0.5, 0.01],
+  [1, 0.02],
+  [2, 0.03],
+  [5, 0.032],
+  [10, 0.033],
+  [30, 0.034],
+];
+
+/**
+ * ∫ f over [a, b], composite Simpson
+ */
+function integrateForward(curve: ReturnType<typeof buildMonotoneConvexCurve>, a: number, b: number, steps = 2000): number {
+  const h = (b - a) / steps;
+  let sum = monotoneConvexForward(curve, a) + monotoneConvexForward(curve, b);
+  for (let k = 1; k < steps; k++) {
+    sum += (k % 2 === 0 ? 2 : 4) * monotoneConvexForward(curve, a + k * h);
+  }
+  return (sum * h) / 3;
+}
+
+describe('buildMonotoneConvexCurve', () => {
+  it('computes the discrete forwards of the paper example', () => {
+    const curve = buildMonotoneConvexCurve(points(PAPER_CURVE));
+    expect(curve.terms).toEqual([0, 0.1, 1, 4, 9, 20, 30]);
+    DISCRETE_FORWARDS.forEach((fd, i) => expect(curve.discreteForwards[i + 1]).toBeCloseTo(fd, 6));
+  });
+
+  it('estimates the nodal forwards from the adjacent discrete forwards', () => {
+    const curve = buildMonotoneConvexCurve(points(PAPER_CURVE), { amelioration: false, positivity: false });
+    RAW_NODE_FORWARDS.forEach((f, i) => expect(curve.nodeForwards[i]).toBeCloseTo(f, 6));
+  });
+
+  it('collars the nodal forwards to [0, 2·min(f^d_i, f^d_i+1)] under the positivity constraint', () => {
+    const curve = buildMonotoneConvexCurve(points(PAPER_CURVE), { amelioration: false });
+    // 9Y node: 6.73% estimated, bounded by twice the 9–20Y discrete forward
+    expect(curve.nodeForwards[4]).toBeCloseTo(2 * DISCRETE_FORWARDS[4], 6);
+    [0, 1, 2, 3, 5, 6].forEach(i => expect(curve.nodeForwards[i]).toBeCloseTo(RAW_NODE_FORWARDS[i], 6));
+  });
+
+  it('computes the ameliorated nodal forwards of the paper example', () => {
+    // The region (i) ranges of the adjacent intervals do not overlap at the
+    // interior nodes of the paper curve: only the positivity collar moves a node
+    const curve = buildMonotoneConvexCurve(points(PAPER_CURVE));
+    AMELIORATED_NODE_FORWARDS.forEach((f, i) => expect(curve.nodeForwards[i]).toBeCloseTo(f, 6));
+  });
+
+  it('moves the nodal forwards into the quadratic region where the adjacent ranges overlap', () => {
+    const plain = buildMonotoneConvexCurve(points(HUMPED_CURVE), { amelioration: false, positivity: false });
+    const ameliorated = buildMonotoneConvexCurve(points(HUMPED_CURVE), { positivity: false });
+
+    [0.005, 0.02, 0.0333333, 0.0383333, 0.0335833, 0.0341, 0.0347]
+      .forEach((f, i) => expect(plain.nodeForwards[i]).toBeCloseTo(f, 6));
+    [0.005, 0.02, 0.0333333, 0.0383333, 0.0335833, 0.0342083, 0.0346458]
+      .forEach((f, i) => expect(ameliorated.nodeForwards[i]).toBeCloseTo(f, 6));
+  });
+});
+
+describe('monotoneConvexForward', () => {
+  const variants = [
+    { name: 'plain', options: { amelioration: false, positivity: false } },
+    { name: 'positive', options: { amelioration: false, positivity: true } },
+    { name: 'ameliorated', options: { amelioration: true, positivity: true } },
+  ];
+
+  variants.forEach(({ name, options }) => {
+    it(`reproduces every input rate (${name})`, () => {
+      const curve = buildMonotoneConvexCurve(points(PAPER_CURVE), options);
+      for (let i = 1; i < curve.terms.length; i++) {
+        const integral = integrateForward(curve, curve.terms[i - 1], curve.terms[i]);
+        expect(integral).toBeCloseTo(curve.integratedRates[i] - curve.integratedRates[i - 1], 8);
+      }
+    });
+
+    it(`is continuous at the nodes (${name})`, () => {
+      const curve = buildMonotoneConvexCurve(points(PAPER_CURVE), options);
+      for (let i = 1; i < curve.terms.length - 1; i++) {
+        const t = curve.terms[i];
+        expect(monotoneConvexForward(curve, t - 1e-9)).toBeCloseTo(curve.nodeForwards[i], 6);
+        expect(monotoneConvexForward(curve, t + 1e-9)).toBeCloseTo(curve.nodeForwards[i], 6);
+      }
+    });
+  });
+
+  it('starts at f_0, passes through the nodal forwards and is flat past the last node', () => {
+    const curve = buildMonotoneConvexCurve(points(PAPER_CURVE), { amelioration: false, positivity: false });
+    expect(monotoneConvexForward(curve, 0)).toBeCloseTo(RAW_NODE_FORWARDS[0], 6);
+    expect(monotoneConvexForward(curve, 4)).toBeCloseTo(RAW_NODE_FORWARDS[3], 6);
+    expect(monotoneConvexForward(curve, 40)).toBeCloseTo(RAW_NODE_FORWARDS[6], 6);
+  });
+
+  it('interpolates the forwards of the ameliorated paper curve', () => {
+    const curve = buildMonotoneConvexCurve(points(PAPER_CURVE));
+    AMELIORATED_FORWARDS.forEach(([t, f]) => expect(monotoneConvexForward(curve, t)).toBeCloseTo(f, 6));
+  });
+
+  it('interpolates the forwards of ameliorated nodes', () => {
+    const curve = buildMonotoneConvexCurve(points(HUMPED_CURVE), { positivity: false });
+    expect(monotoneConvexForward(curve, 7)).toBeCloseTo(0.0339833, 6);
+    expect(monotoneConvexForward(curve, 12)).toBeCloseTo(0.0342915, 6);
+    expect(monotoneConvexForward(curve, 20)).toBeCloseTo(0.0345365, 6);
+  });
+
+  it('keeps the paper curve forwards non-negative under the positivity constraint', () => {
+    const grid = Array.from({ length: 3001 }, (_, k) => k * 0.01);
+    const curve = buildMonotoneConvexCurve(points(PAPER_CURVE));
+    expect(Math.min(...grid.map(t => monotoneConvexForward(curve, t)))).toBeGreaterThanOrEqual(0);
+  });
+
+  it('removes the negative forwards of a near-zero discrete forward between high ones', () => {
+    // Discrete forwards 5%, 0.2%, 5.3%
+    const dip = points([[1, 0.05], [2, 0.026], [3, 0.035]]);
+    const grid = Array.from({ length: 301 }, (_, k) => k * 0.01);
+    const plain = buildMonotoneConvexCurve(dip, { amelioration: false, positivity: false });
+    const positive = buildMonotoneConvexCurve(dip, { amelioration: false });
+
+    expect(Math.min(...grid.map(t => monotoneConvexForward(plain, t)))).toBeLessThan(0);
+    expect(Math.min(...grid.map(t => monotoneConvexForward(positive, t)))).toBeGreaterThanOrEqual(0);
+  });
+
+  it('preserves monotonicity of increasing discrete forwards', () => {
+    const curve = buildMonotoneConvexCurve(points([[1, 0.02], [2, 0.025], [5, 0.03], [10, 0.035], [30, 0.04]]));
+    const grid = Array.from({ length: 3001 }, (_, k) => k * 0.01);
+    const forwards = grid.map(t => monotoneConvexForward(curve, t));
+    forwards.slice(1).forEach((f, k) => expect(f).toBeGreaterThanOrEqual(forwards[k] - 1e-12));
+  });
+});
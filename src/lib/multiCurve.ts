@@ -0,0 +1,127 @@
+/**
+ * Multi-curve (dual-curve) framework
+ *
+ * Post-2008 setup: cash flows are discounted on an OIS curve (ESTR, SOFR,
+ * SONIA, SARON, TONA) while floating coupons are projected on the index's own
+ * curve (e.g. Euribor 3M). The discount curve is bootstrapped first; each
+ * forecast curve is then bootstrapped with its swaps discounted on it, the
+ * floating leg paying at the index tenor (4 per year for a 3M index).
+ */
+
+import {
+  bootstrap,
+  BootstrapMethod,
+  BootstrapOptions,
+  BootstrapPoint,
+  BootstrapResult,
+  discountFactorAt,
+} from './bootstrapping';
+
+// ============ Types ============
+
+export interface CurveInputs {
+  swapPoints: BootstrapPoint[];
+  futuresPoints: BootstrapPoint[];
+}
+
+export interface ForecastCurveInputs extends CurveInputs {
+  id: string;
+  label: string;            // e.g. "Euribor 3M"
+  indexTenorMonths: number; // tenor of the projected index
+}
+
+export interface BasisSpreadPoint {
+  tenor: number;
+  date?: Date;
+  forecastForward: number; // simple forward of the index tenor on the forecast curve
+  discountForward: number; // same period on the OIS curve
+  spreadBp: number;        // (forecast − discount) in basis points
+}
+
+export interface ForecastCurveResult {
+  id: string;
+  label: string;
+  indexTenorMonths: number;
+  result: BootstrapResult;
+  basisSpread: BasisSpreadPoint[];
+}
+
+export interface MultiCurveResult {
+  method: BootstrapMethod;
+  discount: BootstrapResult;
+  forecasts: ForecastCurveResult[];
+}
+
+// ============ Basis Spread ============
+
+/**
+ * Simple forward rate over [t, t + τ] on a curve (ACT/365F accrual)
+ */
+function simpleForward(result: BootstrapResult, tenor: number, period: number): number {
+  return (discountFactorAt(result, tenor) / discountFactorAt(result, tenor + period) - 1) / period;
+}
+
+/**
+ * Projection/OIS basis: forward of the index tenor on both curves, on the
+ * forecast curve's output grid
+ */
+export function computeBasisSpread(
+  forecast: BootstrapResult,
+  discount: BootstrapResult,
+  indexTenorMonths = 3
+): BasisSpreadPoint[] {
+  const period = indexTenorMonths / 12;
+
+  const grid: { tenor: number; date?: Date }[] = [
+    { tenor: 0, date: forecast.valuationDate },
+    ...forecast.discountFactors,
+  ];
+
+  return grid.map(({ tenor, date }) => {
+    const forecastForward = simpleForward(forecast, tenor, period);
+    const discountForward = simpleForward(discount, tenor, period);
+    return {
+      tenor,
+      date,
+      forecastForward,
+      discountForward,
+      spreadBp: (forecastForward - discountForward) * 10000,
+    };
+  });
+}
+
+// ============ Builder ============
+
+/**
+ * Bootstrap the OIS discount curve, then every forecast curve against it
+ */
+export function buildMultiCurve(
+  discountInputs: CurveInputs,
+  forecastInputs: ForecastCurveInputs[],
+  method: BootstrapMethod,
+  currency: string,
+  options: BootstrapOptions = {}
+): MultiCurveResult {
+  const discount = bootstrap(discountInputs.swapPoints, discountInputs.futuresPoints, method, currency, options);
+
+  const forecasts = forecastInputs
+    .filter(f => f.swapPoints.length > 0 || f.futuresPoints.length > 0)
+    .map(f => {
+      const forecastOptions = { ...options, floatFrequency: 12 / f.indexTenorMonths };
+      const result = discount.discountFactors.length > 0
+        ? bootstrap(f.swapPoints, f.futuresPoints, method, currency, { ...forecastOptions, discountCurve: discount })
+        : bootstrap(f.swapPoints, f.futuresPoints, method, currency, forecastOptions);
+
+      return {
+        id: f.id,
+        label: f.label,
+        indexTenorMonths: f.indexTenorMonths,
+        result,
+        basisSpread: result.discountFactors.length > 0 && discount.discountFactors.length > 0
+          ? computeBasisSpread(result, discount, f.indexTenorMonths)
+          : [],
+      };
+    });
+
+  return { method, discount, forecasts };
+}
@@ -0,0 +1,362 @@
+/**
+ * Interest rate options on a bootstrapped curve
+ *
+ * - Caps/floors: strip of caplets/floorlets on the index periods, each
+ *   N × α × DF(pay) × Black(F, K, σ, T_fix), F projected on the forecast curve
+ * - European swaptions: N × A × Black(S, K, σ, T_exp), S and A the forward
+ *   par rate and annuity of the underlying swap (see swapPricer.ts);
+ *   payer = call on the swap rate, receiver = put
+ *
+ * Models:
+ * - Black-76 shifted (lognormal): F + s and K + s must be positive, σ in %
+ * - Bachelier (normal): σ in bp, any sign of rates
+ *
+ * Greeks are sensitivities of the premium to the forward (delta per bp,
+ * gamma per bp²), to the vol (vega per vol point: 1% Black, 1bp normal)
+ * and to one day of time with the curve unchanged (theta).
+ */
+
+import { BootstrapResult, discountFactorAt } from './bootstrapping';
+import { businessDayPredicate } from './calendars';
+import { addMonths, adjustDate, generateSchedule, spotDate, yearsBetween } from './dates';
+import { periodAccrual } from './dayCount';
+import { defaultSwapTrade, priceSwap } from './swapPricer';
+
+// ============ Types ============
+
+export type VolModel = 'black' | 'bachelier';
+export type CapFloorType = 'cap' | 'floor';
+export type SwaptionType = 'payer' | 'receiver';
+
+export interface VolQuote {
+  strike: number; // decimal
+  vol: number;    // decimal (Black) or absolute rate (Bachelier, 0.01 = 100bp)
+}
+
+export interface VolatilitySpec {
+  model: VolModel;
+  shift?: number;   // Black displacement, decimal
+  flatVol: number;
+  smile?: VolQuote[]; // strike-dependent vols, linear in strike, flat outside
+}
+
+export interface OptionGreeks {
+  delta: number; // per 1bp of forward
+  gamma: number; // per 1bp² of forward
+  vega: number;  // per vol point
+  theta: number; // one day
+}
+
+export interface CapletValuation extends OptionGreeks {
+  fixingDate: Date;
+  paymentDate: Date;
+  fixingTenor: number;
+  accrual: number;
+  forward: number;
+  vol: number;
+  discountFactor: number;
+  premium: number;
+}
+
+export interface CapFloorValuation extends OptionGreeks {
+  premium: number;
+  atmRate: number; // strike at which cap = floor (annuity-weighted forward)
+  caplets: CapletValuation[];
+}
+
+export interface SwaptionValuation extends OptionGreeks {
+  premium: number;
+  forward: number;  // forward par swap rate
+  annuity: number;  // Σ αᵢ × DF(tᵢ), per unit notional
+  vol: number;
+  expiryTenor: number;
+}
+
+export interface CapFloorSpec {
+  type: CapFloorType;
+  notional: number;
+  strike: number;
+  startMonths: number;    // from spot
+  maturityMonths: number; // from spot
+  frequency: number;      // index periods per year
+}
+
+export interface SwaptionSpec {
+  type: SwaptionType;
+  notional: number;
+  strike: number;
+  expiryMonths: number;   // from the valuation date
+  tenorYears: number;     // underlying swap
+}
+
+const ONE_BP = 0.0001;
+const ONE_DAY = 1 / 365;
+const IMPLIED_VOL_TOLERANCE = 1e-10;
+const IMPLIED_VOL_MAX_ITERATIONS = 200;
+
+// ============ Vols ============
+
+export function volAt(spec: VolatilitySpec, strike: number): number {
+  const smile = spec.smile?.length ? [...spec.smile].sort((a, b) => a.strike - b.strike) : null;
+  if (!smile) return spec.flatVol;
+
+  if (strike <= smile[0].strike) return smile[0].vol;
+  const last = smile[smile.length - 1];
+  if (strike >= last.strike) return last.vol;
+
+  const i = smile.findIndex(q => q.strike >= strike);
+  const left = smile[i - 1];
+  const right = smile[i];
+  return left.vol + (right.vol - left.vol) * (strike - left.strike) / (right.strike - left.strike);
+}
+
+/**
+ * Vol point of the model: 1% lognormal, 1bp normal
+ */
+export function volUnit(model: VolModel): number {
+  return model === 'black' ? 0.01 : ONE_BP;
+}
+
+// ============ Formulas ============
+
+function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal CDF, Hart (1968) double-precision algorithm as given by
+ * West (2005)
+ */
+function normalCdf(x: number): number {
+  const z = Math.abs(x);
+  let tail: number;
+
+  if (z > 37) {
+    tail = 0;
+  } else if (z < 7.07106781186547) {
+    const e = Math.exp(-z * z / 2);
+    const num = ((((((0.0352624965998911 * z + 0.700383064443688) * z + 6.37396220353165) * z
+      + 33.912866078383) * z + 112.079291497871) * z + 221.213596169931) * z + 220.206867912376);
+    const den = (((((((0.0883883476483184 * z + 1.75566716318264) * z + 16.064177579207) * z
+      + 86.7807322029461) * z + 296.564248779674) * z + 637.333633378831) * z + 793.826512519948) * z
+      + 440.413735824752);
+    tail = e * num / den;
+  } else {
+    const e = Math.exp(-z * z / 2);
+    const fraction = z + 1 / (z + 2 / (z + 3 / (z + 4 / (z + 0.65))));
+    tail = e / fraction / 2.506628274631;
+  }
+
+  return x > 0 ? 1 - tail : tail;
+}
+
+interface UnitOption {
+  price: number; // undiscounted, per unit annuity
+  delta: number; // ∂/∂F
+  gamma: number; // ∂²/∂F²
+  vega: number;  // ∂/∂σ
+}
+
+/**
+ * Undiscounted call/put on a forward rate under the chosen model
+ */
+export function optionFormula(
+  model: VolModel,
+  isCall: boolean,
+  forward: number,
+  strike: number,
+  vol: number,
+  expiry: number,
+  shift = 0
+): UnitOption {
+  const sign = isCall ? 1 : -1;
+
+  if (model === 'bachelier') {
+    const intrinsic = Math.max(sign * (forward - strike), 0);
+    if (expiry <= 0 || vol <= 0) {
+      return { price: intrinsic, delta: intrinsic > 0 ? sign : 0, gamma: 0, vega: 0 };
+    }
+    const stdDev = vol * Math.sqrt(expiry);
+    const d = (forward - strike) / stdDev;
+    return {
+      price: sign * (forward - strike) * normalCdf(sign * d) + stdDev * normalPdf(d),
+      delta: sign * normalCdf(sign * d),
+      gamma: normalPdf(d) / stdDev,
+      vega: Math.sqrt(expiry) * normalPdf(d),
+    };
+  }
+
+  const f = forward + shift;
+  const k = strike + shift;
+  if (f <= 0 || k <= 0) {
+    // Outside the shifted lognormal domain: intrinsic value only
+    const intrinsic = Math.max(sign * (forward - strike), 0);
+    return { price: intrinsic, delta: intrinsic > 0 ? sign : 0, gamma: 0, vega: 0 };
+  }
+  if (expiry <= 0 || vol <= 0) {
+    const intrinsic = Math.max(sign * (f - k), 0);
+    return { price: intrinsic, delta: intrinsic > 0 ? sign : 0, gamma: 0, vega: 0 };
+  }
+
+  const stdDev = vol * Math.sqrt(expiry);
+  const d1 = (Math.log(f / k) + 0.5 * stdDev * stdDev) / stdDev;
+  const d2 = d1 - stdDev;
+  return {
+    price: sign * (f * normalCdf(sign * d1) - k * normalCdf(sign * d2)),
+    delta: sign * normalCdf(sign * d1),
+    gamma: normalPdf(d1) / (f * stdDev),
+    vega: f * Math.sqrt(expiry) * normalPdf(d1),
+  };
+}
+
+// ============ Caps / Floors ============
+
+export function priceCapFloor(
+  spec: CapFloorSpec,
+  vols: VolatilitySpec,
+  discountCurve: BootstrapResult,
+  forecastCurve: BootstrapResult = discountCurve
+): CapFloorValuation | null {
+  if (spec.maturityMonths <= spec.startMonths) return null;
+
+  const basis = discountCurve.basisConvention;
+  const isBusinessDay = businessDayPredicate(basis.calendars);
+  const spot = spotDate(discountCurve.valuationDate, basis.spotLag, isBusinessDay);
+  const start = spec.startMonths === 0
+    ? spot
+    : adjustDate(addMonths(spot, spec.startMonths), 'modified_following', isBusinessDay);
+  const maturity = addMonths(spot, spec.maturityMonths);
+  const periods = generateSchedule(start, maturity, spec.frequency, 'modified_following', isBusinessDay);
+
+  const tenorOf = (date: Date) => yearsBetween(discountCurve.valuationDate, date);
+  const isCall = spec.type === 'cap';
+  const unit = volUnit(vols.model);
+
+  let annuity = 0;
+  let weightedForward = 0;
+
+  const caplets: CapletValuation[] = periods.map((period) => {
+    const fixingTenor = tenorOf(period.start);
+    const paymentTenor = tenorOf(period.end);
+    const accrual = periodAccrual(basis.floatDayCount, period, spec.frequency);
+    const forward = (discountFactorAt(forecastCurve, Math.max(0, fixingTenor))
+      / discountFactorAt(forecastCurve, paymentTenor) - 1) / accrual;
+    const discountFactor = discountFactorAt(discountCurve, paymentTenor);
+    const vol = volAt(vols, spec.strike);
+    const scale = spec.notional * accrual * discountFactor;
+
+    const value = optionFormula(vols.model, isCall, forward, spec.strike, vol, fixingTenor, vols.shift);
+    const decayed = optionFormula(vols.model, isCall, forward, spec.strike, vol, fixingTenor - ONE_DAY, vols.shift);
+
+    annuity += accrual * discountFactor;
+    weightedForward += accrual * discountFactor * forward;
+
+    return {
+      fixingDate: period.start,
+      paymentDate: period.end,
+      fixingTenor,
+      accrual,
+      forward,
+      vol,
+      discountFactor,
+      premium: scale * value.price,
+      delta: scale * value.delta * ONE_BP,
+      gamma: scale * value.gamma * ONE_BP * ONE_BP,
+      vega: scale * value.vega * unit,
+      theta: scale * (decayed.price - value.price),
+    };
+  });
+
+  const sum = (key: keyof OptionGreeks | 'premium') => caplets.reduce((total, c) => total + c[key], 0);
+
+  return {
+    premium: sum('premium'),
+    delta: sum('delta'),
+    gamma: sum('gamma'),
+    vega: sum('vega'),
+    theta: sum('theta'),
+    atmRate: annuity > 0 ? weightedForward / annuity : 0,
+    caplets,
+  };
+}
+
+// ============ Swaptions ============
+
+export function priceSwaption(
+  spec: SwaptionSpec,
+  vols: VolatilitySpec,
+  discountCurve: BootstrapResult,
+  forecastCurve?: BootstrapResult
+): SwaptionValuation | null {
+  if (spec.tenorYears <= 0) return null;
+
+  const basis = discountCurve.basisConvention;
+  const isBusinessDay = businessDayPredicate(basis.calendars);
+  const expiryDate = adjustDate(
+    addMonths(discountCurve.valuationDate, spec.expiryMonths),
+    'modified_following',
+    isBusinessDay
+  );
+  const start = spotDate(expiryDate, basis.spotLag, isBusinessDay);
+  const trade = defaultSwapTrade(discountCurve, start, addMonths(start, Math.round(spec.tenorYears * 12)));
+  const swap = priceSwap(trade, discountCurve, forecastCurve);
+  if (!swap) return null;
+
+  const expiryTenor = yearsBetween(discountCurve.valuationDate, expiryDate);
+  const forward = swap.parRate;
+  const annuity = swap.annuity;
+  const vol = volAt(vols, spec.strike);
+  const isCall = spec.type === 'payer';
+  const scale = spec.notional * annuity;
+
+  const value = optionFormula(vols.model, isCall, forward, spec.strike, vol, expiryTenor, vols.shift);
+  const decayed = optionFormula(vols.model, isCall, forward, spec.strike, vol, expiryTenor - ONE_DAY, vols.shift);
+
+  return {
+    premium: scale * value.price,
+    forward,
+    annuity,
+    vol,
+    expiryTenor,
+    delta: scale * value.delta * ONE_BP,
+    gamma: scale * value.gamma * ONE_BP * ONE_BP,
+    vega: scale * value.vega * volUnit(vols.model),
+    theta: scale * (decayed.price - value.price),
+  };
+}
+
+// ============ Implied Vol ============
+
+/**
+ * Flat vol reproducing a premium: Newton on the vega, bisection when a step
+ * leaves the bracket. Null when the premium is outside the model's range.
+ */
+export function impliedVol(
+  premium: number,
+  priceAtVol: (vol: number) => { premium: number; vega: number } | null,
+  model: VolModel
+): number | null {
+  const unit = volUnit(model);
+  let low = 0;
+  let high = model === 'black' ? 5 : 0.05; // 500% lognormal, 500bp normal
+
+  const atLow = priceAtVol(low);
+  const atHigh = priceAtVol(high);
+  if (!atLow || !atHigh || premium < atLow.premium || premium > atHigh.premium) return null;
+
+  let vol = model === 'black' ? 0.2 : 0.01;
+  for (let i = 0; i < IMPLIED_VOL_MAX_ITERATIONS; i++) {
+    const value = priceAtVol(vol);
+    if (!value) return null;
+    const diff = value.premium - premium;
+    if (Math.abs(diff) < IMPLIED_VOL_TOLERANCE * Math.max(1, Math.abs(premium))) return vol;
+
+    if (diff > 0) high = vol;
+    else low = vol;
+
+    // vega is per vol point
+    const next = value.vega > 0 ? vol - diff / (value.vega / unit) : NaN;
+    vol = next > low && next < high ? next : 0.5 * (low + high);
+  }
+  return vol;
+}
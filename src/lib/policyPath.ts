@@ -0,0 +1,280 @@
+/**
+ * Central-bank meeting-date step curve
+ *
+ * Overnight indices (SOFR, ESTR, SONIA, SARON, TONA, CORRA, SORA) only move
+ * when the policy rate changes, so the short end of their curves is an
+ * instantaneous forward that is flat between policy meetings:
+ *
+ *   f(t) = r_k  for t in [e_k, e_k+1)
+ *
+ * with e_k the date a meeting's decision becomes effective. A futures
+ * contract accruing over [S, E] averages the forward over its period:
+ *
+ *   ln(1 + R × α) / τ = Σ_k r_k × |[S, E] ∩ [e_k, e_k+1)| / τ
+ *
+ * The rates r_k are solved by least squares on the futures, with a small
+ * penalty on moves so that meetings the futures cannot tell apart share the
+ * change. Policy levels are reported as overnight quotes, daily compounded
+ * on the money-market year: 1 + q/basis = e^(r/365). The implied move at
+ * each meeting is read as a probability of a 25bp hike or cut.
+ */
+
+import { addDays, makeDate, yearsBetween } from './dates';
+import { solveLinearSystem } from './linearAlgebra';
+
+// ============ Types ============
+
+export interface CentralBankSchedule {
+  bank: string;
+  effectiveLagDays: number; // calendar days from the decision to the new rate applying
+  meetings: string[];       // decision dates (YYYY-MM-DD)
+}
+
+export interface PolicyFuture {
+  label?: string;
+  startDate: Date;
+  endDate: Date;
+  rate: number; // continuous forward over the accrual period (ACT/365F)
+}
+
+export interface PolicyMeeting {
+  date: Date;
+  effectiveDate: Date;
+  rateBefore: number; // overnight quote
+  rateAfter: number;
+  changeBp: number;
+  cumulativeBp: number;      // change since the current rate
+  moveProbability: number;   // |change| / 25bp, capped at 1
+  direction: 'hike' | 'cut' | 'hold';
+}
+
+export interface PolicyStep {
+  start: Date;
+  end: Date;
+  rate: number; // continuous forward (ACT/365F)
+}
+
+export interface PolicyFutureFit {
+  label?: string;
+  startDate: Date;
+  endDate: Date;
+  marketRate: number;
+  modelRate: number;
+  residualBp: number;
+}
+
+export interface PolicyPath {
+  currentRate: number; // overnight quote before the first meeting
+  meetings: PolicyMeeting[];
+  steps: PolicyStep[]; // from the valuation date to the last futures end
+  fit: PolicyFutureFit[];
+}
+
+export interface PolicyPathOptions {
+  effectiveLagDays?: number;
+  dayBasis?: number;    // money-market year of the overnight quote (360 or 365), 365 if omitted
+  currentRate?: number; // overnight fixing (quote), solved from the futures if omitted
+}
+
+// ============ Meeting Schedules ============
+
+// Published (and, for the later years, indicative) decision dates. The
+// lists are editable in the UI; meetings after the last one keep the rate.
+const MEETING_SCHEDULES: Record<string, CentralBankSchedule> = {
+  USD: {
+    bank: 'FOMC',
+    effectiveLagDays: 1,
+    meetings: [
+      '2025-01-29', '2025-03-19', '2025-05-07', '2025-06-18', '2025-07-30', '2025-09-17', '2025-10-29', '2025-12-10',
+      '2026-01-28', '2026-03-18', '2026-04-29', '2026-06-17', '2026-07-29', '2026-09-16', '2026-10-28', '2026-12-09',
+      '2027-01-27', '2027-03-17', '2027-04-28', '2027-06-16', '2027-07-28', '2027-09-22', '2027-10-27', '2027-12-08',
+    ],
+  },
+  EUR: {
+    bank: 'BCE',
+    effectiveLagDays: 6, // the following Wednesday
+    meetings: [
+      '2025-01-30', '2025-03-06', '2025-04-17', '2025-06-05', '2025-07-24', '2025-09-11', '2025-10-30', '2025-12-18',
+      '2026-02-05', '2026-03-19', '2026-04-30', '2026-06-11', '2026-07-23', '2026-09-10', '2026-10-29', '2026-12-17',
+      '2027-02-04', '2027-03-18', '2027-04-29', '2027-06-10', '2027-07-22', '2027-09-09', '2027-10-28', '2027-12-16',
+    ],
+  },
+  GBP: {
+    bank: 'BoE',
+    effectiveLagDays: 1,
+    meetings: [
+      '2025-02-06', '2025-03-20', '2025-05-08', '2025-06-19', '2025-08-07', '2025-09-18', '2025-11-06', '2025-12-18',
+      '2026-02-05', '2026-03-19', '2026-04-30', '2026-06-18', '2026-07-30', '2026-09-17', '2026-11-05', '2026-12-17',
+      '2027-02-04', '2027-03-18', '2027-05-06', '2027-06-17', '2027-08-05', '2027-09-16', '2027-11-04', '2027-12-16',
+    ],
+  },
+  CHF: {
+    bank: 'BNS',
+    effectiveLagDays: 1,
+    meetings: [
+      '2025-03-20', '2025-06-19', '2025-09-25', '2025-12-11',
+      '2026-03-19', '2026-06-18', '2026-09-24', '2026-12-10',
+      '2027-03-18', '2027-06-17', '2027-09-23', '2027-12-09',
+    ],
+  },
+  JPY: {
+    bank: 'BoJ',
+    effectiveLagDays: 1,
+    meetings: [
+      '2025-01-24', '2025-03-19', '2025-05-01', '2025-06-17', '2025-07-31', '2025-09-19', '2025-10-30', '2025-12-19',
+      '2026-01-23', '2026-03-19', '2026-04-28', '2026-06-16', '2026-07-31', '2026-09-18', '2026-10-30', '2026-12-18',
+      '2027-01-22', '2027-03-18', '2027-04-30', '2027-06-15', '2027-07-30', '2027-09-17', '2027-10-29', '2027-12-17',
+    ],
+  },
+  CAD: {
+    bank: 'BoC',
+    effectiveLagDays: 1,
+    meetings: [
+      '2025-01-29', '2025-03-12', '2025-04-16', '2025-06-04', '2025-07-30', '2025-09-17', '2025-10-29', '2025-12-10',
+      '2026-01-28', '2026-03-18', '2026-04-29', '2026-06-10', '2026-07-15', '2026-09-02', '2026-10-28', '2026-12-09',
+      '2027-01-27', '2027-03-10', '2027-04-14', '2027-06-02', '2027-07-14', '2027-09-08', '2027-10-27', '2027-12-08',
+    ],
+  },
+  SGD: {
+    bank: 'MAS',
+    effectiveLagDays: 1,
+    meetings: [
+      '2025-01-24', '2025-04-14', '2025-07-30', '2025-10-14',
+      '2026-01-29', '2026-04-14', '2026-07-29', '2026-10-14',
+      '2027-01-28', '2027-04-14', '2027-07-29', '2027-10-14',
+    ],
+  },
+};
+
+function parseScheduleDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return makeDate(year, month - 1, day);
+}
+
+export function getCentralBankSchedule(currency: string): CentralBankSchedule | undefined {
+  return MEETING_SCHEDULES[currency];
+}
+
+export function getDefaultMeetingDates(currency: string): Date[] {
+  return (MEETING_SCHEDULES[currency]?.meetings ?? []).map(parseScheduleDate);
+}
+
+// ============ Solver ============
+
+// Penalty on rate moves relative to the futures fit (resolves meetings the
+// futures cannot separate without biasing the fit)
+const MOVE_PENALTY = 1e-6;
+const STANDARD_MOVE_BP = 25;
+const HOLD_THRESHOLD_BP = 0.5;
+
+/**
+ * Solve the policy rate after each meeting from the futures strip
+ */
+export function fitPolicyPath(
+  futures: PolicyFuture[],
+  meetingDates: Date[],
+  valuationDate: Date,
+  options: PolicyPathOptions = {}
+): PolicyPath | null {
+  const strip = futures
+    .filter(f => f.endDate > valuationDate && f.endDate > f.startDate)
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  if (strip.length === 0) return null;
+
+  const lag = options.effectiveLagDays ?? 1;
+  const dayBasis = options.dayBasis ?? 365;
+  const toQuote = (rate: number) => dayBasis * (Math.exp(rate / 365) - 1);
+  const timeOf = (date: Date) => yearsBetween(valuationDate, date);
+  const horizon = Math.max(...strip.map(f => timeOf(f.endDate)));
+
+  // Meetings whose new rate applies inside the futures coverage
+  const meetings = Array.from(new Set(meetingDates.map(d => d.getTime())))
+    .map(time => new Date(time))
+    .map(date => ({ date, effectiveDate: addDays(date, lag) }))
+    .filter(m => timeOf(m.effectiveDate) > 0 && timeOf(m.effectiveDate) < horizon)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Segment k: [b_k, b_k+1). A contract already accruing is read as a
+  // forward over its remaining period (as in the chained strip)
+  const bounds = [-Infinity, ...meetings.map(m => timeOf(m.effectiveDate)), Infinity];
+  const n = meetings.length + 1;
+
+  const rows = strip.map(f => {
+    const s = Math.max(0, timeOf(f.startDate));
+    const e = timeOf(f.endDate);
+    return Array.from({ length: n }, (_, k) =>
+      Math.max(0, Math.min(e, bounds[k + 1]) - Math.max(s, bounds[k])) / (e - s)
+    );
+  });
+  const targets = strip.map(f => f.rate);
+  if (options.currentRate !== undefined) {
+    rows.push(Array.from({ length: n }, (_, k) => (k === 0 ? 1 : 0)));
+    targets.push(365 * Math.log(1 + options.currentRate / dayBasis));
+  }
+
+  // Normal equations (AᵀA + μ·DᵀD)·r = Aᵀc, D the first differences
+  const matrix = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  for (let k = 1; k < n; k++) {
+    matrix[k][k] += MOVE_PENALTY;
+    matrix[k - 1][k - 1] += MOVE_PENALTY;
+    matrix[k][k - 1] -= MOVE_PENALTY;
+    matrix[k - 1][k] -= MOVE_PENALTY;
+  }
+  const rhs = Array.from({ length: n }, (_, i) => rows.reduce((sum, row, j) => sum + row[i] * targets[j], 0));
+
+  const rates = solveLinearSystem(matrix, rhs);
+  if (!rates) return null;
+
+  const quotes = rates.map(toQuote);
+  const currentRate = quotes[0];
+  const pathMeetings: PolicyMeeting[] = meetings.map((m, k) => {
+    const changeBp = (quotes[k + 1] - quotes[k]) * 10000;
+    return {
+      date: m.date,
+      effectiveDate: m.effectiveDate,
+      rateBefore: quotes[k],
+      rateAfter: quotes[k + 1],
+      changeBp,
+      cumulativeBp: (quotes[k + 1] - currentRate) * 10000,
+      moveProbability: Math.min(1, Math.abs(changeBp) / STANDARD_MOVE_BP),
+      direction: Math.abs(changeBp) < HOLD_THRESHOLD_BP ? 'hold' : changeBp > 0 ? 'hike' : 'cut',
+    };
+  });
+
+  const lastEnd = strip.reduce((last, f) => (f.endDate > last ? f.endDate : last), strip[0].endDate);
+  const stepBounds = [valuationDate, ...meetings.map(m => m.effectiveDate), lastEnd];
+  const steps = rates.map((rate, k) => ({ start: stepBounds[k], end: stepBounds[k + 1], rate }));
+
+  const fit = strip.map((f, j) => {
+    const modelRate = rows[j].reduce((sum, w, k) => sum + w * rates[k], 0);
+    return {
+      label: f.label,
+      startDate: f.startDate,
+      endDate: f.endDate,
+      marketRate: f.rate,
+      modelRate,
+      residualBp: (modelRate - f.rate) * 10000,
+    };
+  });
+
+  return { currentRate, meetings: pathMeetings, steps, fit };
+}
+
+/**
+ * Zero-rate nodes of the step curve at every step end (continuous,
+ * ACT/365F from the valuation date): a flat-forward interpolation through
+ * them reproduces the steps exactly
+ */
+export function policyPathNodes(path: PolicyPath, valuationDate: Date): { tenor: number; date: Date; rate: number }[] {
+  let integral = 0;
+  return path.steps
+    .map(step => {
+      const start = Math.max(0, yearsBetween(valuationDate, step.start));
+      const end = yearsBetween(valuationDate, step.end);
+      integral += step.rate * Math.max(0, end - start);
+      return { tenor: end, date: step.end, rate: end > 0 ? integral / end : step.rate };
+    })
+    .filter(node => node.tenor > 0);
+}
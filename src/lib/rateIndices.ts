@@ -4,6 +4,7 @@ export interface RateIndex {
   name: string;
   currency: string;
   description: string;
+  contractMonths?: number; // accrual period of each contract (default 3M IMM-to-IMM)
 }
 
 export const RATE_INDICES: RateIndex[] = [
@@ -35,7 +36,8 @@ export const RATE_INDICES: RateIndex[] = [
     id: "estr1m",
     name: "1-Month ESTR",
     currency: "EUR",
-    description: "Euro Short-Term Rate - 1 Month"
+    description: "Euro Short-Term Rate - 1 Month",
+    contractMonths: 1
   },
   {
     id: "estr3m_long",
@@ -0,0 +1,183 @@
+/**
+ * Curve risk: sensitivities of a bootstrapped curve and of a cash-flow set
+ *
+ * - Jacobian: each input instrument (swap par rate, futures rate, bond
+ *   yield) is bumped by 1bp and the curve rebuilt with the same method;
+ *   the change of zero rates and DFs at the report tenors is ∂/∂input
+ * - Bucketed DV01: value change of the cash flows for each input bump
+ * - Parallel DV01: every input bumped together
+ * - Key-rate durations: triangular 1bp bumps of the zero curve centred on
+ *   each key tenor (they sum to the parallel zero-curve bump)
+ *
+ * DV01 = PV(base) − PV(bumped), positive for cash flows received.
+ */
+
+import { BootstrapPoint, BootstrapResult, discountFactorAt, zeroRateAt } from './bootstrapping';
+import { parseISODate, yearsBetween } from './dates';
+
+// ============ Types ============
+
+export interface RiskCashFlow {
+  tenor: number; // ACT/365F years from the valuation date
+  date?: Date;
+  amount: number;
+}
+
+export interface InputRisk {
+  index: number;              // position in BootstrapResult.inputPoints
+  source: BootstrapPoint['source'];
+  tenor: number;
+  rate: number;               // market quote bumped
+  dv01: number;               // cash-flow DV01 to this input
+}
+
+export interface KeyRateRisk {
+  tenor: number;
+  dv01: number;
+  duration: number; // DV01 / (PV × 1bp)
+}
+
+export interface CurveJacobian {
+  tenors: number[];   // report tenors (rows)
+  zero: number[][];   // ∂zero rate / ∂input, bp per bp
+  df: number[][];     // ∂DF / ∂input, per bp
+}
+
+export interface CurveRisk {
+  presentValue: number;
+  parallelDv01: number;       // all inputs bumped by 1bp and the curve rebuilt
+  modifiedDuration: number;   // parallel DV01 / (PV × 1bp)
+  inputs: InputRisk[];
+  keyRates: KeyRateRisk[];
+  jacobian: CurveJacobian;
+}
+
+/**
+ * Rebuilds the curve from (bumped) market inputs with the original method
+ * and options
+ */
+export type CurveBuilder = (inputs: BootstrapPoint[]) => BootstrapResult;
+
+export const BUMP_SIZE = 0.0001; // 1bp
+export const DEFAULT_KEY_RATE_TENORS = [0.25, 0.5, 1, 2, 3, 5, 7, 10, 15, 20, 30];
+
+// ============ Valuation ============
+
+export function presentValue(result: BootstrapResult, cashFlows: RiskCashFlow[]): number {
+  return cashFlows.reduce((pv, cf) => pv + cf.amount * discountFactorAt(result, cf.tenor), 0);
+}
+
+/**
+ * Weight of the key tenor's triangular bump at t: 1 at the key, linear to 0
+ * at its neighbours, flat beyond the first and last keys
+ */
+function keyRateWeight(keys: number[], k: number, t: number): number {
+  const key = keys[k];
+  const prev = keys[k - 1];
+  const next = keys[k + 1];
+
+  if (t <= key) {
+    if (prev === undefined) return 1;
+    return t <= prev ? 0 : (t - prev) / (key - prev);
+  }
+  if (next === undefined) return 1;
+  return t >= next ? 0 : (next - t) / (next - key);
+}
+
+// ============ Risk ============
+
+export function computeCurveRisk(
+  result: BootstrapResult,
+  rebuild: CurveBuilder,
+  cashFlows: RiskCashFlow[],
+  keyTenors: number[] = DEFAULT_KEY_RATE_TENORS
+): CurveRisk {
+  const inputs = result.inputPoints;
+  const keys = [...keyTenors].sort((a, b) => a - b);
+  const pv = presentValue(result, cashFlows);
+
+  const bumpInputs = (indices: Set<number>) =>
+    inputs.map((p, i) => (indices.has(i) ? { ...p, rate: p.rate + BUMP_SIZE } : p));
+
+  // One rebuild per input instrument
+  const bumped = inputs.map((_, i) => rebuild(bumpInputs(new Set([i]))));
+
+  const inputRisk: InputRisk[] = inputs.map((p, i) => ({
+    index: i,
+    source: p.source,
+    tenor: p.tenor,
+    rate: p.rate,
+    dv01: pv - presentValue(bumped[i], cashFlows),
+  }));
+
+  const jacobian: CurveJacobian = {
+    tenors: keys,
+    zero: keys.map(t => bumped.map(curve => (zeroRateAt(curve, t) - zeroRateAt(result, t)) / BUMP_SIZE)),
+    df: keys.map(t => bumped.map(curve => discountFactorAt(curve, t) - discountFactorAt(result, t))),
+  };
+
+  const parallel = rebuild(bumpInputs(new Set(inputs.map((_, i) => i))));
+  const parallelDv01 = pv - presentValue(parallel, cashFlows);
+
+  const keyRates = keys.map((tenor, k) => {
+    const bumpedPv = cashFlows.reduce(
+      (sum, cf) => sum + cf.amount * discountFactorAt(result, cf.tenor)
+        * Math.exp(-BUMP_SIZE * keyRateWeight(keys, k, cf.tenor) * cf.tenor),
+      0
+    );
+    const dv01 = pv - bumpedPv;
+    return { tenor, dv01, duration: pv !== 0 ? dv01 / (pv * BUMP_SIZE) : 0 };
+  });
+
+  return {
+    presentValue: pv,
+    parallelDv01,
+    modifiedDuration: pv !== 0 ? parallelDv01 / (pv * BUMP_SIZE) : 0,
+    inputs: inputRisk,
+    keyRates,
+    jacobian,
+  };
+}
+
+// ============ Cash-Flow Input ============
+
+/**
+ * Parse cash flows, one per line: "<date or tenor>; <amount>" where the
+ * first field is YYYY-MM-DD or a tenor in years ("5", "5Y", "6M")
+ */
+export function parseCashFlows(text: string, valuationDate: Date): RiskCashFlow[] {
+  const flows: RiskCashFlow[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const [when, value] = line.split(/[;,\t]/).map(field => field?.trim());
+    const amount = parseFloat(value ?? '');
+    if (!when || isNaN(amount)) continue;
+
+    const date = parseISODate(when);
+    if (date) {
+      const tenor = yearsBetween(valuationDate, date);
+      if (tenor > 0) flows.push({ tenor, date, amount });
+      continue;
+    }
+
+    const match = when.match(/^(\d+(?:\.\d+)?)\s*([YyMm]?)$/);
+    if (match) {
+      const tenor = parseFloat(match[1]) / (match[2].toUpperCase() === 'M' ? 12 : 1);
+      if (tenor > 0) flows.push({ tenor, amount });
+    }
+  }
+
+  return flows.sort((a, b) => a.tenor - b.tenor);
+}
+
+/**
+ * Fixed-rate bullet: coupons every 1/frequency years and the notional at
+ * maturity (default cash-flow set of the Risk tab)
+ */
+export function bulletCashFlows(maturity: number, couponRate: number, notional = 100, frequency = 1): RiskCashFlow[] {
+  const periods = Math.max(1, Math.round(maturity * frequency));
+  return Array.from({ length: periods }, (_, i) => ({
+    tenor: (i + 1) / frequency,
+    amount: notional * couponRate / frequency + (i === periods - 1 ? notional : 0),
+  }));
+}
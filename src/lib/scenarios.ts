@@ -0,0 +1,249 @@
+/**
+ * Curve scenarios: deterministic shocks of a bootstrapped curve
+ *
+ * A shock is a rate change Δ(t) by tenor, applied either
+ * - to the market inputs (Δ at each instrument's tenor) and the curve
+ *   rebuilt with the same method and options, or
+ * - directly to the zero rates (continuous), the method's curve kept as is.
+ *
+ * Shapes (Δ in bp):
+ * - parallel:   Δ(t) = s
+ * - twist:      Δ(t) = s × (min(t, 30) − pivot) / 30, a rotation around the
+ *               pivot; s is the change of the 0–30Y slope (> 0 steepener,
+ *               < 0 flattener)
+ * - butterfly:  Δ(t) = s × (2 × min(|t − belly| / belly, 1) − 1), belly
+ *               down and wings up by s (s < 0 the reverse)
+ * - custom:     bumps by tenor, linear between them and flat outside
+ * - IRRBB:      the six BCBS standardised shocks (BCBS 368, §2), with
+ *               short-end decay e^(−t/4):
+ *                 parallel ±R_p, short ±R_s e^(−t/4),
+ *                 steepener −0.65 R_s e^(−t/4) + 0.9 R_l (1 − e^(−t/4)),
+ *                 flattener +0.8 R_s e^(−t/4) − 0.6 R_l (1 − e^(−t/4))
+ */
+
+import {
+  BootstrapPoint,
+  BootstrapResult,
+  calculateDiscountFactor,
+  calculateForwardRate,
+  DiscountFactor,
+  zeroRateAt,
+} from './bootstrapping';
+import { CurveBuilder, DEFAULT_KEY_RATE_TENORS } from './risk';
+
+// ============ Types ============
+
+export type IrrbbScenario =
+  | 'parallel_up'
+  | 'parallel_down'
+  | 'steepener'
+  | 'flattener'
+  | 'short_up'
+  | 'short_down';
+
+export type CurveShock =
+  | { kind: 'parallel'; sizeBp: number }
+  | { kind: 'twist'; sizeBp: number; pivot: number }
+  | { kind: 'butterfly'; sizeBp: number; belly: number }
+  | { kind: 'custom'; bumps: { tenor: number; bp: number }[] }
+  | { kind: 'irrbb'; scenario: IrrbbScenario };
+
+export type ShockTarget = 'inputs' | 'zero';
+
+export interface IrrbbShockSizes {
+  parallel: number; // bp
+  short: number;
+  long: number;
+}
+
+export interface ScenarioChange {
+  tenor: number;
+  baseRate: number;     // zero rate
+  shockedRate: number;
+  changeBp: number;
+}
+
+export const IRRBB_SCENARIOS: { id: IrrbbScenario; name: string }[] = [
+  { id: 'parallel_up', name: 'Parallèle haussier' },
+  { id: 'parallel_down', name: 'Parallèle baissier' },
+  { id: 'steepener', name: 'Pentification' },
+  { id: 'flattener', name: 'Aplatissement' },
+  { id: 'short_up', name: 'Hausse des taux courts' },
+  { id: 'short_down', name: 'Baisse des taux courts' },
+];
+
+// Standardised shock sizes by currency (BCBS 368, Annex 2)
+const IRRBB_SHOCK_SIZES: Record<string, IrrbbShockSizes> = {
+  USD: { parallel: 200, short: 300, long: 150 },
+  EUR: { parallel: 200, short: 250, long: 100 },
+  GBP: { parallel: 250, short: 300, long: 150 },
+  CHF: { parallel: 100, short: 150, long: 100 },
+  JPY: { parallel: 100, short: 100, long: 100 },
+  CAD: { parallel: 200, short: 300, long: 150 },
+  SGD: { parallel: 150, short: 200, long: 100 },
+};
+
+const ONE_BP = 0.0001;
+const TWIST_SPAN = 30;
+const IRRBB_DECAY = 4;
+// Tenor grid the zero-rate shift is sampled on
+const ZERO_SHIFT_STEP = 0.25;
+const ZERO_SHIFT_HORIZON = 60;
+
+export function getIrrbbShockSizes(currency: string): IrrbbShockSizes {
+  return IRRBB_SHOCK_SIZES[currency] || IRRBB_SHOCK_SIZES.USD;
+}
+
+// ============ Shock Shapes ============
+
+function customBumpAt(bumps: { tenor: number; bp: number }[], tenor: number): number {
+  const sorted = [...bumps].sort((a, b) => a.tenor - b.tenor);
+  if (sorted.length === 0) return 0;
+  if (tenor <= sorted[0].tenor) return sorted[0].bp;
+
+  for (let i = 1; i < sorted.length; i++) {
+    if (tenor <= sorted[i].tenor) {
+      const prev = sorted[i - 1];
+      return prev.bp + ((tenor - prev.tenor) / (sorted[i].tenor - prev.tenor)) * (sorted[i].bp - prev.bp);
+    }
+  }
+  return sorted[sorted.length - 1].bp;
+}
+
+function irrbbShockAt(scenario: IrrbbScenario, sizes: IrrbbShockSizes, tenor: number): number {
+  const shortWeight = Math.exp(-tenor / IRRBB_DECAY);
+  const longWeight = 1 - shortWeight;
+
+  switch (scenario) {
+    case 'parallel_up':
+      return sizes.parallel;
+    case 'parallel_down':
+      return -sizes.parallel;
+    case 'steepener':
+      return -0.65 * sizes.short * shortWeight + 0.9 * sizes.long * longWeight;
+    case 'flattener':
+      return 0.8 * sizes.short * shortWeight - 0.6 * sizes.long * longWeight;
+    case 'short_up':
+      return sizes.short * shortWeight;
+    case 'short_down':
+      return -sizes.short * shortWeight;
+  }
+}
+
+/**
+ * Rate change of the shock at a tenor, in bp
+ */
+export function shockAt(shock: CurveShock, tenor: number, currency: string): number {
+  switch (shock.kind) {
+    case 'parallel':
+      return shock.sizeBp;
+    case 'twist':
+      return (shock.sizeBp * (Math.min(tenor, TWIST_SPAN) - shock.pivot)) / TWIST_SPAN;
+    case 'butterfly':
+      if (shock.belly <= 0) return 0;
+      return shock.sizeBp * (2 * Math.min(Math.abs(tenor - shock.belly) / shock.belly, 1) - 1);
+    case 'custom':
+      return customBumpAt(shock.bumps, tenor);
+    case 'irrbb':
+      return irrbbShockAt(shock.scenario, getIrrbbShockSizes(currency), tenor);
+  }
+}
+
+/**
+ * Kinks of the shape, added to the sampling grid so the linear zero-rate
+ * shift is exact there
+ */
+function shockKinks(shock: CurveShock): number[] {
+  switch (shock.kind) {
+    case 'twist':
+      return [TWIST_SPAN];
+    case 'butterfly':
+      return [shock.belly, 2 * shock.belly];
+    case 'custom':
+      return shock.bumps.map((b) => b.tenor);
+    default:
+      return [];
+  }
+}
+
+// ============ Scenario Application ============
+
+export function shockInputs(result: BootstrapResult, shock: CurveShock): BootstrapPoint[] {
+  return result.inputPoints.map((p) => ({
+    ...p,
+    rate: p.rate + shockAt(shock, p.tenor, result.currency) * ONE_BP,
+  }));
+}
+
+/**
+ * Shift the zero rates of the curve: the shift is carried by zeroShift only
+ * (layered on zeroRateAt) and the discount factor grid recomputed from it.
+ * curvePoints stay the method's base sampling, which some methods (e.g.
+ * bloomberg) read back in zeroRateAt.
+ */
+export function shiftZeroRates(result: BootstrapResult, shock: CurveShock): BootstrapResult {
+  const lastTenor = result.curvePoints[result.curvePoints.length - 1]?.tenor ?? 0;
+  const horizon = Math.max(ZERO_SHIFT_HORIZON, lastTenor);
+  const grid = Array.from({ length: Math.round(horizon / ZERO_SHIFT_STEP) + 1 }, (_, k) => k * ZERO_SHIFT_STEP);
+  const tenors = Array.from(new Set([...grid, ...shockKinks(shock).filter((t) => t > 0 && t < horizon)]))
+    .sort((a, b) => a - b);
+
+  const shifted: BootstrapResult = {
+    ...result,
+    zeroShift: tenors.map((tenor) => ({ tenor, rate: shockAt(shock, tenor, result.currency) * ONE_BP })),
+  };
+
+  const discountFactors: DiscountFactor[] = [];
+  for (const row of result.discountFactors) {
+    const zeroRate = zeroRateAt(shifted, row.tenor);
+    const df = calculateDiscountFactor(zeroRate, row.tenor);
+    const prev = discountFactors[discountFactors.length - 1];
+    const forwardRate = prev ? calculateForwardRate(prev.df, prev.tenor, df, row.tenor) : zeroRate;
+    discountFactors.push({ ...row, df, zeroRate, forwardRate: Math.max(0, forwardRate) });
+  }
+
+  return { ...shifted, discountFactors };
+}
+
+export function applyShock(
+  result: BootstrapResult,
+  shock: CurveShock,
+  target: ShockTarget,
+  rebuild: CurveBuilder
+): BootstrapResult {
+  return target === 'inputs' ? rebuild(shockInputs(result, shock)) : shiftZeroRates(result, shock);
+}
+
+export function scenarioChanges(
+  base: BootstrapResult,
+  shocked: BootstrapResult,
+  tenors: number[] = DEFAULT_KEY_RATE_TENORS
+): ScenarioChange[] {
+  return tenors.map((tenor) => {
+    const baseRate = zeroRateAt(base, tenor);
+    const shockedRate = zeroRateAt(shocked, tenor);
+    return { tenor, baseRate, shockedRate, changeBp: (shockedRate - baseRate) / ONE_BP };
+  });
+}
+
+// ============ Custom Bumps Input ============
+
+/**
+ * Parse custom bumps, one per line: "<tenor>; <bp>" with the tenor in years
+ * or months ("5", "5Y", "6M")
+ */
+export function parseShockBumps(text: string): { tenor: number; bp: number }[] {
+  const bumps: { tenor: number; bp: number }[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const [when, value] = line.split(/[;,\t]/).map((field) => field?.trim());
+    const bp = parseFloat(value ?? '');
+    const match = when?.match(/^(\d+(?:\.\d+)?)\s*([YyMm]?)$/);
+    if (!match || isNaN(bp)) continue;
+
+    const tenor = parseFloat(match[1]) / (match[2].toUpperCase() === 'M' ? 12 : 1);
+    bumps.push({ tenor, bp });
+  }
+
+  return bumps.sort((a, b) => a.tenor - b.tenor);
+}
@@ -0,0 +1,180 @@
+/**
+ * Smith-Wilson curve (EIOPA risk-free rate methodology)
+ *
+ * Discount function fitted exactly to the liquid instruments and converging
+ * to an ultimate forward rate (UFR) beyond the last liquid point:
+ *
+ *   P(t) = e^(−ω·t) + Σⱼ ζⱼ × W(t, uⱼ)
+ *   W(t, u) = e^(−ω(t+u)) × [α·min(t,u) − ½·e^(−α·max(t,u))·(e^(α·min(t,u)) − e^(−α·min(t,u)))]
+ *
+ * with ω = ln(1 + UFR). For instruments with prices m and cash flows C at
+ * dates u, the weights solve (C·W·Cᵀ)·ξ = m − C·e^(−ω·u) and ζ = Cᵀ·ξ.
+ * α (speed of convergence) is the smallest value ≥ 0.05 for which the
+ * forward at the convergence point is within 1bp of the UFR.
+ */
+
+import { solveLinearSystem } from './linearAlgebra';
+
+// ============ Types ============
+
+export interface SmithWilsonSettings {
+  ufr: number;              // ultimate forward rate, annual compounding (e.g. 0.033)
+  convergenceTenor: number; // years at which the forward must reach the UFR
+}
+
+export interface SmithWilsonParams extends SmithWilsonSettings {
+  alpha: number;     // convergence speed
+  nodes: number[];   // cash-flow dates uⱼ (years)
+  weights: number[]; // ζⱼ
+}
+
+export interface SmithWilsonCashFlow {
+  tenor: number;
+  amount: number;
+}
+
+export interface SmithWilsonInstrument {
+  price: number; // market value of the cash flows (0 for a par swap including its −1 at start)
+  cashFlows: SmithWilsonCashFlow[];
+}
+
+// ============ Defaults ============
+
+// EIOPA-style UFR (expected real rate + inflation target) and convergence
+// point max(LLP + 40, 60) for each currency's last liquid point
+const DEFAULT_SMITH_WILSON: Record<string, SmithWilsonSettings> = {
+  USD: { ufr: 0.0330, convergenceTenor: 90 },
+  EUR: { ufr: 0.0330, convergenceTenor: 60 },
+  GBP: { ufr: 0.0330, convergenceTenor: 90 },
+  CHF: { ufr: 0.0230, convergenceTenor: 65 },
+  JPY: { ufr: 0.0230, convergenceTenor: 70 },
+  CAD: { ufr: 0.0330, convergenceTenor: 75 },
+  SGD: { ufr: 0.0330, convergenceTenor: 60 },
+};
+
+export function getDefaultSmithWilsonSettings(currency: string): SmithWilsonSettings {
+  return { ...(DEFAULT_SMITH_WILSON[currency] || DEFAULT_SMITH_WILSON.EUR) };
+}
+
+// ============ Wilson Function ============
+
+const MIN_ALPHA = 0.05;
+const MAX_ALPHA = 5;
+const CONVERGENCE_TOLERANCE = 0.0001; // 1bp
+const ALPHA_BISECTION_STEPS = 40;
+
+export function ufrIntensity(ufr: number): number {
+  return Math.log(1 + ufr);
+}
+
+function wilson(t: number, u: number, alpha: number, omega: number): number {
+  const min = Math.min(t, u);
+  const max = Math.max(t, u);
+  return Math.exp(-omega * (t + u)) *
+    (alpha * min - 0.5 * Math.exp(-alpha * max) * (Math.exp(alpha * min) - Math.exp(-alpha * min)));
+}
+
+export function smithWilsonDiscount(t: number, params: SmithWilsonParams): number {
+  if (t <= 0) return 1;
+  const omega = ufrIntensity(params.ufr);
+  let df = Math.exp(-omega * t);
+  params.nodes.forEach((u, j) => {
+    df += params.weights[j] * wilson(t, u, params.alpha, omega);
+  });
+  return df;
+}
+
+/**
+ * Instantaneous forward (continuous) of a Smith-Wilson curve
+ */
+export function smithWilsonForward(t: number, params: SmithWilsonParams): number {
+  const h = 1e-4;
+  const lower = Math.max(t - h, 0);
+  return -(Math.log(smithWilsonDiscount(t + h, params)) - Math.log(smithWilsonDiscount(lower, params))) / (t + h - lower);
+}
+
+// ============ Calibration ============
+
+function solveWeights(
+  instruments: SmithWilsonInstrument[],
+  nodes: number[],
+  alpha: number,
+  omega: number
+): number[] | null {
+  const nodeIndex = new Map(nodes.map((u, j) => [u, j]));
+  const rows = instruments.map(inst => {
+    const row = new Array<number>(nodes.length).fill(0);
+    inst.cashFlows.forEach(cf => { row[nodeIndex.get(cf.tenor)!] += cf.amount; });
+    return row;
+  });
+
+  const w = nodes.map(t => nodes.map(u => wilson(t, u, alpha, omega)));
+  const cw = rows.map(c => nodes.map((_, k) => c.reduce((sum, cj, j) => sum + cj * w[j][k], 0)));
+  const matrix = cw.map(r => rows.map(c => r.reduce((sum, v, k) => sum + v * c[k], 0)));
+  const rhs = instruments.map((inst, i) =>
+    inst.price - rows[i].reduce((sum, cj, j) => sum + cj * Math.exp(-omega * nodes[j]), 0)
+  );
+
+  const xi = solveLinearSystem(matrix, rhs);
+  if (!xi) return null;
+
+  return nodes.map((_, j) => rows.reduce((sum, c, i) => sum + c[j] * xi[i], 0));
+}
+
+/**
+ * Fit the Smith-Wilson weights to the instruments and calibrate α on the
+ * convergence criterion. Returns null if the instruments are degenerate.
+ */
+export function fitSmithWilson(
+  instruments: SmithWilsonInstrument[],
+  settings: SmithWilsonSettings
+): SmithWilsonParams | null {
+  const omega = ufrIntensity(settings.ufr);
+  const nodes = Array.from(new Set(instruments.flatMap(i => i.cashFlows.map(cf => cf.tenor))))
+    .filter(u => u > 0)
+    .sort((a, b) => a - b);
+  // Cash flows on the valuation date are known (P(0) = 1): move them to the price
+  const liquid = instruments
+    .map(i => ({
+      price: i.cashFlows.filter(cf => cf.tenor <= 0).reduce((price, cf) => price - cf.amount, i.price),
+      cashFlows: i.cashFlows.filter(cf => cf.tenor > 0),
+    }))
+    .filter(i => i.cashFlows.length > 0);
+  if (liquid.length === 0) return null;
+
+  const fitAt = (alpha: number): SmithWilsonParams | null => {
+    const weights = solveWeights(liquid, nodes, alpha, omega);
+    return weights ? { ...settings, alpha, nodes, weights } : null;
+  };
+  const gap = (params: SmithWilsonParams) =>
+    Math.abs(smithWilsonForward(settings.convergenceTenor, params) - omega);
+
+  let best = fitAt(MIN_ALPHA);
+  if (!best || gap(best) <= CONVERGENCE_TOLERANCE) return best;
+
+  // Bracket, then bisect on the convergence gap
+  let low = MIN_ALPHA;
+  let high = MIN_ALPHA;
+  let upper: SmithWilsonParams | null = null;
+  while (high < MAX_ALPHA) {
+    high = Math.min(high * 2, MAX_ALPHA);
+    upper = fitAt(high);
+    if (upper && gap(upper) <= CONVERGENCE_TOLERANCE) break;
+    low = high;
+  }
+  if (!upper || gap(upper) > CONVERGENCE_TOLERANCE) return upper ?? best;
+
+  best = upper;
+  for (let i = 0; i < ALPHA_BISECTION_STEPS && high - low > 1e-6; i++) {
+    const mid = (low + high) / 2;
+    const candidate = fitAt(mid);
+    if (candidate && gap(candidate) <= CONVERGENCE_TOLERANCE) {
+      high = mid;
+      best = candidate;
+    } else {
+      low = mid;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,180 @@
+/**
+ * Vanilla interest rate swap pricer
+ *
+ * Fixed vs floating swap valued on a bootstrapped curve:
+ * - Schedules rolled back from maturity, payment dates adjusted modified
+ *   following on the curve's calendar (as for the bootstrap instruments)
+ * - Floating coupons projected from the forecast curve,
+ *   Fⱼ = (Pf(sⱼ)/Pf(eⱼ) − 1)/αⱼ, and discounted on the discount curve
+ *   (single-curve when no forecast curve is given)
+ * - Par rate K = PV(float) / (N × Σ αᵢ × DF(tᵢ)), PV01 = N × Σ αᵢ × DF(tᵢ) × 1bp
+ *
+ * Flows paid on or before the valuation date are dropped. A floating period
+ * already accruing pays its fixing when given; otherwise its rate is the
+ * forward projected over the remaining fraction φ of the period,
+ *   F = (Pf(v)/Pf(eⱼ) − 1)/(φ × αⱼ),  φ = α(v, eⱼ)/α(sⱼ, eⱼ)
+ * i.e. the accrued part is taken at the same rate (no fixing history).
+ */
+
+import { BootstrapResult, discountFactorAt } from './bootstrapping';
+import { businessDayPredicate } from './calendars';
+import { generateSchedule, SchedulePeriod, yearsBetween } from './dates';
+import { DayCountConvention, periodAccrual, yearFraction } from './dayCount';
+
+// ============ Types ============
+
+export type SwapDirection = 'payer' | 'receiver'; // pay or receive the fixed leg
+
+export interface SwapTrade {
+  notional: number;
+  startDate: Date;
+  maturityDate: Date;
+  fixedRate: number;       // decimal
+  direction: SwapDirection;
+  fixedFrequency: number;  // payments per year
+  floatFrequency: number;
+  fixedDayCount: DayCountConvention;
+  floatDayCount: DayCountConvention;
+  floatSpread?: number;    // decimal, added to the projected index
+  currentFixing?: number;  // decimal, index fixing of the period already accruing
+}
+
+export interface SwapCashFlow {
+  leg: 'fixed' | 'float';
+  startDate: Date;
+  endDate: Date;           // payment date
+  tenor: number;           // ACT/365F years from the valuation date
+  accrual: number;
+  rate: number;            // fixed rate, or projected forward (or fixing) + spread
+  accruing?: boolean;      // floating period started on or before the valuation date
+  amount: number;          // signed: received > 0, paid < 0
+  discountFactor: number;
+  presentValue: number;
+}
+
+export interface SwapValuation {
+  fixedLegPv: number;      // leg values before the holder's sign
+  floatLegPv: number;
+  npv: number;             // from the holder's side (payer: float − fixed)
+  parRate: number;
+  pv01: number;            // value of 1bp on the fixed rate
+  annuity: number;         // Σ αᵢ × DF(tᵢ)
+  cashFlows: SwapCashFlow[];
+}
+
+const ONE_BP = 0.0001;
+
+// ============ Pricing ============
+
+/**
+ * Default trade on a curve: spot-starting, the currency's swap conventions
+ */
+export function defaultSwapTrade(
+  result: BootstrapResult,
+  startDate: Date,
+  maturityDate: Date
+): SwapTrade {
+  const basis = result.basisConvention;
+  return {
+    notional: 10_000_000,
+    startDate,
+    maturityDate,
+    fixedRate: 0.03,
+    direction: 'payer',
+    fixedFrequency: basis.paymentFrequency,
+    floatFrequency: basis.floatFrequency,
+    fixedDayCount: basis.fixedDayCount,
+    floatDayCount: basis.floatDayCount,
+    floatSpread: 0,
+  };
+}
+
+export function priceSwap(
+  trade: SwapTrade,
+  discountCurve: BootstrapResult,
+  forecastCurve: BootstrapResult = discountCurve
+): SwapValuation | null {
+  if (trade.maturityDate <= trade.startDate) return null;
+
+  const valuationDate = discountCurve.valuationDate;
+  const isBusinessDay = businessDayPredicate(discountCurve.basisConvention.calendars);
+  const tenorOf = (date: Date) => yearsBetween(valuationDate, date);
+  const isAlive = (period: SchedulePeriod) => period.end > valuationDate;
+
+  const fixedPeriods = generateSchedule(
+    trade.startDate, trade.maturityDate, trade.fixedFrequency, 'modified_following', isBusinessDay
+  ).filter(isAlive);
+  const floatPeriods = generateSchedule(
+    trade.startDate, trade.maturityDate, trade.floatFrequency, 'modified_following', isBusinessDay
+  ).filter(isAlive);
+
+  // Holder's sign on each leg
+  const fixedSign = trade.direction === 'payer' ? -1 : 1;
+  const floatSign = -fixedSign;
+  const spread = trade.floatSpread ?? 0;
+
+  let annuity = 0;
+  const fixedFlows: SwapCashFlow[] = fixedPeriods.map((period) => {
+    const tenor = tenorOf(period.end);
+    const accrual = periodAccrual(trade.fixedDayCount, period, trade.fixedFrequency);
+    const discountFactor = discountFactorAt(discountCurve, tenor);
+    const amount = fixedSign * trade.notional * trade.fixedRate * accrual;
+    annuity += accrual * discountFactor;
+    return {
+      leg: 'fixed',
+      startDate: period.start,
+      endDate: period.end,
+      tenor,
+      accrual,
+      rate: trade.fixedRate,
+      amount,
+      discountFactor,
+      presentValue: amount * discountFactor,
+    };
+  });
+
+  const floatFlows: SwapCashFlow[] = floatPeriods.map((period) => {
+    const tenor = tenorOf(period.end);
+    const accrual = periodAccrual(trade.floatDayCount, period, trade.floatFrequency);
+    const accruing = period.start <= valuationDate;
+    // Share of the accrual still to run, over which the forward is projected
+    const remaining = accruing
+      ? yearFraction(trade.floatDayCount, valuationDate, period.end) / yearFraction(trade.floatDayCount, period.start, period.end)
+      : 1;
+    const startTenor = Math.max(0, tenorOf(period.start));
+    const forward = accrual > 0 && remaining > 0
+      ? (discountFactorAt(forecastCurve, startTenor) / discountFactorAt(forecastCurve, tenor) - 1) / (remaining * accrual)
+      : 0;
+    const rate = (accruing && trade.currentFixing !== undefined ? trade.currentFixing : forward) + spread;
+    const discountFactor = discountFactorAt(discountCurve, tenor);
+    const amount = floatSign * trade.notional * rate * accrual;
+    return {
+      leg: 'float',
+      startDate: period.start,
+      endDate: period.end,
+      tenor,
+      accrual,
+      rate,
+      accruing,
+      amount,
+      discountFactor,
+      presentValue: amount * discountFactor,
+    };
+  });
+
+  const fixedLegPv = fixedSign * fixedFlows.reduce((sum, cf) => sum + cf.presentValue, 0);
+  const floatLegPv = floatSign * floatFlows.reduce((sum, cf) => sum + cf.presentValue, 0);
+  const npv = [...fixedFlows, ...floatFlows].reduce((sum, cf) => sum + cf.presentValue, 0);
+
+  return {
+    fixedLegPv,
+    floatLegPv,
+    npv,
+    parRate: annuity > 0 ? floatLegPv / (trade.notional * annuity) : 0,
+    pv01: trade.notional * annuity * ONE_BP,
+    annuity,
+    cashFlows: [...fixedFlows, ...floatFlows].sort(
+      (a, b) => a.tenor - b.tenor || (a.leg === b.leg ? 0 : a.leg === 'fixed' ? -1 : 1)
+    ),
+  };
+}
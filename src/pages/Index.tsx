@@ -6,6 +6,7 @@ import { DashboardHeader } from "@/components/DashboardHeader";
 import { RateCard } from "@/components/RateCard";
 import { EditableRateTable } from "@/components/EditableRateTable";
 import { RateCurveChart } from "@/components/RateCurveChart";
+import { PolicyPathPanel } from "@/components/PolicyPathPanel";
 import { IRSDashboard } from "@/components/IRSDashboard";
 import { BootstrappingDashboard } from "@/components/BootstrappingDashboard";
 import { BondsDashboard } from "@/components/BondsDashboard";
@@ -196,6 +197,11 @@ const Index = () => {
                 </>
               )}
             </section>
+
+            {/* Implied policy path (overnight indices only) */}
+            {selectedRate && !selectedRate.id.includes("ibor") && displayData.length > 0 && (
+              <PolicyPathPanel key={selectedRate.id} data={displayData} rateIndex={selectedRate} />
+            )}
           </>
         ) : mainView === "irs" ? (
           <IRSDashboard />